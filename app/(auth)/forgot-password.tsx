@@ -0,0 +1,241 @@
+import { api } from '@/lib/api';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Platform,
+    StatusBar,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('auth');
+
+const COLORS = {
+  primary: '#FF8C42',
+  white: '#FFFFFF',
+  inputBg: '#F5F5F5',
+  textGray: '#999999',
+  textDark: '#333333',
+} as const;
+
+export default function ForgotPasswordScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ email?: string }>();
+  const [email, setEmail] = useState(params.email ?? '');
+  const [loading, setLoading] = useState(false);
+
+  const goToReset = (): void => {
+    router.push({ pathname: '/(auth)/reset-password', params: { email: email.trim() } } as any);
+  };
+
+  const handleSendCode = async (): Promise<void> => {
+    if (!email.trim()) {
+      Alert.alert('Error', 'Please enter your email');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await api.requestPasswordReset(email.trim());
+
+      if (response.error) {
+        Alert.alert('Request Failed', response.message || 'Could not send a reset code. Please try again.');
+        return;
+      }
+
+      // Same message whether or not the account exists
+      Alert.alert(
+        'Check Your Email',
+        'If an account exists for that email, we sent a reset code and link.',
+        [{ text: 'OK', onPress: goToReset }]
+      );
+    } catch (error) {
+      log.error('Error requesting password reset', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar
+        barStyle="dark-content"
+        backgroundColor={COLORS.white}
+        translucent={false}
+      />
+      <SafeAreaView style={styles.safeArea} edges={['top', 'bottom']}>
+        {/* Back Button */}
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="chevron-back" size={24} color={COLORS.primary} />
+        </TouchableOpacity>
+
+        {/* Content Container */}
+        <View style={styles.content}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>Forgot Password</Text>
+            <Text style={styles.subtitle}>
+              Enter your email and we&apos;ll send you a{'\n'}code to reset your password
+            </Text>
+          </View>
+
+          {/* Form */}
+          <View style={styles.form}>
+            {/* Email Input */}
+            <View style={styles.inputContainer}>
+              <Ionicons
+                name="mail-outline"
+                size={20}
+                color={COLORS.primary}
+                style={styles.inputIcon}
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="Email"
+                placeholderTextColor={COLORS.textGray}
+                value={email}
+                onChangeText={(text) => setEmail(text)}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                editable={!loading}
+              />
+            </View>
+
+            {/* Send Code Button */}
+            <TouchableOpacity
+              style={[styles.primaryButton, loading && styles.primaryButtonDisabled]}
+              onPress={handleSendCode}
+              activeOpacity={0.9}
+              disabled={loading}
+            >
+              {loading ? (
+                <ActivityIndicator color={COLORS.white} />
+              ) : (
+                <Text style={styles.primaryButtonText}>Send Reset Code</Text>
+              )}
+            </TouchableOpacity>
+
+            {/* Already have a code */}
+            <TouchableOpacity
+              style={styles.linkContainer}
+              onPress={goToReset}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.linkText}>I already have a code</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  backButton: {
+    paddingLeft: 20,
+    paddingTop: 10,
+    paddingBottom: 10,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 28,
+    paddingTop: 60,
+  },
+  header: {
+    marginTop: 40,
+    marginBottom: 40,
+  },
+  title: {
+    fontSize: 28,
+    fontFamily: 'Poppins-Bold',
+    color: COLORS.primary,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    fontFamily: 'Poppins-Regular',
+    color: COLORS.textGray,
+    lineHeight: 22,
+  },
+  form: {
+    marginTop: 20,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.inputBg,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+    height: 56,
+  },
+  inputIcon: {
+    marginRight: 12,
+  },
+  input: {
+    flex: 1,
+    fontFamily: 'Poppins-Regular',
+    fontSize: 15,
+    color: COLORS.textDark,
+  },
+  primaryButton: {
+    backgroundColor: COLORS.primary,
+    paddingVertical: 16,
+    borderRadius: 50,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 8,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: {
+          width: 0,
+          height: 4,
+        },
+        shadowOpacity: 0.15,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 6,
+      },
+    }),
+  },
+  primaryButtonText: {
+    color: COLORS.white,
+    fontSize: 17,
+    fontFamily: 'Poppins-SemiBold',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  linkContainer: {
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  linkText: {
+    fontFamily: 'Poppins-Regular',
+    fontSize: 14,
+    color: COLORS.textGray,
+  },
+});
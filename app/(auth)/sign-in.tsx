@@ -6,7 +6,7 @@ import {
     useFonts,
 } from '@expo-google-fonts/poppins';
 import { Ionicons } from '@expo/vector-icons';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import React, { useCallback, useState } from 'react';
 import {
@@ -28,6 +28,8 @@ const COLORS = {
   inputBg: '#F5F5F5',
   textGray: '#999999',
   textDark: '#333333',
+  noticeBg: '#FFF4E5',
+  noticeText: '#B26A00',
 } as const;
 
 SplashScreen.preventAutoHideAsync();
@@ -35,6 +37,9 @@ SplashScreen.preventAutoHideAsync();
 export default function SignInScreen() {
   const router = useRouter();
   const { signIn } = useAuth();
+  // Set when the session expired: explain why, and go back to where the user was afterwards
+  const { reason, returnTo } = useLocalSearchParams<{ reason?: string; returnTo?: string }>();
+  const sessionExpired = reason === 'expired';
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -71,8 +76,10 @@ export default function SignInScreen() {
       if (result.error) {
         Alert.alert('Login Failed', result.message || 'Invalid email or password');
       } else {
-        // Navigate to home/tabs on success
-        router.replace('/(tabs)' as any);
+        // Navigate back to the interrupted screen (same account only), or home/tabs on success
+        const canReturn = !result.switchedAccount
+          && typeof returnTo === 'string' && returnTo.startsWith('/') && !returnTo.startsWith('//');
+        router.replace((canReturn ? returnTo : '/(tabs)') as any);
       }
     } catch (error) {
       Alert.alert('Error', 'An unexpected error occurred');
@@ -82,11 +89,15 @@ export default function SignInScreen() {
   };
 
   const handleForgotPassword = (): void => {
-    console.log('Forgot password clicked');
-    // TODO: Navigate to forgot password screen
+    router.push({ pathname: '/(auth)/forgot-password', params: { email } } as any);
   };
 
   const handleBackPress = (): void => {
+    // The screens underneath belonged to the expired session
+    if (sessionExpired) {
+      router.replace('/(onboarding)/welcome' as any);
+      return;
+    }
     if (router.canGoBack()) {
       router.back();
     } else {
@@ -121,6 +132,13 @@ export default function SignInScreen() {
             </Text>
           </View>
 
+          {sessionExpired && (
+            <View style={styles.notice}>
+              <Ionicons name="time-outline" size={18} color={COLORS.noticeText} />
+              <Text style={styles.noticeText}>Your session expired. Sign in again to pick up where you left off.</Text>
+            </View>
+          )}
+
           {/* Form */}
           <View style={styles.form}>
             {/* Email Input */}
@@ -235,6 +253,21 @@ const styles = StyleSheet.create({
     color: COLORS.textGray,
     lineHeight: 22,
   },
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.noticeBg,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  noticeText: {
+    flex: 1,
+    marginLeft: 8,
+    fontFamily: 'Poppins-Regular',
+    fontSize: 13,
+    color: COLORS.noticeText,
+  },
   form: {
     marginTop: 20,
   },
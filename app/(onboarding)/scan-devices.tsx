@@ -20,6 +20,9 @@ import {
   View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('app');
 
 const { width, height } = Dimensions.get('window');
 
@@ -175,7 +178,7 @@ export default function ScanDevicesScreen() {
       // For now, we'll rely on MQTT discovery
 
     } catch (error) {
-      console.error('Discovery error:', error);
+      log.error('Discovery error', error);
       setStatus('Scan failed, continuing...');
     } finally {
       setScanComplete(true);
@@ -200,11 +203,11 @@ export default function ScanDevicesScreen() {
         // Login failed, redirect to sign-in
         router.replace('/(auth)/sign-in');
       } else {
-        // Success, navigate to tabs
-        router.replace('/(tabs)');
+        // Success: new accounts confirm their email first (the screen forwards to tabs if already verified)
+        router.replace('/verify-email' as any);
       }
     } catch (error) {
-      console.error('Auto-login error:', error);
+      log.error('Auto-login error', error);
       router.replace('/(auth)/sign-in');
     }
   };
@@ -1,10 +1,23 @@
 import { useAuth } from '@/contexts/auth-context';
-import { api, Alert, Device, SensorReading, Socket } from '@/lib/api';
+import { api, Alert, CacheOptions, DataFreshness, Device, getDataFreshness, SensorReading, Socket } from '@/lib/api';
+import { ConnectionLostBanner } from '@/components/ConnectionLostBanner';
+import { ConnectionQualityIndicator } from '@/components/ConnectionQualityIndicator';
+import { DataFreshnessBanner } from '@/components/DataFreshnessBanner';
+import { PendingChangesNotice } from '@/components/PendingChangesNotice';
+import { VerifyEmailNotice } from '@/components/VerifyEmailNotice';
+import { applyPendingToAlerts, applyPendingToDevices, applyPendingToSockets, isPendingId } from '@/lib/outbox';
+import { outboxService } from '@/services/outbox';
 import { OverallAnalytics } from '@/components/OverallAnalytics';
 import { OutletModal } from '@/components/OutletModal';
 import { useWebSocket } from '@/hooks/useWebSocket';
+import { useDeviceCommand } from '@/hooks/useDeviceCommand';
+import { COMMAND_STATUS_LABELS, DeviceCommand } from '@/lib/device-commands';
+import { canControl, getRole } from '@/lib/roles';
+import { createLogger } from '@/services/logger';
 import { splitSensorDataByOutlet, OutletData } from '@/lib/outlet-utils';
 import { notificationService } from '@/services/notifications';
+import { breakerStateStore } from '@/services/breaker-states';
+import { channelMapService } from '@/services/channel-maps';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useCallback, useEffect, useState, useRef } from 'react';
 import * as Notifications from 'expo-notifications';
@@ -33,6 +46,9 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useFocusEffect } from 'expo-router';
 
+const log = createLogger('app');
+const commandLog = createLogger('commands');
+
 const COLORS = {
   primary: '#FF8C42',
   primaryLight: '#FFA660',
@@ -232,78 +248,114 @@ const SwipeableAlertItem: React.FC<SwipeableAlertItemProps> = ({
 export default function HomeScreen() {
   const { user } = useAuth();
   const router = useRouter();
-  const { isConnected: wsConnected, sendCommand: wsSendCommand } = useWebSocket();
+  const { commandState, isPending: commandPending, runCommand } = useDeviceCommand();
   const [alerts, setAlerts] = useState<Alert[]>([]);
   const [devices, setDevices] = useState<Device[]>([]);
   const [sockets, setSockets] = useState<Socket[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [commandLoading, setCommandLoading] = useState<string | null>(null);
   const [isAlertsCollapsed, setIsAlertsCollapsed] = useState(true); // Collapsed by default
   const [alertFilter, setAlertFilter] = useState<'all' | 'active' | string>('all');
   const [modalVisible, setModalVisible] = useState(false);
   const [selectedOutlet, setSelectedOutlet] = useState<1 | 2>(1);
   const [sensorReading, setSensorReading] = useState<SensorReading | null>(null);
-  const [outletsData, setOutletsData] = useState<[OutletData, OutletData] | null>(null);
+  // Breaker reports for the shown device keep the outlet cards current
+  const { isConnected: wsConnected } = useWebSocket({
+    deviceId: sensorReading?.deviceId,
+    messageTypes: sensorReading ? ['sensor_reading', 'power_status'] : undefined,
+  });
+  const [outletsData, setOutletsData] = useState<OutletData[] | null>(null);
   const [archivingAlertId, setArchivingAlertId] = useState<string | null>(null);
   const [removingAlertIds, setRemovingAlertIds] = useState<Set<string>>(new Set());
+  const [freshness, setFreshness] = useState<DataFreshness>({ updatedAt: null, fromCache: false, offline: false });
   const swipeableRefs = useRef<Map<string, Swipeable>>(new Map());
   const scrollViewRef = useRef<ScrollView>(null);
   
   // Swipe threshold (in pixels) - 60% of delete button width
   const SWIPE_THRESHOLD = 60;
 
-  const fetchData = useCallback(async () => {
+  const fetchData = useCallback(async (options?: CacheOptions) => {
     try {
       const [alertsRes, devicesRes, sensorRes, socketsRes] = await Promise.all([
-        api.getAllAlerts(100), // Get all alerts (up to 100)
-        api.getDevices(),
-        api.getLatestSensorReading(),
-        api.getSockets(),
+        api.getAllAlerts(100, options), // Get all alerts (up to 100)
+        api.getDevices(options),
+        api.getLatestSensorReading(undefined, options),
+        api.getSockets(options),
       ]);
+      const responses = [alertsRes, devicesRes, sensorRes, socketsRes];
+
+      // Nothing saved yet: keep the spinner until the server answers
+      if (options?.fromCache && !responses.some((res) => res.data)) return;
+      setFreshness(getDataFreshness(responses));
+
+      // Changes still in the outbox override what the server (or cache) returned
+      await outboxService.load();
+      const pendingChanges = outboxService.getEntries();
 
       if (alertsRes.data) {
-        console.log(`📊 Fetched ${alertsRes.data.alerts.length} alerts`);
-        setAlerts(alertsRes.data.alerts);
+        log.debug(`Fetched ${alertsRes.data.alerts.length} alerts`);
+        setAlerts(applyPendingToAlerts(alertsRes.data.alerts, pendingChanges));
       }
       if (devicesRes.data) {
-        setDevices(devicesRes.data.devices);
+        setDevices(applyPendingToDevices(devicesRes.data.devices, pendingChanges));
       }
       if (sensorRes.data?.reading) {
         setSensorReading(sensorRes.data.reading);
-        // Split sensor data by outlet (assuming breakers are both ON by default)
-        const outletData = splitSensorDataByOutlet(sensorRes.data.reading, true, true);
+        // Split sensor data by outlet (breakers stay unknown until the device reports them)
+        const reading = sensorRes.data.reading;
+        await channelMapService.load();
+        const outletData = splitSensorDataByOutlet(
+          reading,
+          breakerStateStore.getStates(reading.deviceId),
+          channelMapService.getMap(reading.deviceId)
+        );
         setOutletsData(outletData);
       }
       if (socketsRes.data) {
-        setSockets(socketsRes.data.sockets);
+        setSockets(applyPendingToSockets(socketsRes.data.sockets, pendingChanges));
       }
+      setLoading(false);
     } catch (error) {
-      console.error('Error fetching data:', error);
+      log.error('Error fetching data', error);
+      if (!options?.fromCache) setLoading(false);
     } finally {
-      setLoading(false);
       setRefreshing(false);
     }
   }, []);
 
   useEffect(() => {
-    fetchData();
+    // Render the saved copy right away, then revalidate against the server
+    fetchData({ fromCache: true }).then(() => fetchData());
     // Refresh every 30 seconds
-    const interval = setInterval(fetchData, 30000);
+    const interval = setInterval(() => fetchData(), 30000);
     return () => clearInterval(interval);
   }, [fetchData]);
 
-  // Refresh sockets when screen comes into focus (e.g., returning from add-socket)
+  // Keep outlet breaker states in sync with device reports
+  useEffect(() => {
+    return breakerStateStore.subscribe((deviceId, { states }) => {
+      setOutletsData(prev => {
+        if (!prev || prev[0]?.deviceId !== deviceId) return prev;
+        return prev.map(outlet => (
+          outlet.channels.breaker !== null
+            ? { ...outlet, breakerState: states[outlet.channels.breaker - 1] }
+            : outlet
+        ));
+      });
+    });
+  }, []);
+
+    // Refresh sockets when screen comes into focus (e.g., returning from add-socket)
   useFocusEffect(
     useCallback(() => {
       // Only refresh sockets if we're not in initial loading state
       if (!loading) {
         api.getSockets().then((response) => {
           if (response.data) {
-            setSockets(response.data.sockets);
+            setSockets(applyPendingToSockets(response.data.sockets, outboxService.getEntries()));
           }
         }).catch((error) => {
-          console.error('Error refreshing sockets:', error);
+          log.error('Error refreshing sockets', error);
         });
       }
     }, [loading])
@@ -338,52 +390,35 @@ export default function HomeScreen() {
     fetchData();
   }, [fetchData]);
 
-  const sendCommand = async (command: string) => {
-    console.log(`🔘 Button clicked: ${command}`);
-    console.log(`📊 Button state check:`, {
-      devicesLength: devices.length,
-      wsConnected,
-      commandLoading,
-      isConnected: devices.length > 0,
-    });
-    
+  const sendCommand = async (command: DeviceCommand) => {
     if (devices.length === 0) {
-      console.warn('⚠️ No devices paired');
+      commandLog.warn(`${command} not sent: no devices paired`);
       alert('No devices paired. Please pair a device first.');
       return;
     }
 
     if (!wsConnected) {
-      console.error('❌ WebSocket is not connected (wsConnected:', wsConnected, ')');
+      commandLog.warn(`${command} not sent: WebSocket not connected`);
       alert('WebSocket is not connected. Please check your connection.');
       return;
     }
 
     const deviceId = devices[0].deviceId;
-    console.log(`📤 Sending command "${command}" to device "${deviceId}"`);
-    
-    setCommandLoading(command);
-    try {
-      const success = wsSendCommand(deviceId, command);
-      if (!success) {
-        console.error('❌ Failed to send command - wsSendCommand returned false');
-        alert('Failed to send command. Check console for details.');
-        setCommandLoading(null);
-      } else {
-        console.log(`✅ Command sent successfully: ${command} to device: ${deviceId}`);
-        // Reset loading after a short delay to show feedback
-        setTimeout(() => {
-          setCommandLoading(null);
-        }, 1000);
-      }
-    } catch (error) {
-      console.error('❌ Error sending command:', error);
-      alert(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      setCommandLoading(null);
+    const result = await runCommand(deviceId, command);
+    if (result) {
+      commandLog.info(`${command} confirmed by ${result.confirmedBy} on ${deviceId}`);
     }
   };
 
+  // Subtitle for a command button: the command's result while one is shown, otherwise the default label
+  const getCommandSubtitle = (command: DeviceCommand, fallback: string): string => {
+    if (commandState?.command !== command) return fallback;
+    return COMMAND_STATUS_LABELS[commandState.status];
+  };
+
   const isConnected = devices.length > 0;
+  // Viewers on a shared device get telemetry and alerts but no controls
+  const canControlDevice = canControl(getRole(devices[0]));
   const hasAlerts = alerts.length > 0;
 
   const handleOutletPress = (outletNumber: 1 | 2) => {
@@ -408,9 +443,9 @@ export default function HomeScreen() {
       };
 
       await notificationService.sendLocalNotification(testAlert);
-      console.log('✅ Test notification sent');
+      log.info('Test notification sent');
     } catch (error) {
-      console.error('❌ Error sending test notification:', error);
+      log.error('Error sending test notification', error);
       alert('Failed to send test notification. Check console for details.');
     }
   };
@@ -426,9 +461,10 @@ export default function HomeScreen() {
 
     setArchivingAlertId(alertId);
     try {
-      const response = await api.archiveAlert(alertId);
+      // Queued while offline; the outbox replays it when the server is reachable
+      const result = await outboxService.submit({ type: 'archiveAlert', params: { alertId } });
       
-      if (response.error) {
+      if (result.status === 'error') {
         // Reset removing state on error
         setRemovingAlertIds(prev => {
           const next = new Set(prev);
@@ -438,7 +474,7 @@ export default function HomeScreen() {
         
         RNAlert.alert(
           'Error',
-          response.message || 'Failed to archive alert. Please try again.',
+          result.message || 'Failed to archive alert. Please try again.',
           [{ text: 'OK' }]
         );
         return;
@@ -463,7 +499,7 @@ export default function HomeScreen() {
       // Remove alert from local state
       setAlerts(prevAlerts => prevAlerts.filter(a => a.id !== alertId));
       
-      console.log('✅ Alert archived successfully');
+      log.info(result.status === 'queued' ? 'Alert archive queued' : 'Alert archived');
     } catch (error) {
       // Reset removing state on error
       setRemovingAlertIds(prev => {
@@ -472,7 +508,7 @@ export default function HomeScreen() {
         return next;
       });
       
-      console.error('❌ Error archiving alert:', error);
+      log.error('Error archiving alert', error);
       RNAlert.alert(
         'Error',
         'Failed to archive alert. Please try again.',
@@ -564,8 +600,12 @@ export default function HomeScreen() {
         {/* Header */}
         <View style={styles.header}>
           <Text style={styles.greeting}>APN</Text>
-         
+          <ConnectionQualityIndicator style={styles.connectionIndicator} />
         </View>
+        <DataFreshnessBanner freshness={freshness} />
+        <ConnectionLostBanner />
+        <VerifyEmailNotice />
+        <PendingChangesNotice />
 
         <ScrollView 
           style={styles.scrollView}
@@ -606,6 +646,9 @@ export default function HomeScreen() {
                   {socket.location && (
                     <Text style={styles.outletLocation}>{socket.location}</Text>
                   )}
+                  {isPendingId(socket.id) && (
+                    <Text style={styles.outletLocation}>Waiting to sync</Text>
+                  )}
                   <View style={[styles.outletIconPlaceholder, !isConnected && styles.outletDisabled]}>
                     <View style={styles.outletFace}>
                       <View style={styles.eyesRow}>
@@ -635,6 +678,15 @@ export default function HomeScreen() {
           {devices.length > 0 && (
             <View style={styles.analyticsSection}>
               <OverallAnalytics deviceId={devices[0].deviceId} />
+              <TouchableOpacity
+                style={styles.energyLink}
+                onPress={() => router.push({ pathname: '/energy' as any, params: { deviceId: devices[0].deviceId } })}
+                activeOpacity={0.8}
+              >
+                <Ionicons name="flash-outline" size={18} color={COLORS.primary} />
+                <Text style={styles.energyLinkText}>Energy & Cost</Text>
+                <Ionicons name="chevron-forward" size={18} color={COLORS.primary} />
+              </TouchableOpacity>
             </View>
           )}
 
@@ -853,15 +905,15 @@ export default function HomeScreen() {
                 style={[
                   styles.insightCard, 
                   styles.powerCard,
-                  (!isConnected || !wsConnected || commandLoading !== null) && styles.buttonDisabled
+                  (!isConnected || !wsConnected || commandPending || !canControlDevice) && styles.buttonDisabled
                 ]}
                 onPress={() => {
-                  console.log('🔘 Power button pressed - onPress fired');
-                  if (!isConnected || !wsConnected || commandLoading !== null) {
-                    console.warn('⚠️ Button is disabled:', {
+                  if (!isConnected || !wsConnected || commandPending || !canControlDevice) {
+                    commandLog.debug('Button is disabled', {
                       isConnected,
                       wsConnected,
-                      commandLoading,
+                      commandPending,
+                      canControlDevice,
                     });
                     return;
                   }
@@ -870,7 +922,7 @@ export default function HomeScreen() {
                 disabled={false}
                 activeOpacity={0.7}
               >
-                {commandLoading === 'TRIP_ALL' ? (
+                {commandState?.command === 'TRIP_ALL' && commandState.status === 'pending' ? (
                   <ActivityIndicator size="large" color={COLORS.white} />
                 ) : (
                   <>
@@ -878,7 +930,7 @@ export default function HomeScreen() {
                       <Ionicons name="power" size={32} color={COLORS.danger} />
                     </View>
                     <Text style={styles.insightTitle}>Power</Text>
-                    <Text style={styles.insightSubtitle}>Trip Breakers</Text>
+                    <Text style={styles.insightSubtitle}>{canControlDevice ? getCommandSubtitle('TRIP_ALL', 'Trip Breakers') : 'View only'}</Text>
                   </>
                 )}
               </TouchableOpacity>
@@ -888,15 +940,15 @@ export default function HomeScreen() {
                 style={[
                   styles.insightCard, 
                   styles.shakeCard,
-                  (!isConnected || !wsConnected || commandLoading !== null) && styles.buttonDisabled
+                  (!isConnected || !wsConnected || commandPending || !canControlDevice) && styles.buttonDisabled
                 ]}
                 onPress={() => {
-                  console.log('🔘 Shake button pressed - onPress fired');
-                  if (!isConnected || !wsConnected || commandLoading !== null) {
-                    console.warn('⚠️ Button is disabled:', {
+                  if (!isConnected || !wsConnected || commandPending || !canControlDevice) {
+                    commandLog.debug('Button is disabled', {
                       isConnected,
                       wsConnected,
-                      commandLoading,
+                      commandPending,
+                      canControlDevice,
                     });
                     return;
                   }
@@ -905,7 +957,7 @@ export default function HomeScreen() {
                 disabled={false}
                 activeOpacity={0.7}
               >
-                {commandLoading === 'SHAKE_TEST' ? (
+                {commandState?.command === 'SHAKE_TEST' && commandState.status === 'pending' ? (
                   <ActivityIndicator size="large" color={COLORS.white} />
                 ) : (
                   <>
@@ -913,7 +965,7 @@ export default function HomeScreen() {
                       <Ionicons name="pulse" size={32} color={COLORS.primary} />
                     </View>
                     <Text style={styles.insightTitle}>Shake</Text>
-                    <Text style={styles.insightSubtitle}>Seismic Test</Text>
+                    <Text style={styles.insightSubtitle}>{canControlDevice ? getCommandSubtitle('SHAKE_TEST', 'Seismic Test') : 'View only'}</Text>
                   </>
                 )}
               </TouchableOpacity> */}
@@ -977,6 +1029,11 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     flex: 1,
   },
+  // Kept out of the flow so the title stays centered
+  connectionIndicator: {
+    position: 'absolute',
+    right: 24,
+  },
   avatarPlaceholder: {
     width: 48,
     height: 48,
@@ -1245,6 +1302,19 @@ const styles = StyleSheet.create({
     marginTop: 0,
     marginBottom: 24,
   },
+  energyLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 10,
+  },
+  energyLinkText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
   insightsSection: {
     marginBottom: 24,
   },
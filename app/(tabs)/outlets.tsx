@@ -1,18 +1,36 @@
-import { api, SensorReading, Socket } from '@/lib/api';
+import { api, ApiResponse, CacheOptions, DataFreshness, getDataFreshness, SensorReading, Socket } from '@/lib/api';
+import { ConnectionLostBanner } from '@/components/ConnectionLostBanner';
+import { ConnectionQualityIndicator } from '@/components/ConnectionQualityIndicator';
+import { DataFreshnessBanner } from '@/components/DataFreshnessBanner';
 import { 
   OutletData, 
   splitSensorDataByOutlet, 
   getWaterStatus, 
   getTempStatus, 
   getMovementStatus,
-  getOutletName 
+  getVoltageStatus,
+  getCurrentStatus,
+  getBreakerStatus,
+  getOutletPower,
 } from '@/lib/outlet-utils';
+import { mergeReadings, normalizeTelemetry } from '@/lib/telemetry';
 import { OutletChart } from '@/components/OutletChart';
-import { useWebSocket } from '@/hooks/useWebSocket';
+import { TelemetryMessage, useWebSocket } from '@/hooks/useWebSocket';
+import { useDeviceCommand } from '@/hooks/useDeviceCommand';
+import { useThresholdProfiles } from '@/hooks/useThresholdProfiles';
+import { thresholdService } from '@/services/thresholds';
+import { breakerStateStore } from '@/services/breaker-states';
+import { channelMapService } from '@/services/channel-maps';
+import { formatWaterSensors, getBreakerCommand, getOutletConfig, OutletChannelConfig } from '@/lib/channel-map';
+import { COMMAND_STATUS_LABELS, DeviceCommand } from '@/lib/device-commands';
+import { canControl, canManage, getRole } from '@/lib/roles';
+import { createLogger } from '@/services/logger';
 import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect, useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   Animated,
   Dimensions,
   LayoutChangeEvent,
@@ -30,6 +48,9 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 
 const { width } = Dimensions.get('window');
 
+const log = createLogger('app');
+const commandLog = createLogger('commands');
+
 const COLORS = {
   primary: '#FF8C42',
   primaryLight: '#FFA660',
@@ -49,124 +70,48 @@ interface SocketWithData {
   sensorReading: SensorReading | null;
 }
 
+// Build the data for the outlet a socket is bound to, using its device's channel map
+const getSocketOutletData = (socketId: string, reading: SensorReading): OutletData | null => {
+  const channelMap = channelMapService.getMap(reading.deviceId);
+  const outletNumber = channelMapService.getSocketOutlet(socketId, reading.deviceId);
+  return splitSensorDataByOutlet(reading, breakerStateStore.getStates(reading.deviceId), channelMap)
+    .find((outlet) => outlet.outletNumber === outletNumber) ?? null;
+};
+
+// Channel configuration of the outlet a socket is bound to (also known before any reading arrives)
+const getSocketOutletConfig = (socket: Socket): OutletChannelConfig => {
+  const deviceId = socket.devices?.[0]?.device_id;
+  const channelMap = channelMapService.getMap(deviceId);
+  return getOutletConfig(channelMap, channelMapService.getSocketOutlet(socket.id, deviceId)) ?? channelMap.outlets[0];
+};
+
 export default function OutletsScreen() {
+  const router = useRouter();
   const [currentPage, setCurrentPage] = useState(0);
   const [sockets, setSockets] = useState<Socket[]>([]);
-  const [userDevices, setUserDevices] = useState<any[]>([]);
   const [socketsWithData, setSocketsWithData] = useState<SocketWithData[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [expandedAccordions, setExpandedAccordions] = useState<{ [key: string]: boolean }>({});
   const [historicalReadings, setHistoricalReadings] = useState<SensorReading[]>([]);
   const [loadingHistory, setLoadingHistory] = useState(false);
-  const [commandLoading, setCommandLoading] = useState<string | null>(null);
+  const [freshness, setFreshness] = useState<DataFreshness>({ updatedAt: null, fromCache: false, offline: false });
   const horizontalScrollRef = useRef<ScrollView>(null);
-  // Telemetry handler will update socketsWithData in real-time
-  const transformTelemetryToReading = useCallback((telemetryData: {
-    deviceId: string;
-    messageType: string;
-    payload: any;
-    receivedAt: string;
-  }): SensorReading | null => {
-    if (telemetryData.messageType !== 'sensor_reading' && telemetryData.messageType !== 'power_status') return null;
-
-    const payload = telemetryData.payload ?? {};
-
-    // Normalize water array (boolean -> 0/1)
-    let waterArray: [number | null, number | null, number | null, number | null] = [null, null, null, null];
-    if (Array.isArray(payload.water)) {
-      waterArray = payload.water.map((w: any) => {
-        if (typeof w === 'boolean') return w ? 1 : 0;
-        if (typeof w === 'number') return w;
-        return null;
-      }) as [number | null, number | null, number | null, number | null];
-    }
-
-    // Power may be object or string; store JSON string when object
-    let powerValue: string | null = null;
-    if (payload.power !== undefined && payload.power !== null) {
-      // Normalize numbers and objects to JSON string, keep plain strings
-      if (typeof payload.power === 'object') {
-        try {
-          powerValue = JSON.stringify(payload.power);
-        } catch (e) {
-          powerValue = String(payload.power);
-        }
-      } else if (typeof payload.power === 'number') {
-        powerValue = String(payload.power);
-      } else {
-        powerValue = payload.power;
-      }
-    } else if (
-      payload.voltage1 !== undefined ||
-      payload.voltage2 !== undefined ||
-      payload.voltage !== undefined ||
-      payload.current1 !== undefined ||
-      payload.current2 !== undefined
-    ) {
-      powerValue = JSON.stringify({
-        voltage1: payload.voltage1,
-        voltage2: payload.voltage2,
-        voltage: payload.voltage,
-        current1: payload.current1,
-        current2: payload.current2,
-        current: payload.current,
-        v1_raw: payload.v1_raw ?? payload.voltage1_raw,
-        v2_raw: payload.v2_raw ?? payload.voltage2_raw,
-      });
-    } else if (payload.power_status !== undefined && payload.power_status !== null) {
-      powerValue = String(payload.power_status);
-    }
-
-    // Normalize temperature sensors to numeric values where possible
-    const parseTemp = (obj: any, keys: string[]) => {
-      for (const k of keys) {
-        const val = obj?.[k];
-        if (val !== undefined && val !== null && val !== '') {
-          const n = typeof val === 'number' ? val : Number(val);
-          if (!isNaN(n)) return n;
-        }
-      }
-      return null;
-    };
-
-    const temp1 = parseTemp(payload.temperature, ['temp1', 'temp_1', 't1', 'temperature1', 'temperature_1']);
-    const temp2 = parseTemp(payload.temperature, ['temp2', 'temp_2', 't2', 'temperature2', 'temperature_2']);
-
-    return {
-      id: `${telemetryData.deviceId}_${Date.now()}`,
-      deviceId: telemetryData.deviceId,
-      water: waterArray,
-      gas: payload.gas !== undefined ? Boolean(payload.gas) : false,
-      temperature: {
-        temp1: temp1,
-        temp2: temp2,
-      },
-      gyro: {
-        movement: payload.gyro?.movement ?? payload.movement ?? null,
-      },
-      power: powerValue,
-      receivedAt: telemetryData.receivedAt || new Date().toISOString(),
-    };
-  }, []);
-
-  const handleTelemetry = useCallback((telemetryData: { deviceId: string; messageType: string; payload: any; receivedAt: string }) => {
-    if (telemetryData.messageType !== 'sensor_reading' && telemetryData.messageType !== 'power_status') return;
-
-    const reading = transformTelemetryToReading(telemetryData);
-    if (!reading) return;
+  const { getProfile } = useThresholdProfiles();
 
+  // Show a live or backfilled reading on the sockets fed by its device
+  const applyReading = useCallback((reading: SensorReading) => {
     // Update socketsWithData entries that match the deviceId
     setSocketsWithData(prev => {
       let changed = false;
       const next = prev.map(entry => {
         const socketDevices = entry.socket?.devices ?? [];
         const matches = socketDevices.some((d: any) => (d.device_id === reading.deviceId) || (d.deviceId === reading.deviceId) || (d.id === reading.deviceId));
-        if (matches) {
-          const split = splitSensorDataByOutlet(reading, true, true);
-          const outletIndex = 0; // default to first outlet slice; if socket maps differently, adjust
-          const outletData = split?.[outletIndex] ?? null;
-          if (outletData) outletData.outletNumber = (outletIndex + 1) as 1 | 2;
+        // A backfilled reading can arrive after a newer live one
+        const isOlder = entry.sensorReading
+          && new Date(entry.sensorReading.receivedAt).getTime() > new Date(reading.receivedAt).getTime();
+        if (matches && !isOlder) {
+          const outletData = getSocketOutletData(entry.socket.id, reading);
           changed = true;
           return {
             ...entry,
@@ -178,29 +123,73 @@ export default function OutletsScreen() {
       });
       return changed ? next : prev;
     });
-  }, [transformTelemetryToReading]);
+  }, []);
 
-  const { sendCommand: wsSendCommand, isConnected: wsConnected } = useWebSocket({ onTelemetry: handleTelemetry });
+  // Telemetry handler will update socketsWithData in real-time
+  const handleTelemetry = useCallback((telemetryData: TelemetryMessage) => {
+    if (telemetryData.messageType !== 'sensor_reading' && telemetryData.messageType !== 'power_status') return;
 
-  const fetchSocketsAndData = useCallback(async () => {
+    const reading = normalizeTelemetry(telemetryData);
+    if (reading) applyReading(reading);
+  }, [applyReading]);
+
+  // Readings sent while the connection was down: the newest becomes the live value, all join the chart
+  const handleBackfill = useCallback((readings: SensorReading[]) => {
+    applyReading(readings[0]);
+    setHistoricalReadings(prev => {
+      const deviceId = prev[0]?.deviceId;
+      if (!deviceId) return prev;
+      return mergeReadings(prev, readings.filter(r => r.deviceId === deviceId), 50);
+    });
+  }, [applyReading]);
+
+  // Reflect breaker reports (telemetry and command acks) in the matching outlets
+  useEffect(() => {
+    return breakerStateStore.subscribe((deviceId, { states }) => {
+      setSocketsWithData(prev => prev.map(entry => {
+        if (!entry.outletData || entry.outletData.deviceId !== deviceId) return entry;
+        const { breaker } = entry.outletData.channels;
+        if (breaker === null) return entry;
+        return {
+          ...entry,
+          outletData: { ...entry.outletData, breakerState: states[breaker - 1] },
+        };
+      }));
+    });
+  }, []);
+
+  // Re-split the latest readings when a channel map or socket binding changes
+  useEffect(() => {
+    return channelMapService.onChange(() => {
+      setSocketsWithData(prev => prev.map(entry => (
+        entry.sensorReading
+          ? { ...entry, outletData: getSocketOutletData(entry.socket.id, entry.sensorReading) }
+          : entry
+      )));
+    });
+  }, []);
+
+  const { commandState, isPending: commandPending, runCommand } = useDeviceCommand();
+  const { isConnected: wsConnected } = useWebSocket({
+    onTelemetry: handleTelemetry,
+    onBackfill: handleBackfill,
+    messageTypes: ['sensor_reading', 'power_status'],
+  });
+
+  const fetchSocketsAndData = useCallback(async (options?: CacheOptions) => {
     try {
       // Fetch sockets from database
-      const socketsResponse = await api.getSockets();
+      const socketsResponse = await api.getSockets(options);
+      // Nothing saved yet: keep the spinner until the server answers
+      if (options?.fromCache && !socketsResponse.data) return;
+      const responses: ApiResponse<unknown>[] = [socketsResponse];
+
       if (socketsResponse.data?.sockets) {
-        // Log raw sockets for diagnostics when devices are missing
-        console.log('Fetched sockets from API:', socketsResponse.data.sockets);
+        log.debug(`Fetched ${socketsResponse.data.sockets.length} sockets`);
         // Fetch user's paired devices as a fallback if sockets have no associated devices
-        const devicesResponse = await api.getDevices();
+        const devicesResponse = await api.getDevices(options);
+        responses.push(devicesResponse);
         const pairedDevices: any[] = devicesResponse.data?.devices ?? [];
-        if (pairedDevices.length > 0) {
-          console.log('Fetched user devices for fallback:', pairedDevices);
-        }
-        setUserDevices(pairedDevices.map(d => ({
-          id: d.id ?? d.deviceId,
-          device_id: d.deviceId ?? d.device_id ?? d.id,
-          deviceId: d.deviceId ?? d.device_id ?? d.id,
-          name: d.name,
-        })));
 
         // Normalize device objects to include both device_id and deviceId for compatibility
         const normalizedSockets = socketsResponse.data.sockets.map((s: any) => {
@@ -214,7 +203,7 @@ export default function OutletsScreen() {
           // If no devices on the socket, fall back to the first paired device for the user
           if ((!devices || devices.length === 0) && pairedDevices.length > 0) {
             const fallback = pairedDevices[0];
-            console.log(`Using fallback device ${fallback.deviceId || fallback.device_id} for socket ${s.id}`);
+            log.info(`Using fallback device ${fallback.deviceId || fallback.device_id} for socket ${s.id}`);
             devices = [{
               id: fallback.id ?? fallback.deviceId ?? fallback.device_id,
               device_id: fallback.deviceId ?? fallback.device_id ?? fallback.id,
@@ -231,7 +220,7 @@ export default function OutletsScreen() {
         // For each socket, get sensor data from associated devices
         const socketsData: SocketWithData[] = [];
 
-        // Use an indexed loop so we can map split outlet data to the correct socket index
+        await channelMapService.load();
         const socketList = normalizedSockets;
         for (let i = 0; i < socketList.length; i++) {
           const socket = socketList[i];
@@ -241,23 +230,20 @@ export default function OutletsScreen() {
           if (socket.devices && socket.devices.length > 0) {
             // Get latest reading from the first device (or you could aggregate from all devices)
             const deviceId = socket.devices[0]?.device_id;
+
+            // Sockets created before channel maps were bound by pager position; keep that outlet once
+            if (deviceId && !channelMapService.isSocketBound(socket.id)) {
+              const legacyOutlet = i < channelMapService.getMap(deviceId).outlets.length ? i + 1 : 1;
+              await channelMapService.bindSocket(socket.id, legacyOutlet);
+            }
+
             if (deviceId) {
-              console.log(`Outlets: fetching latest reading for deviceId=${deviceId}`);
-              const readingResponse = await api.getLatestSensorReading(deviceId);
-              console.log('Outlets: latest reading response', { deviceId, readingResponse });
+              const readingResponse = await api.getLatestSensorReading(deviceId, options);
+              responses.push(readingResponse);
               if (readingResponse.data?.reading) {
                 latestReading = readingResponse.data.reading;
-                // Split data by outlet (assuming breakers are both ON by default)
-                const splitData = splitSensorDataByOutlet(latestReading, true, true);
-                if (splitData && splitData.length > 0) {
-                  // Map the socket index to the appropriate outlet slice. If there are fewer
-                  // outlet entries than sockets, fall back to the first outlet slice.
-                  const outletIndex = i < splitData.length ? i : 0;
-                  outletData = splitData[outletIndex];
-                  if (outletData) {
-                    outletData.outletNumber = (outletIndex + 1) as 1 | 2;
-                  }
-                }
+                // Data for the outlet this socket is bound to (breakers stay unknown until reported)
+                outletData = getSocketOutletData(socket.id, latestReading);
               }
             }
           }
@@ -270,14 +256,18 @@ export default function OutletsScreen() {
         }
         
         setSocketsWithData(socketsData);
+        // A deleted socket may have been the last page
+        setCurrentPage(page => Math.min(page, Math.max(0, socketsData.length - 1)));
       } else {
         setSockets([]);
         setSocketsWithData([]);
       }
+      setFreshness(getDataFreshness(responses));
+      setLoading(false);
     } catch (error) {
-      console.error('Error fetching sockets and sensor data:', error);
+      log.error('Error fetching sockets and sensor data', error);
+      if (!options?.fromCache) setLoading(false);
     } finally {
-      setLoading(false);
       setRefreshing(false);
     }
   }, []);
@@ -298,26 +288,24 @@ export default function OutletsScreen() {
       currentSocket.socket?.devices?.[0]?.deviceId;
 
     if (!candidateDeviceId) {
-      console.log('No deviceId available for historical data for socket', currentSocket.socket?.id);
+      log.debug(`No deviceId available for historical data for socket ${currentSocket.socket?.id}`);
       setHistoricalReadings([]);
       return;
     }
 
     setLoadingHistory(true);
     try {
-      console.log('Outlets: fetching historical readings for deviceId=', candidateDeviceId);
       const response = await api.getSensorReadings({ 
         limit: 50,
         deviceId: candidateDeviceId,
       });
-      console.log('Outlets: historical readings response', { deviceId: candidateDeviceId, response });
       if (response.data?.readings) {
         setHistoricalReadings(response.data.readings);
       } else {
         setHistoricalReadings([]);
       }
     } catch (error) {
-      console.error('Error fetching historical data:', error);
+      log.error('Error fetching historical data', error);
       setHistoricalReadings([]);
     } finally {
       setLoadingHistory(false);
@@ -325,9 +313,10 @@ export default function OutletsScreen() {
   }, [socketsWithData, currentPage]);
 
   useEffect(() => {
-    fetchSocketsAndData();
+    // Render the saved copy right away, then revalidate against the server
+    fetchSocketsAndData({ fromCache: true }).then(() => fetchSocketsAndData());
     // Refresh every 30 seconds
-    const interval = setInterval(fetchSocketsAndData, 30000);
+    const interval = setInterval(() => fetchSocketsAndData(), 30000);
     return () => clearInterval(interval);
   }, [fetchSocketsAndData]);
 
@@ -337,16 +326,39 @@ export default function OutletsScreen() {
     }
   }, [socketsWithData, currentPage, fetchHistoricalData]);
 
+  // Pull each socket's threshold profile from the backend when the socket list changes
+  const socketIdsKey = sockets.map((s) => s.id).join(',');
+  useEffect(() => {
+    if (!socketIdsKey) return;
+    socketIdsKey.split(',').forEach((socketId) => {
+      thresholdService.syncFromBackend(socketId).catch((error) => {
+        log.error(`Error syncing thresholds for socket ${socketId}`, error);
+      });
+    });
+  }, [socketIdsKey]);
+
+  // Pick up edits and deletions made on the edit-socket screen
+  const hasFocusedRef = useRef(false);
+  useFocusEffect(
+    useCallback(() => {
+      if (!hasFocusedRef.current) {
+        hasFocusedRef.current = true;
+        return;
+      }
+      fetchSocketsAndData();
+    }, [fetchSocketsAndData])
+  );
+
   const onRefresh = useCallback(() => {
     setRefreshing(true);
     fetchSocketsAndData();
   }, [fetchSocketsAndData]);
 
-  const sendCommand = useCallback(async (command: string) => {
+  const sendCommand = useCallback(async (command: DeviceCommand) => {
     const currentSocket = socketsWithData[currentPage];
 
     if (!currentSocket) {
-      console.log('❌ No current socket at index', currentPage);
+      commandLog.warn(`No current socket at index ${currentPage}`);
       return;
     }
 
@@ -360,36 +372,23 @@ export default function OutletsScreen() {
     const deviceId = deviceFromOutlet || deviceFromSocketDevices || deviceFromReading;
 
     if (!deviceId) {
-      console.log('❌ No device ID available for socket', currentSocket.socket?.id, currentSocket);
+      commandLog.warn(`No device ID available for socket ${currentSocket.socket?.id}`);
       return;
     }
 
     if (!wsConnected) {
-      console.log('❌ WebSocket not connected');
+      commandLog.warn(`${command} not sent: WebSocket not connected`);
       return;
     }
 
-    console.log(`🔘 Sending command: ${command} to device: ${deviceId}`, { socketId: currentSocket.socket.id });
-    setCommandLoading(command);
+    commandLog.info(`${command} requested for socket ${currentSocket.socket.id}`);
 
-    try {
-      // Await in case wsSendCommand returns a promise; works for both sync/async implementations
-      const success = await wsSendCommand(deviceId, command);
-      if (success) {
-        console.log(`✅ Command sent: ${command} to device: ${deviceId}`);
-        // Refresh data after a short delay to get updated breaker state
-        setTimeout(() => {
-          fetchSocketsAndData();
-        }, 1000);
-      } else {
-        console.error(`❌ Failed to send command: ${command}`);
-      }
-    } catch (error) {
-      console.error('Error sending command:', error);
-    } finally {
-      setCommandLoading(null);
+    const result = await runCommand(deviceId, command);
+    if (result) {
+      // Breaker state changed on the device - pull the confirmed state
+      fetchSocketsAndData();
     }
-  }, [socketsWithData, currentPage, wsSendCommand, wsConnected, fetchSocketsAndData]);
+  }, [socketsWithData, currentPage, runCommand, wsConnected, fetchSocketsAndData]);
 
   const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
     const offsetX = event.nativeEvent.contentOffset.x;
@@ -430,6 +429,17 @@ export default function OutletsScreen() {
     return 'N/A';
   };
 
+  // An outlet counts as wet when any of its water sensors is
+  const getZoneWaterValue = (values: (number | null)[]): number | null => {
+    if (values.some((v) => v === 1)) return 1;
+    return values.some((v) => v !== null) ? 0 : null;
+  };
+
+  const formatBreakerState = (state: boolean | null): string => {
+    if (state === null) return 'Unknown';
+    return state ? 'ON' : 'OFF';
+  };
+
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleString([], {
@@ -440,53 +450,6 @@ export default function OutletsScreen() {
     });
   };
 
-  // Parse voltage value from the power payload (power may be a JSON string or a simple string)
-  const extractVoltageFromPower = (power?: string | null, outletNumber?: 1 | 2): number | null => {
-    if (power === undefined || power === null) return null;
-
-    // Try to parse numeric string
-    const tryNumber = (p: any) => {
-      if (typeof p === 'number') return p;
-      if (typeof p === 'string') {
-        const n = Number(p);
-        if (!isNaN(n)) return n;
-      }
-      return null;
-    };
-
-    try {
-      // If power is a JSON string, parse it
-      const parsed = typeof power === 'string' ? (() => {
-        try { return JSON.parse(power); } catch { return power; }
-      })() : power;
-
-      // If parsed is an object, look for common voltage fields
-      if (parsed && typeof parsed === 'object') {
-        const outletVoltage = outletNumber === 1
-          ? tryNumber(parsed.voltage1 ?? parsed.v1)
-          : outletNumber === 2
-            ? tryNumber(parsed.voltage2 ?? parsed.v2)
-            : null;
-
-        if (outletVoltage !== null) return outletVoltage;
-
-        const candidates = [parsed.voltage1, parsed.voltage2, parsed.voltage, parsed.v, parsed.v1, parsed.v2];
-        const nums = candidates.map(tryNumber).filter(n => n !== null) as number[];
-        if (nums.length === 0) return null;
-        const avg = nums.reduce((a, b) => a + b, 0) / nums.length;
-        return avg;
-      }
-
-      // If parsed is a numeric or numeric string
-      const direct = tryNumber(parsed);
-      if (direct !== null) return direct;
-    } catch (e) {
-      // ignore
-    }
-
-    return null;
-  };
-
   const renderOutletIllustration = (socketWithData: SocketWithData, index: number) => {
     // Different colors for different sockets (darker for later sockets)
     const isEven = index % 2 === 1;
@@ -497,6 +460,25 @@ export default function OutletsScreen() {
     return (
       <View key={socketWithData.socket.id} style={styles.outletCardContainer}>
         <View style={styles.outletCard}>
+          <View style={styles.socketActions}>
+            <TouchableOpacity
+              style={styles.socketActionButton}
+              onPress={() => router.push({ pathname: '/socket-members' as any, params: { socketId: socketWithData.socket.id, socketName: socketWithData.socket.name } })}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="people-outline" size={22} color={COLORS.textLight} />
+            </TouchableOpacity>
+            {/* Only the owner can change a shared socket's setup */}
+            {canManage(getRole(socketWithData.socket)) && (
+              <TouchableOpacity
+                style={styles.socketActionButton}
+                onPress={() => router.push({ pathname: '/edit-socket' as any, params: { socketId: socketWithData.socket.id } })}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="create-outline" size={22} color={COLORS.textLight} />
+              </TouchableOpacity>
+            )}
+          </View>
           <Text style={styles.outletTitle}>
             {socketWithData.socket.name}
           </Text>
@@ -529,24 +511,30 @@ export default function OutletsScreen() {
     const isExpanded = expandedAccordions[socketWithData.socket.id] || false;
     
     // Get default values when outletData is null
-    const outletNumber = outlet?.outletNumber || 1;
+    const outletConfig = outlet?.channels ?? getSocketOutletConfig(socketWithData.socket);
+    const outletNumber = outletConfig.outletNumber;
+    const outletPower = outlet ? getOutletPower(outlet) : null;
     const deviceId = outlet?.deviceId || (socketWithData.socket.devices && socketWithData.socket.devices.length > 0 
       ? socketWithData.socket.devices[0].device_id  // ✅ FIX: Use device_id instead of deviceId
       : '');
     
-    // Get status values or defaults
+    // Get status values or defaults (limits come from this socket's threshold profile)
+    const thresholds = getProfile(socketWithData.socket.id);
     const waterStatus = outlet ? getWaterStatus(outlet.waterSensors) : { status: 'N/A', color: '#666666' };
-    const tempStatus = outlet ? getTempStatus(outlet.temperature) : { status: 'N/A', color: '#666666' };
-    const movementStatus = outlet ? getMovementStatus(outlet.movement) : { status: 'N/A', color: '#666666' };
+    const tempStatus = outlet ? getTempStatus(outlet.temperature, thresholds.temperature) : { status: 'N/A', color: '#666666' };
+    const movementStatus = outlet ? getMovementStatus(outlet.movement, thresholds.movement) : { status: 'N/A', color: '#666666' };
+    const breakerStatus = getBreakerStatus(outlet?.breakerState ?? null);
 
     return (
       <>
         {/* Analytics Chart - Always shown, even when no sensor data */}
         <OutletChart
           outletNumber={outletNumber}
+          channels={outletConfig}
           deviceId={deviceId}
           readings={outlet ? historicalReadings : []}
           loading={loadingHistory}
+          thresholds={thresholds}
         />
 
         <View style={styles.statusCard}>
@@ -562,10 +550,10 @@ export default function OutletsScreen() {
                   <Ionicons name="water" size={20} color="#2196F3" />
                 </View>
                 <View style={styles.sensorInfo}>
-                  <Text style={styles.sensorLabel}>Water Detection - Zone {outletNumber}</Text>
+                  <Text style={styles.sensorLabel}>Water Detection - {outletConfig.name}</Text>
                   {!isExpanded && (
                     <Text style={styles.sensorValue}>
-                      {outlet ? formatWaterValue(outlet.waterSensors[0]) : 'Dry'}
+                      {outlet ? formatWaterValue(getZoneWaterValue(outlet.waterSensors)) : 'Dry'}
                     </Text>
                   )}
                 </View>
@@ -587,15 +575,15 @@ export default function OutletsScreen() {
             {isExpanded && (
               <View style={styles.accordionContent}>
                 <View style={styles.subSensorRow}>
-                  <Text style={styles.subSensorLabel}>Zone {outletNumber} Status:</Text>
+                  <Text style={styles.subSensorLabel}>{outletConfig.name} Status:</Text>
                   <Text style={styles.subSensorValue}>
-                    {outlet ? formatWaterValue(outlet.waterSensors[0]) : 'Dry'}
+                    {outlet ? formatWaterValue(getZoneWaterValue(outlet.waterSensors)) : 'Dry'}
                   </Text>
                 </View>
                 <View style={styles.subSensorRow}>
                   <Text style={styles.subSensorLabel}>Sensors:</Text>
                   <Text style={styles.subSensorValue}>
-                    {outletNumber === 1 ? '1 & 2' : '3 & 4'}
+                    {formatWaterSensors(outletConfig)}
                   </Text>
                 </View>
               </View>
@@ -628,14 +616,16 @@ export default function OutletsScreen() {
                   <Ionicons name="flash" size={20} color="#FFC107" />
                 </View>
                 <View style={styles.sensorInfo}>
-                  <Text style={styles.sensorLabel}>Breaker {outletNumber}</Text>
+                  <Text style={styles.sensorLabel}>
+                    {outletConfig.breaker !== null ? `Breaker ${outletConfig.breaker}` : 'Breaker'}
+                  </Text>
                   <Text style={styles.sensorValue}>
-                    {outlet ? (outlet.breakerState ? 'ON' : 'OFF') : 'ON'}
+                    {formatBreakerState(outlet?.breakerState ?? null)}
                   </Text>
                 </View>
-                <View style={[styles.statusBadge, { backgroundColor: (outlet?.breakerState ?? true) ? COLORS.success + '20' : COLORS.danger + '20' }]}>
-                  <Text style={[styles.statusBadgeText, { color: (outlet?.breakerState ?? true) ? COLORS.success : COLORS.danger }]}>
-                    {(outlet?.breakerState ?? true) ? 'Active' : 'Tripped'}
+                <View style={[styles.statusBadge, { backgroundColor: breakerStatus.color + '20' }]}>
+                  <Text style={[styles.statusBadgeText, { color: breakerStatus.color }]}>
+                    {breakerStatus.status}
                   </Text>
                 </View>
               </View>
@@ -698,7 +688,7 @@ export default function OutletsScreen() {
                   <View style={styles.sensorInfo}>
                     <Text style={styles.sensorLabel}>Voltage</Text>
                       {(() => {
-                        const voltage = extractVoltageFromPower(outlet.power, outletNumber);
+                        const voltage = outletPower?.voltage ?? null;
                         const isRecent = outlet.receivedAt ? (Date.now() - new Date(outlet.receivedAt).getTime()) <= 10000 : false;
                         return (
                           <Text style={styles.sensorValue}>
@@ -708,13 +698,13 @@ export default function OutletsScreen() {
                       })()}
                   </View>
                   {(() => {
-                    const voltage = extractVoltageFromPower(outlet.power, outletNumber);
+                    const voltage = outletPower?.voltage ?? null;
                     const isRecent = outlet.receivedAt ? (Date.now() - new Date(outlet.receivedAt).getTime()) <= 10000 : false;
-                    const hasVoltage = isRecent && voltage !== null && voltage > 0;
+                    const voltageStatus = getVoltageStatus(isRecent ? voltage : null, thresholds.voltage);
                     return (
-                      <View style={[styles.statusBadge, { backgroundColor: hasVoltage ? COLORS.success + '20' : COLORS.warning + '20' }]}>
-                        <Text style={[styles.statusBadgeText, { color: hasVoltage ? COLORS.success : COLORS.warning }]}>
-                          {hasVoltage ? 'OK' : 'No Voltage'}
+                      <View style={[styles.statusBadge, { backgroundColor: voltageStatus.color + '20' }]}>
+                        <Text style={[styles.statusBadgeText, { color: voltageStatus.color }]}>
+                          {voltageStatus.status}
                         </Text>
                       </View>
                     );
@@ -723,6 +713,32 @@ export default function OutletsScreen() {
               </View>
             )}
 
+            {/* Current (derived from power payload) */}
+            {outlet && (() => {
+              const current = outletPower?.current ?? null;
+              const currentStatus = getCurrentStatus(current, thresholds.current);
+              return (
+                <View style={styles.sensorRow}>
+                  <View style={styles.sensorItem}>
+                    <View style={[styles.sensorIconBg, { backgroundColor: '#2196F320' }]}>
+                      <Ionicons name="speedometer" size={20} color="#2196F3" />
+                    </View>
+                    <View style={styles.sensorInfo}>
+                      <Text style={styles.sensorLabel}>Current</Text>
+                      <Text style={styles.sensorValue}>
+                        {current !== null ? `${current.toFixed(2)}A` : 'N/A'}
+                      </Text>
+                    </View>
+                    <View style={[styles.statusBadge, { backgroundColor: currentStatus.color + '20' }]}>
+                      <Text style={[styles.statusBadgeText, { color: currentStatus.color }]}>
+                        {currentStatus.status}
+                      </Text>
+                    </View>
+                  </View>
+                </View>
+              );
+            })()}
+
             {/* Last Updated */}
             {outlet && (
               <View style={styles.lastUpdated}>
@@ -747,13 +763,19 @@ export default function OutletsScreen() {
     );
   };
 
+  // Viewers on a shared socket see telemetry but can't operate its breakers
+  const currentCanControl = canControl(getRole(socketsWithData[currentPage]?.socket));
+
   return (
     <View style={styles.container}>
       <SafeAreaView style={styles.safeArea} edges={['top']}>
         {/* Header */}
         <View style={styles.header}>
           <Text style={styles.headerTitle}>Outlets</Text>
+          <ConnectionQualityIndicator />
         </View>
+        <DataFreshnessBanner freshness={freshness} />
+        <ConnectionLostBanner />
 
         {loading ? (
           <View style={styles.loadingContainer}>
@@ -835,36 +857,46 @@ export default function OutletsScreen() {
                     <TouchableOpacity
                       style={[
                         styles.insightCard,
-                        (socketsWithData[currentPage].outletData?.outletNumber || 1) === 1 ? styles.outlet1Card : styles.outlet2Card,
-                        (!wsConnected || commandLoading !== null) && styles.powerButtonDisabled,
+                        getSocketOutletConfig(socketsWithData[currentPage].socket).outletNumber % 2 === 1 ? styles.outlet1Card : styles.outlet2Card,
+                        (!wsConnected || commandPending || !currentCanControl) && styles.powerButtonDisabled,
                       ]}
                       onPress={() => {
                         const currentSocket = socketsWithData[currentPage];
-                        const outletNumber = currentSocket.outletData?.outletNumber || 1;
-                        const breakerState = currentSocket.outletData?.breakerState ?? true; // Default to ON if unknown
-
-                        // Map the FIRST socket to breaker 1 and SECOND socket to breaker 2
-                        // If this is a different socket, fall back to outletNumber if present
-                        const socketIndex = currentPage;
-                        let breakerIndex = outletNumber;
-                        if (socketIndex === 0) breakerIndex = 1;
-                        else if (socketIndex === 1) breakerIndex = 2;
-
-                        const command = breakerState
-                          ? (breakerIndex === 1 ? 'BREAKER1_OFF' : 'BREAKER2_OFF')
-                          : (breakerIndex === 1 ? 'BREAKER1_ON' : 'BREAKER2_ON');
-
-                        console.log(`🔘 Power button pressed for socketIndex=${socketIndex} -> breaker ${breakerIndex}, outlet ${outletNumber}, current state: ${breakerState ? 'ON' : 'OFF'}, sending: ${command}`);
+                        const outletConfig = currentSocket.outletData?.channels ?? getSocketOutletConfig(currentSocket.socket);
+                        const breakerState = currentSocket.outletData?.breakerState ?? null;
+                        const onCommand = getBreakerCommand(outletConfig, true);
+                        const offCommand = getBreakerCommand(outletConfig, false);
+
+                        if (!onCommand || !offCommand) {
+                          Alert.alert('No Breaker', `${outletConfig.name} isn't wired to a breaker on this device.`);
+                          return;
+                        }
+
+                        // Never guess: ask which way to switch until the device has reported its state
+                        if (breakerState === null) {
+                          Alert.alert(
+                            'Breaker State Unknown',
+                            `The device hasn't reported breaker ${outletConfig.breaker} yet. What do you want to do?`,
+                            [
+                              { text: 'Cancel', style: 'cancel' },
+                              { text: 'Turn Off', style: 'destructive', onPress: () => sendCommand(offCommand) },
+                              { text: 'Turn On', onPress: () => sendCommand(onCommand) },
+                            ]
+                          );
+                          return;
+                        }
+
+                        const command = breakerState ? offCommand : onCommand;
+                        commandLog.debug(`Power pressed for ${outletConfig.name} (breaker ${outletConfig.breaker}, ${formatBreakerState(breakerState)})`);
                         sendCommand(command);
                       }}
-                      disabled={!wsConnected || commandLoading !== null}
+                      disabled={!wsConnected || commandPending || !currentCanControl}
                       activeOpacity={0.7}
                     >
-                      {(commandLoading === 'BREAKER1_ON' || commandLoading === 'BREAKER1_OFF' || 
-                        commandLoading === 'BREAKER2_ON' || commandLoading === 'BREAKER2_OFF') ? (
+                      {commandPending ? (
                         <ActivityIndicator 
                           size="large" 
-                          color={(socketsWithData[currentPage].outletData?.outletNumber || 1) === 1 ? '#2196F3' : '#9C27B0'} 
+                          color={getSocketOutletConfig(socketsWithData[currentPage].socket).outletNumber % 2 === 1 ? '#2196F3' : '#9C27B0'} 
                         />
                       ) : (
                         <>
@@ -872,15 +904,27 @@ export default function OutletsScreen() {
                             <Ionicons
                               name="power"
                               size={32}
-                              color={(socketsWithData[currentPage].outletData?.outletNumber || 1) === 1 ? '#2196F3' : '#9C27B0'}
+                              color={getSocketOutletConfig(socketsWithData[currentPage].socket).outletNumber % 2 === 1 ? '#2196F3' : '#9C27B0'}
                             />
                           </View>
                           <Text style={styles.insightTitle}>Power</Text>
                           <Text style={styles.insightSubtitle}>
-                            {socketsWithData[currentPage].outletData 
-                              ? `Outlet ${socketsWithData[currentPage].outletData.outletNumber} ${socketsWithData[currentPage].outletData.breakerState ? 'ON' : 'OFF'}`
+                            {!currentCanControl
+                              ? 'View only'
+                              : socketsWithData[currentPage].outletData 
+                              ? `${socketsWithData[currentPage].outletData.name} ${formatBreakerState(socketsWithData[currentPage].outletData.breakerState)}`
                               : 'Socket Control'}
                           </Text>
+                          {commandState && commandState.status !== 'pending' && (
+                            <Text
+                              style={[
+                                styles.commandStatusText,
+                                { color: commandState.status === 'confirmed' ? COLORS.success : COLORS.danger },
+                              ]}
+                            >
+                              {COMMAND_STATUS_LABELS[commandState.status]}
+                            </Text>
+                          )}
                         </>
                       )}
                     </TouchableOpacity>
@@ -904,6 +948,9 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     paddingHorizontal: 24,
     paddingVertical: 16,
     backgroundColor: COLORS.primary,
@@ -980,6 +1027,18 @@ const styles = StyleSheet.create({
       },
     }),
   },
+  socketActions: {
+    position: 'absolute',
+    top: 16,
+    right: 16,
+    flexDirection: 'row',
+  },
+  socketActionButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   outletTitle: {
     fontSize: 18,
     fontWeight: '700',
@@ -1284,6 +1343,11 @@ const styles = StyleSheet.create({
   powerButtonDisabled: {
     opacity: 0.5,
   },
+  commandStatusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 4,
+  },
   sensorNoteContainer: {
     marginTop: 12,
     paddingHorizontal: 16,
@@ -1,8 +1,11 @@
 import { useAuth } from '@/contexts/auth-context';
-import { api, Device } from '@/lib/api';
+import { PendingChangesNotice } from '@/components/PendingChangesNotice';
+import { api, Device, Socket } from '@/lib/api';
+import { applyPendingToDevices } from '@/lib/outbox';
+import { outboxService } from '@/services/outbox';
 import { Ionicons } from '@expo/vector-icons';
-import { useRouter } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import { useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
@@ -15,6 +18,9 @@ import {
     View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('app');
 
 const COLORS = {
   primary: '#FF8C42',
@@ -27,6 +33,9 @@ const COLORS = {
   success: '#4CAF50',
 };
 
+const DIAGNOSTICS_TAP_COUNT = 5;
+const DIAGNOSTICS_TAP_WINDOW_MS = 3000;
+
 export default function SettingsScreen() {
   const router = useRouter();
   const { user, signOut, updateProfile, changePassword } = useAuth();
@@ -50,6 +59,9 @@ export default function SettingsScreen() {
   const [devicesLoading, setDevicesLoading] = useState(true);
   const [unpairingDeviceId, setUnpairingDeviceId] = useState<string | null>(null);
 
+  // Sockets (for per-socket hazard thresholds)
+  const [sockets, setSockets] = useState<Socket[]>([]);
+
   // Update editFullName when user changes
   React.useEffect(() => {
     if (user?.fullName) {
@@ -57,20 +69,45 @@ export default function SettingsScreen() {
     }
   }, [user?.fullName]);
 
-  // Fetch devices on mount
+  // Fetch devices and sockets on mount
   useEffect(() => {
     fetchDevices();
+    fetchSockets();
   }, []);
 
+  // Pick up renames made on the device detail screen
+  const hasFocusedRef = useRef(false);
+  useFocusEffect(
+    useCallback(() => {
+      if (!hasFocusedRef.current) {
+        hasFocusedRef.current = true;
+        return;
+      }
+      fetchDevices();
+    }, [])
+  );
+
+  const fetchSockets = async () => {
+    try {
+      const response = await api.getSockets();
+      if (response.data?.sockets) {
+        setSockets(response.data.sockets);
+      }
+    } catch (error) {
+      log.error('Error fetching sockets', error);
+    }
+  };
+
   const fetchDevices = async () => {
     setDevicesLoading(true);
     try {
       const response = await api.getDevices();
       if (response.data?.devices) {
-        setDevices(response.data.devices);
+        await outboxService.load();
+        setDevices(applyPendingToDevices(response.data.devices, outboxService.getEntries()));
       }
     } catch (error) {
-      console.error('Error fetching devices:', error);
+      log.error('Error fetching devices', error);
     } finally {
       setDevicesLoading(false);
     }
@@ -94,10 +131,14 @@ export default function SettingsScreen() {
   const performUnpair = async (deviceId: string) => {
     setUnpairingDeviceId(deviceId);
     try {
-      const response = await api.unpairDevice(deviceId);
+      // Queued while offline; the outbox replays it when the server is reachable
+      const result = await outboxService.submit({ type: 'unpairDevice', params: { deviceId } });
       
-      if (response.error) {
-        Alert.alert('Error', response.message || 'Failed to unpair device');
+      if (result.status === 'error') {
+        Alert.alert('Error', result.message || 'Failed to unpair device');
+      } else if (result.status === 'queued') {
+        setDevices(prev => prev.filter(d => d.deviceId !== deviceId));
+        Alert.alert('Saved Offline', 'The device will be unpaired when the server is reachable.');
       } else {
         Alert.alert('Success', 'Device unpaired successfully');
         // Refresh device list
@@ -175,6 +216,17 @@ export default function SettingsScreen() {
     }
   };
 
+  // Hidden entry to the diagnostics screen for support: five quick taps on the avatar
+  const avatarTapsRef = useRef<number[]>([]);
+  const handleAvatarTap = () => {
+    const now = Date.now();
+    avatarTapsRef.current = [...avatarTapsRef.current.filter((t) => now - t < DIAGNOSTICS_TAP_WINDOW_MS), now];
+    if (avatarTapsRef.current.length >= DIAGNOSTICS_TAP_COUNT) {
+      avatarTapsRef.current = [];
+      router.push('/diagnostics' as any);
+    }
+  };
+
   const handleLogout = () => {
     Alert.alert(
       'Logout',
@@ -204,13 +256,14 @@ export default function SettingsScreen() {
         >
           {/* Header with Avatar */}
           <View style={styles.header}>
-            <View style={styles.avatarContainer}>
+            <TouchableOpacity style={styles.avatarContainer} onPress={handleAvatarTap} activeOpacity={1}>
               <View style={styles.avatar}>
                 <Ionicons name="person" size={32} color={COLORS.primary} />
               </View>
-            </View>
+            </TouchableOpacity>
             <Text style={styles.headerTitle}>Hi, {user?.fullName || user?.email?.split('@')[0] || 'User'}!</Text>
           </View>
+          <PendingChangesNotice style={styles.pendingNotice} />
 
           {/* User Information Section */}
           <View style={styles.section}>
@@ -322,7 +375,11 @@ export default function SettingsScreen() {
               <View style={styles.devicesList}>
                 {devices.map((device) => (
                   <View key={device.id} style={styles.deviceCard}>
-                    <View style={styles.deviceHeader}>
+                    <TouchableOpacity
+                      style={styles.deviceHeader}
+                      onPress={() => router.push({ pathname: '/device-detail' as any, params: { deviceId: device.deviceId } })}
+                      activeOpacity={0.7}
+                    >
                       <View style={styles.deviceIconContainer}>
                         <Ionicons name="hardware-chip" size={24} color={COLORS.primary} />
                       </View>
@@ -331,6 +388,11 @@ export default function SettingsScreen() {
                           {device.name || `Device ${device.deviceId.slice(-4)}`}
                         </Text>
                         <Text style={styles.deviceId}>ID: {device.deviceId}</Text>
+                        {(device.model || device.firmwareVersion) && (
+                          <Text style={styles.deviceId}>
+                            {[device.model, device.firmwareVersion && `FW ${device.firmwareVersion}`].filter(Boolean).join(' · ')}
+                          </Text>
+                        )}
                         <Text style={styles.deviceDate}>
                           Paired: {formatDate(device.pairedAt)}
                         </Text>
@@ -351,7 +413,16 @@ export default function SettingsScreen() {
                           </Text>
                         </View>
                       </View>
-                    </View>
+                      <Ionicons name="chevron-forward" size={20} color={COLORS.textGray} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.channelsButton}
+                      onPress={() => router.push({ pathname: '/channel-map' as any, params: { deviceId: device.deviceId, deviceName: device.name || `Device ${device.deviceId.slice(-4)}` } })}
+                      activeOpacity={0.7}
+                    >
+                      <Ionicons name="git-branch-outline" size={20} color={COLORS.primary} />
+                      <Text style={styles.channelsButtonText}>Channels</Text>
+                    </TouchableOpacity>
                     <TouchableOpacity
                       style={[
                         styles.unpairButton,
@@ -376,6 +447,29 @@ export default function SettingsScreen() {
             )}
           </View>
 
+          {/* Hazard Thresholds Section */}
+          {sockets.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Hazard Thresholds</Text>
+              <View style={styles.infoCard}>
+                {sockets.map((socket, index) => (
+                  <React.Fragment key={socket.id}>
+                    {index > 0 && <View style={styles.divider} />}
+                    <TouchableOpacity
+                      style={styles.infoItem}
+                      onPress={() => router.push({ pathname: '/socket-thresholds' as any, params: { socketId: socket.id, socketName: socket.name } })}
+                      activeOpacity={0.7}
+                    >
+                      <Ionicons name="options-outline" size={20} color={COLORS.primary} />
+                      <Text style={[styles.infoText, styles.thresholdSocketName]}>{socket.name}</Text>
+                      <Ionicons name="chevron-forward" size={20} color={COLORS.textGray} />
+                    </TouchableOpacity>
+                  </React.Fragment>
+                ))}
+              </View>
+            </View>
+          )}
+
           {/* Reset Password Section */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Reset Password</Text>
@@ -512,6 +606,11 @@ const styles = StyleSheet.create({
     paddingHorizontal: 24,
     paddingBottom: 120,
   },
+  pendingNotice: {
+    marginHorizontal: 0,
+    marginTop: 0,
+    marginBottom: 16,
+  },
   header: {
     alignItems: 'center',
     paddingVertical: 24,
@@ -565,6 +664,9 @@ const styles = StyleSheet.create({
     color: COLORS.textDark,
     marginLeft: 12,
   },
+  thresholdSocketName: {
+    flex: 1,
+  },
   divider: {
     height: 1,
     backgroundColor: '#E0E0E0',
@@ -726,6 +828,7 @@ const styles = StyleSheet.create({
   },
   deviceHeader: {
     flexDirection: 'row',
+    alignItems: 'center',
     marginBottom: 12,
   },
   deviceIconContainer: {
@@ -784,6 +887,24 @@ const styles = StyleSheet.create({
   statusInactiveText: {
     color: COLORS.textGray,
   },
+  channelsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.white,
+    marginBottom: 8,
+  },
+  channelsButtonText: {
+    marginLeft: 6,
+    fontSize: 14,
+    fontFamily: 'Poppins-SemiBold',
+    color: COLORS.primary,
+  },
   unpairButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,4 +1,5 @@
 import { AuthProvider } from '@/contexts/auth-context';
+import { TelemetryProvider } from '@/contexts/telemetry-context';
 import { Stack } from 'expo-router';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
@@ -6,6 +7,9 @@ import { useEffect, useRef } from 'react';
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 import { notificationService } from '@/services/notifications';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('notifications');
 
 export default function RootLayout() {
   const notificationListener = useRef<Notifications.Subscription>();
@@ -27,12 +31,12 @@ export default function RootLayout() {
 
     // Listen for notifications received while app is in foreground
     notificationListener.current = Notifications.addNotificationReceivedListener((notification) => {
-      console.log('📬 Notification received:', notification);
+      log.info(`Notification received: ${notification.request.content.title ?? ''}`);
     });
 
     // Listen for user tapping on notifications
     responseListener.current = Notifications.addNotificationResponseReceivedListener((response) => {
-      console.log('👆 Notification tapped:', response);
+      log.info(`Notification tapped: ${response.notification.request.content.title ?? ''}`);
       const data = response.notification.request.content.data;
       
       // Navigate to alerts section if needed
@@ -53,12 +57,14 @@ export default function RootLayout() {
     <GestureHandlerRootView style={{ flex: 1 }}>
       <SafeAreaProvider>
         <AuthProvider>
-          <Stack screenOptions={{ headerShown: false }}>
-            <Stack.Screen name="index" />
-            <Stack.Screen name="(onboarding)" />
-            <Stack.Screen name="(auth)" />
-            <Stack.Screen name="(tabs)" />
-          </Stack>
+          <TelemetryProvider>
+            <Stack screenOptions={{ headerShown: false }}>
+              <Stack.Screen name="index" />
+              <Stack.Screen name="(onboarding)" />
+              <Stack.Screen name="(auth)" />
+              <Stack.Screen name="(tabs)" />
+            </Stack>
+          </TelemetryProvider>
         </AuthProvider>
       </SafeAreaProvider>
     </GestureHandlerRootView>
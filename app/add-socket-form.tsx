@@ -1,4 +1,6 @@
 import { api } from '@/lib/api';
+import { outboxService } from '@/services/outbox';
+import { useRequireVerifiedEmail } from '@/hooks/useRequireVerifiedEmail';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import React, { useState } from 'react';
@@ -14,6 +16,9 @@ import {
   View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('app');
 
 const COLORS = {
   primary: '#FF8C42',
@@ -31,8 +36,11 @@ export default function AddSocketFormScreen() {
   const [socketName, setSocketName] = useState('');
   const [location, setLocation] = useState('');
   const [saving, setSaving] = useState(false);
+  const requireVerifiedEmail = useRequireVerifiedEmail();
 
   const handleSave = async () => {
+    if (!requireVerifiedEmail('add sockets')) return;
+
     if (!socketName.trim()) {
       Alert.alert('Error', 'Please enter a socket name');
       return;
@@ -41,36 +49,48 @@ export default function AddSocketFormScreen() {
     setSaving(true);
 
     try {
-      // Try to create socket directly first (if sensors are already provided server-side it will succeed)
-      let response = await api.createSocket(socketName.trim(), location.trim() || undefined);
+      // Try to create socket directly first (if sensors are already provided server-side it will succeed).
+      // Queued while offline; the outbox replays it when the server is reachable
+      let response = await outboxService.submit({
+        type: 'createSocket',
+        params: { socketName: socketName.trim(), location: location.trim() || undefined },
+      });
 
       // If server rejects because sensors are not set, attempt discovery and pair first available device
-      if (response.error && response.message && response.message.toLowerCase().includes('sensors')) {
+      if (response.status === 'error' && response.message && response.message.toLowerCase().includes('sensors')) {
         try {
           const discovery = await api.discoverDevices();
           if (!discovery.error && discovery.data?.devices && discovery.data.devices.length > 0) {
             // Pair the first discovered device and attach it to the socket
             const dev = discovery.data.devices[0];
-            const pairRes = await api.pairDevice(dev.deviceId, socketName.trim() || undefined);
-            if (!pairRes.error && pairRes.data?.device) {
-              const sensorIds = [pairRes.data.device.id];
-              response = await api.createSocket(socketName.trim(), location.trim() || undefined, sensorIds);
+            const pairRes = await outboxService.submit<{ device: { id: string } }>({
+              type: 'pairDevice',
+              params: { deviceId: dev.deviceId, name: socketName.trim() || undefined },
+            });
+            if (pairRes.status === 'sent' && pairRes.response.data?.device) {
+              const sensorIds = [pairRes.response.data.device.id];
+              response = await outboxService.submit({
+                type: 'createSocket',
+                params: { socketName: socketName.trim(), location: location.trim() || undefined, sensorIds },
+              });
             }
           }
         } catch (err) {
-          console.error('Discovery/pair before create socket failed:', err);
+          log.error('Discovery/pair before create socket failed', err);
         }
       }
 
-      if (response.error) {
+      if (response.status === 'error') {
         // Provide a clearer message to the user when sensors are missing
         Alert.alert('Save Failed', response.message || 'Failed to save socket. Please add or pair a sensor first (use the Add ESP32 flow).');
         return;
       }
 
       Alert.alert(
-        'Success',
-        'Socket added successfully',
+        response.status === 'queued' ? 'Saved Offline' : 'Success',
+        response.status === 'queued'
+          ? 'The socket will be added when the server is reachable.'
+          : 'Socket added successfully',
         [
           {
             text: 'OK',
@@ -79,7 +99,7 @@ export default function AddSocketFormScreen() {
         ]
       );
     } catch (error) {
-      console.error('Error saving socket:', error);
+      log.error('Error saving socket', error);
       Alert.alert('Error', 'An unexpected error occurred while saving');
     } finally {
       setSaving(false);
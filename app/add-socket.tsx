@@ -1,4 +1,6 @@
 import { api } from '@/lib/api';
+import { outboxService } from '@/services/outbox';
+import { useRequireVerifiedEmail } from '@/hooks/useRequireVerifiedEmail';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import React, { useState } from 'react';
@@ -14,6 +16,9 @@ import {
   View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('app');
 
 const COLORS = {
   primary: '#FF8C42',
@@ -40,8 +45,11 @@ export default function AddSocketScreen() {
   const [scanning, setScanning] = useState(false);
   const [foundSensors, setFoundSensors] = useState<FoundSensor[]>([]);
   const [saving, setSaving] = useState(false);
+  const requireVerifiedEmail = useRequireVerifiedEmail();
 
   const handleScan = async () => {
+    if (!requireVerifiedEmail('pair devices')) return;
+
     if (!socketName.trim()) {
       Alert.alert('Error', 'Please enter a socket name first');
       return;
@@ -69,25 +77,31 @@ export default function AddSocketScreen() {
             } else if (discovery.data?.devices && discovery.data.devices.length > 0) {
               const dev = discovery.data.devices[0];
               // Attempt to pair the device for the current user
-              const pairRes = await api.pairDevice(dev.deviceId, socketName.trim() || undefined);
-              if (pairRes.error) {
+              const pairRes = await outboxService.submit<{ device: { id: string; name?: string } }>({
+                type: 'pairDevice',
+                params: { deviceId: dev.deviceId, name: socketName.trim() || undefined },
+              });
+              if (pairRes.status === 'error') {
                 Alert.alert('Pair Failed', pairRes.message || 'Failed to pair discovered device');
+              } else if (pairRes.status === 'queued') {
+                Alert.alert('Saved Offline', `Device ${dev.deviceId} will be paired when the server is reachable.`);
               } else {
                 // Show the paired device in the UI
-                setFoundSensors([{ id: pairRes.data?.device?.id || dev.deviceId, deviceId: dev.deviceId, name: pairRes.data?.device?.name || dev.name }]);
+                const device = pairRes.response.data?.device;
+                setFoundSensors([{ id: device?.id || dev.deviceId, deviceId: dev.deviceId, name: device?.name || dev.name }]);
                 Alert.alert('Paired', `Paired to device ${dev.deviceId}`);
               }
             } else {
               Alert.alert('No ESP32 Found', 'No ESP32 were detected in this socket. Please check the connection and try again.');
             }
           } catch (err) {
-            console.error('Discovery/pair error:', err);
+            log.error('Discovery/pair error', err);
             Alert.alert('Error', 'An unexpected error occurred while discovering/pairing');
           }
         }
       }
     } catch (error) {
-      console.error('Error scanning for sensors:', error);
+      log.error('Error scanning for sensors', error);
       Alert.alert('Error', 'An unexpected error occurred while scanning');
     } finally {
       setScanning(false);
@@ -95,6 +109,8 @@ export default function AddSocketScreen() {
   };
 
   const handleSave = async () => {
+    if (!requireVerifiedEmail('add sockets')) return;
+
     if (!socketName.trim()) {
       Alert.alert('Error', 'Please enter a socket name');
       return;
@@ -104,16 +120,22 @@ export default function AddSocketScreen() {
 
     try {
       const sensorIds = foundSensors.map(sensor => sensor.id);
-      const response = await api.createSocket(socketName.trim(), location.trim() || undefined, sensorIds);
+      // Queued while offline; the outbox replays it when the server is reachable
+      const response = await outboxService.submit({
+        type: 'createSocket',
+        params: { socketName: socketName.trim(), location: location.trim() || undefined, sensorIds },
+      });
 
-      if (response.error) {
+      if (response.status === 'error') {
         Alert.alert('Save Failed', response.message || 'Failed to save socket');
         return;
       }
 
       Alert.alert(
-        'Success',
-        'Socket added successfully',
+        response.status === 'queued' ? 'Saved Offline' : 'Success',
+        response.status === 'queued'
+          ? 'The socket will be added when the server is reachable.'
+          : 'Socket added successfully',
         [
           {
             text: 'OK',
@@ -122,7 +144,7 @@ export default function AddSocketScreen() {
         ]
       );
     } catch (error) {
-      console.error('Error saving socket:', error);
+      log.error('Error saving socket', error);
       Alert.alert('Error', 'An unexpected error occurred while saving');
     } finally {
       setSaving(false);
@@ -0,0 +1,417 @@
+import { api, Socket } from '@/lib/api';
+import {
+  BREAKER_COUNT,
+  createDefaultChannelMap,
+  DeviceChannelMap,
+  OUTLET_COUNTS,
+  OutletChannelConfig,
+  OutletCount,
+  POWER_CHANNEL_COUNT,
+  TEMPERATURE_PROBE_COUNT,
+  validateChannelMap,
+  WATER_SENSOR_COUNT,
+} from '@/lib/channel-map';
+import { channelMapService } from '@/services/channel-maps';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('app');
+
+const COLORS = {
+  primary: '#FF8C42',
+  white: '#FFFFFF',
+  inputBg: '#F5F5F5',
+  textGray: '#999999',
+  textDark: '#333333',
+  shadow: '#000000',
+  border: '#E0E0E0',
+};
+
+type ResourceField = 'temperatureProbe' | 'powerChannel' | 'breaker';
+
+const RESOURCE_FIELDS: { field: ResourceField; label: string; count: number }[] = [
+  { field: 'temperatureProbe', label: 'Temperature probe', count: TEMPERATURE_PROBE_COUNT },
+  { field: 'powerChannel', label: 'Power channel', count: POWER_CHANNEL_COUNT },
+  { field: 'breaker', label: 'Breaker', count: BREAKER_COUNT },
+];
+
+export default function ChannelMapScreen() {
+  const router = useRouter();
+  const { deviceId, deviceName } = useLocalSearchParams<{ deviceId: string; deviceName?: string }>();
+  const [map, setMap] = useState<DeviceChannelMap>(createDefaultChannelMap());
+  const [sockets, setSockets] = useState<Socket[]>([]);
+  const [bindings, setBindings] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!deviceId) return;
+
+    const load = async () => {
+      try {
+        await channelMapService.load();
+        setMap(channelMapService.getMap(deviceId));
+
+        const response = await api.getSockets();
+        const deviceSockets = (response.data?.sockets ?? []).filter((socket) =>
+          socket.devices?.some((d) => d.device_id === deviceId)
+        );
+        setSockets(deviceSockets);
+        setBindings(Object.fromEntries(
+          deviceSockets.map((socket) => [socket.id, channelMapService.getSocketOutlet(socket.id, deviceId)])
+        ));
+      } catch (error) {
+        log.error('Error loading channel map', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [deviceId]);
+
+  const updateOutlet = (outletNumber: number, changes: Partial<OutletChannelConfig>) => {
+    setMap((prev) => ({
+      ...prev,
+      outlets: prev.outlets.map((o) => (o.outletNumber === outletNumber ? { ...o, ...changes } : o)),
+    }));
+  };
+
+  const toggleWaterSensor = (outlet: OutletChannelConfig, index: number) => {
+    const waterSensors = outlet.waterSensors.includes(index)
+      ? outlet.waterSensors.filter((i) => i !== index)
+      : [...outlet.waterSensors, index].sort();
+    updateOutlet(outlet.outletNumber, { waterSensors });
+  };
+
+  const handleOutletCountChange = (outletCount: OutletCount) => {
+    if (outletCount === map.outletCount) return;
+    setMap(createDefaultChannelMap(outletCount));
+    // Sockets on outlets that no longer exist fall back to outlet 1
+    setBindings((prev) => Object.fromEntries(
+      Object.entries(prev).map(([socketId, n]) => [socketId, n <= outletCount ? n : 1])
+    ));
+  };
+
+  const handleSave = async () => {
+    if (!deviceId) return;
+
+    const validationError = validateChannelMap(map);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await channelMapService.saveMap(deviceId, {
+        ...map,
+        outlets: map.outlets.map((o) => ({ ...o, name: o.name.trim() })),
+      });
+      for (const [socketId, outletNumber] of Object.entries(bindings)) {
+        await channelMapService.bindSocket(socketId, outletNumber);
+      }
+      Alert.alert('Success', 'Channel map saved', [{ text: 'OK', onPress: () => router.back() }]);
+    } catch (error) {
+      log.error('Error saving channel map', error);
+      Alert.alert('Error', 'Failed to save channel map');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderChip = (key: string | number, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+      activeOpacity={0.7}
+      disabled={saving}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderOutlet = (outlet: OutletChannelConfig) => (
+    <View key={outlet.outletNumber} style={styles.outletCard}>
+      <Text style={styles.outletTitle}>Outlet {outlet.outletNumber}</Text>
+      <TextInput
+        style={styles.input}
+        value={outlet.name}
+        onChangeText={(name) => updateOutlet(outlet.outletNumber, { name })}
+        placeholder="Outlet name"
+        placeholderTextColor={COLORS.textGray}
+        editable={!saving}
+      />
+
+      <Text style={styles.fieldLabel}>Water sensors</Text>
+      <View style={styles.chipRow}>
+        {Array.from({ length: WATER_SENSOR_COUNT }, (_, i) =>
+          renderChip(i, String(i + 1), outlet.waterSensors.includes(i), () => toggleWaterSensor(outlet, i))
+        )}
+      </View>
+
+      {RESOURCE_FIELDS.map(({ field, label, count }) => (
+        <React.Fragment key={field}>
+          <Text style={styles.fieldLabel}>{label}</Text>
+          <View style={styles.chipRow}>
+            {renderChip('none', 'None', outlet[field] === null, () => updateOutlet(outlet.outletNumber, { [field]: null }))}
+            {Array.from({ length: count }, (_, i) => {
+              const value = (i + 1) as 1 | 2;
+              return renderChip(value, String(value), outlet[field] === value, () =>
+                updateOutlet(outlet.outletNumber, { [field]: value })
+              );
+            })}
+          </View>
+        </React.Fragment>
+      ))}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea} edges={['top']}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="arrow-back" size={24} color={COLORS.white} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {deviceName ? `${deviceName} Channels` : 'Channels'}
+          </Text>
+          <View style={styles.backButton} />
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={COLORS.primary} />
+          </View>
+        ) : (
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Outlets on this board</Text>
+              <View style={styles.chipRow}>
+                {OUTLET_COUNTS.map((count) =>
+                  renderChip(count, String(count), map.outletCount === count, () => handleOutletCountChange(count))
+                )}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Wiring</Text>
+              {map.outlets.map(renderOutlet)}
+            </View>
+
+            {sockets.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Sockets</Text>
+                {sockets.map((socket) => (
+                  <View key={socket.id} style={styles.outletCard}>
+                    <Text style={styles.outletTitle}>{socket.name}</Text>
+                    <View style={styles.chipRow}>
+                      {map.outlets.map((outlet) =>
+                        renderChip(
+                          outlet.outletNumber,
+                          outlet.name || `Outlet ${outlet.outletNumber}`,
+                          bindings[socket.id] === outlet.outletNumber,
+                          () => setBindings((prev) => ({ ...prev, [socket.id]: outlet.outletNumber }))
+                        )
+                      )}
+                    </View>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={styles.resetButton}
+              onPress={() => setMap(createDefaultChannelMap(map.outletCount))}
+              activeOpacity={0.7}
+              disabled={saving}
+            >
+              <Text style={styles.resetButtonText}>Reset to Standard Wiring</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.buttonDisabled]}
+              onPress={handleSave}
+              activeOpacity={0.9}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator color={COLORS.white} />
+              ) : (
+                <Text style={styles.saveButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    backgroundColor: COLORS.primary,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.white,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    paddingBottom: 120,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 12,
+  },
+  outletCard: {
+    backgroundColor: COLORS.white,
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginBottom: 12,
+  },
+  outletTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: COLORS.inputBg,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    height: 48,
+    fontSize: 15,
+    color: COLORS.textDark,
+    marginBottom: 4,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    color: COLORS.textGray,
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: COLORS.inputBg,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  chipTextActive: {
+    color: COLORS.white,
+  },
+  resetButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  resetButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  saveButton: {
+    backgroundColor: COLORS.primary,
+    paddingVertical: 18,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...Platform.select({
+      ios: {
+        shadowColor: COLORS.primary,
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 4,
+      },
+    }),
+  },
+  saveButtonText: {
+    color: COLORS.white,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
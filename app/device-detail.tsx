@@ -0,0 +1,351 @@
+import { api, Device, DeviceUpdate } from '@/lib/api';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('app');
+
+const COLORS = {
+  primary: '#FF8C42',
+  white: '#FFFFFF',
+  inputBg: '#F5F5F5',
+  textGray: '#999999',
+  textDark: '#333333',
+  shadow: '#000000',
+  border: '#E0E0E0',
+};
+
+type DeviceForm = {
+  name: string;
+  installedAt: string;
+  model: string;
+  serialNumber: string;
+  firmwareVersion: string;
+};
+
+const FORM_FIELDS: { field: keyof DeviceForm; label: string; placeholder: string }[] = [
+  { field: 'name', label: 'Name', placeholder: 'e.g. Kitchen ESP32' },
+  { field: 'installedAt', label: 'Install Date', placeholder: 'YYYY-MM-DD' },
+  { field: 'model', label: 'Model', placeholder: 'Optional' },
+  { field: 'serialNumber', label: 'Serial Number', placeholder: 'Optional' },
+  { field: 'firmwareVersion', label: 'Firmware Version', placeholder: 'Optional' },
+];
+
+const toForm = (device: Device): DeviceForm => ({
+  name: device.name ?? '',
+  installedAt: device.installedAt ?? '',
+  model: device.model ?? '',
+  serialNumber: device.serialNumber ?? '',
+  firmwareVersion: device.firmwareVersion ?? '',
+});
+
+const isValidDate = (value: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+export default function DeviceDetailScreen() {
+  const router = useRouter();
+  const { deviceId } = useLocalSearchParams<{ deviceId: string }>();
+  const [device, setDevice] = useState<Device | null>(null);
+  const [form, setForm] = useState<DeviceForm>({ name: '', installedAt: '', model: '', serialNumber: '', firmwareVersion: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!deviceId) return;
+    api.getDevices()
+      .then((response) => {
+        const found = response.data?.devices.find((d) => d.deviceId === deviceId) ?? null;
+        setDevice(found);
+        if (found) setForm(toForm(found));
+      })
+      .catch((error) => log.error('Error loading device', error))
+      .finally(() => setLoading(false));
+  }, [deviceId]);
+
+  const updateField = (field: keyof DeviceForm) => (value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!device) return;
+
+    if (!form.name.trim()) {
+      Alert.alert('Error', 'Please enter a device name');
+      return;
+    }
+    if (form.installedAt.trim() && !isValidDate(form.installedAt.trim())) {
+      Alert.alert('Error', 'Install date must be in YYYY-MM-DD format');
+      return;
+    }
+
+    // Send only what changed; empty optional fields clear the stored value
+    const initial = toForm(device);
+    const updates: DeviceUpdate = {};
+    (Object.keys(form) as (keyof DeviceForm)[]).forEach((field) => {
+      const value = form[field].trim();
+      if (value === initial[field]) return;
+      if (field === 'name') {
+        updates.name = value;
+      } else {
+        updates[field] = value || null;
+      }
+    });
+
+    if (Object.keys(updates).length === 0) {
+      router.back();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await api.updateDevice(device.deviceId, updates);
+      if (response.error) {
+        Alert.alert('Error', response.message || 'Failed to update device');
+        return;
+      }
+      Alert.alert('Success', 'Device updated', [{ text: 'OK', onPress: () => router.back() }]);
+    } catch (error) {
+      log.error('Error updating device', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatDateTime = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const renderInfoRow = (label: string, value: string) => (
+    <View style={styles.infoRow}>
+      <Text style={styles.infoLabel}>{label}</Text>
+      <Text style={styles.infoValue}>{value}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea} edges={['top']}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="arrow-back" size={24} color={COLORS.white} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {device?.name || 'Device'}
+          </Text>
+          <View style={styles.backButton} />
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={COLORS.primary} />
+          </View>
+        ) : !device ? (
+          <View style={styles.loadingContainer}>
+            <Ionicons name="alert-circle-outline" size={48} color={COLORS.textGray} />
+            <Text style={styles.emptyText}>This device is no longer paired</Text>
+          </View>
+        ) : (
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Status</Text>
+              <View style={styles.infoCard}>
+                {renderInfoRow('Device ID', device.deviceId)}
+                {renderInfoRow('Status', device.isActive ? 'Active' : 'Inactive')}
+                {renderInfoRow('Paired', formatDateTime(device.pairedAt))}
+                {renderInfoRow('Last Seen', device.lastSeen ? formatDateTime(device.lastSeen) : 'Never')}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Details</Text>
+              {FORM_FIELDS.map(({ field, label, placeholder }) => (
+                <View key={field} style={styles.fieldContainer}>
+                  <Text style={styles.fieldLabel}>{label}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form[field]}
+                    onChangeText={updateField(field)}
+                    placeholder={placeholder}
+                    placeholderTextColor={COLORS.textGray}
+                    autoCapitalize={field === 'name' ? 'words' : 'none'}
+                    editable={!saving}
+                  />
+                </View>
+              ))}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.buttonDisabled]}
+              onPress={handleSave}
+              activeOpacity={0.9}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator color={COLORS.white} />
+              ) : (
+                <Text style={styles.saveButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    backgroundColor: COLORS.primary,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.white,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: COLORS.textGray,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    paddingBottom: 120,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 12,
+  },
+  infoCard: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  infoLabel: {
+    fontSize: 14,
+    color: COLORS.textGray,
+  },
+  infoValue: {
+    flexShrink: 1,
+    marginLeft: 12,
+    fontSize: 14,
+    fontWeight: '500',
+    color: COLORS.textDark,
+    textAlign: 'right',
+  },
+  fieldContainer: {
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    color: COLORS.textDark,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: COLORS.inputBg,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    height: 56,
+    fontSize: 15,
+    color: COLORS.textDark,
+  },
+  saveButton: {
+    backgroundColor: COLORS.primary,
+    paddingVertical: 18,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...Platform.select({
+      ios: {
+        shadowColor: COLORS.primary,
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 4,
+      },
+    }),
+  },
+  saveButtonText: {
+    color: COLORS.white,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
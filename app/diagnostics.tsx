@@ -0,0 +1,336 @@
+import { filterLogEntries, formatLogEntry, LOG_CATEGORIES, LOG_LEVELS, LogCategory, LogEntry, LogLevel } from '@/lib/logger';
+import { PROTOCOL_VERSION } from '@/lib/ws-protocol';
+import { logService } from '@/services/logger';
+import { telemetrySocket } from '@/services/telemetry-socket';
+import { Ionicons } from '@expo/vector-icons';
+import Constants from 'expo-constants';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  Platform,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const COLORS = {
+  primary: '#FF8C42',
+  white: '#FFFFFF',
+  inputBg: '#F5F5F5',
+  textGray: '#999999',
+  textDark: '#333333',
+  border: '#E0E0E0',
+  danger: '#F44336',
+  warning: '#FF9800',
+};
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: COLORS.textGray,
+  info: COLORS.textDark,
+  warn: COLORS.warning,
+  error: COLORS.danger,
+};
+
+/**
+ * Support diagnostics (opened by tapping the avatar in Settings five times).
+ * Everything shown here has already been redacted by the logger.
+ */
+export default function DiagnosticsScreen() {
+  const router = useRouter();
+  const [entries, setEntries] = useState<LogEntry[]>(logService.getEntries());
+  const [verbose, setVerbose] = useState(logService.isVerbose());
+  const [minLevel, setMinLevel] = useState<LogLevel>('info');
+  const [category, setCategory] = useState<LogCategory | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = logService.onChange((next) => {
+      setEntries(next);
+      setVerbose(logService.isVerbose());
+    });
+    logService.load().then(() => {
+      setEntries(logService.getEntries());
+      setVerbose(logService.isVerbose());
+    });
+    return unsubscribe;
+  }, []);
+
+  // Newest first
+  const visibleEntries = useMemo(
+    () => filterLogEntries(entries, minLevel, category).reverse(),
+    [entries, minLevel, category]
+  );
+
+  const protocolStats = telemetrySocket.getProtocolStats();
+  const droppedMessages = Object.values(protocolStats.rejected).reduce((sum, n) => sum + n, 0);
+  const protocolSummary = `Protocol v${PROTOCOL_VERSION} · server ${
+    protocolStats.serverVersion !== null ? `v${protocolStats.serverVersion}` : 'unknown'
+  } · ${droppedMessages} dropped message${droppedMessages === 1 ? '' : 's'}`;
+
+  const handleShare = async () => {
+    const header = [
+      `App ${Constants.expoConfig?.version ?? 'unknown'} on ${Platform.OS} ${Platform.Version}`,
+      protocolStats.lastRejection ? `${protocolSummary} (last: ${protocolStats.lastRejection})` : protocolSummary,
+      `Filter: ${minLevel}+${category ? `, ${category}` : ''} (${visibleEntries.length} entries)`,
+    ];
+    const lines = [...visibleEntries].reverse().map(formatLogEntry);
+    try {
+      await Share.share({ message: [...header, '', ...lines].join('\n') });
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not share logs');
+    }
+  };
+
+  const handleClear = () => {
+    Alert.alert('Clear Logs', 'Delete all diagnostic logs on this device?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: () => logService.clear() },
+    ]);
+  };
+
+  const formatTime = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return date.toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
+  const renderChip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderEntry = ({ item }: { item: LogEntry }) => (
+    <View style={styles.entry}>
+      <View style={styles.entryHeader}>
+        <Text style={[styles.entryLevel, { color: LEVEL_COLORS[item.level] }]}>{item.level.toUpperCase()}</Text>
+        <Text style={styles.entryCategory}>{item.category}</Text>
+        <Text style={styles.entryTime}>{formatTime(item.timestamp)}</Text>
+      </View>
+      <Text style={styles.entryMessage}>{item.message}</Text>
+      {item.data ? <Text style={styles.entryData} numberOfLines={6}>{item.data}</Text> : null}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea} edges={['top']}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="arrow-back" size={24} color={COLORS.white} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Diagnostics</Text>
+          <TouchableOpacity onPress={handleShare} style={styles.backButton} activeOpacity={0.7}>
+            <Ionicons name="share-outline" size={24} color={COLORS.white} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.filters}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {LOG_LEVELS.map((level) => renderChip(`${level}+`, minLevel === level, () => setMinLevel(level)))}
+          </ScrollView>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {renderChip('all', category === null, () => setCategory(null))}
+            {LOG_CATEGORIES.map((c) => renderChip(c, category === c, () => setCategory(c)))}
+          </ScrollView>
+          <Text style={styles.protocolText}>{protocolSummary}</Text>
+          <View style={styles.verboseRow}>
+            <View style={styles.verboseInfo}>
+              <Text style={styles.verboseTitle}>Verbose logging</Text>
+              <Text style={styles.verboseSubtitle}>Also keep debug entries, including every telemetry message</Text>
+            </View>
+            <Switch
+              value={verbose}
+              onValueChange={(value) => logService.setVerbose(value)}
+              trackColor={{ true: COLORS.primary, false: COLORS.border }}
+            />
+          </View>
+        </View>
+
+        <FlatList
+          data={visibleEntries}
+          keyExtractor={(item) => String(item.id)}
+          renderItem={renderEntry}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={<Text style={styles.emptyText}>No log entries</Text>}
+          ListFooterComponent={
+            entries.length > 0 ? (
+              <TouchableOpacity style={styles.clearButton} onPress={handleClear} activeOpacity={0.7}>
+                <Ionicons name="trash-outline" size={20} color={COLORS.danger} />
+                <Text style={styles.clearButtonText}>Clear Logs</Text>
+              </TouchableOpacity>
+            ) : null
+          }
+        />
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    backgroundColor: COLORS.primary,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.white,
+  },
+  filters: {
+    paddingTop: 16,
+    paddingHorizontal: 24,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: COLORS.inputBg,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  chipTextActive: {
+    color: COLORS.white,
+  },
+  protocolText: {
+    fontSize: 12,
+    color: COLORS.textGray,
+    marginBottom: 4,
+  },
+  verboseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  verboseInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  verboseTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  verboseSubtitle: {
+    fontSize: 12,
+    color: COLORS.textGray,
+    marginTop: 2,
+  },
+  listContent: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 120,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: COLORS.textGray,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  entry: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.inputBg,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  entryLevel: {
+    fontSize: 11,
+    fontWeight: '700',
+    marginRight: 8,
+  },
+  entryCategory: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: COLORS.primary,
+    flex: 1,
+  },
+  entryTime: {
+    fontSize: 11,
+    color: COLORS.textGray,
+  },
+  entryMessage: {
+    fontSize: 13,
+    color: COLORS.textDark,
+  },
+  entryData: {
+    fontSize: 12,
+    color: COLORS.textGray,
+    marginTop: 2,
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+  },
+  clearButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.danger,
+    marginTop: 24,
+  },
+  clearButtonText: {
+    marginLeft: 6,
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.danger,
+  },
+});
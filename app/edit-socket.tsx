@@ -0,0 +1,489 @@
+import { api, Device, Socket } from '@/lib/api';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('app');
+
+const COLORS = {
+  primary: '#FF8C42',
+  white: '#FFFFFF',
+  inputBg: '#F5F5F5',
+  textGray: '#999999',
+  textDark: '#333333',
+  shadow: '#000000',
+  border: '#E0E0E0',
+  danger: '#F44336',
+};
+
+// A device that can be attached to the socket (record ID, as used by createSocket's sensorIds)
+type DeviceOption = {
+  id: string;
+  deviceId: string;
+  name?: string;
+};
+
+export default function EditSocketScreen() {
+  const router = useRouter();
+  const { socketId } = useLocalSearchParams<{ socketId: string }>();
+  const [socket, setSocket] = useState<Socket | null>(null);
+  const [socketName, setSocketName] = useState('');
+  const [location, setLocation] = useState('');
+  const [deviceOptions, setDeviceOptions] = useState<DeviceOption[]>([]);
+  const [selectedDeviceIds, setSelectedDeviceIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    if (!socketId) {
+      setLoading(false);
+      return;
+    }
+
+    const load = async () => {
+      try {
+        const [socketsRes, devicesRes] = await Promise.all([api.getSockets(), api.getDevices()]);
+        const found = socketsRes.data?.sockets.find((s) => s.id === socketId) ?? null;
+        setSocket(found);
+        if (!found) return;
+
+        setSocketName(found.name);
+        setLocation(found.location ?? '');
+
+        const assigned = found.devices ?? [];
+        setSelectedDeviceIds(new Set(assigned.map((d) => d.id)));
+
+        // Paired devices plus anything already attached that is no longer paired
+        const paired: DeviceOption[] = (devicesRes.data?.devices ?? []).map((d: Device) => ({
+          id: d.id,
+          deviceId: d.deviceId,
+          name: d.name,
+        }));
+        const orphaned = assigned
+          .filter((d) => !paired.some((p) => p.id === d.id))
+          .map((d) => ({ id: d.id, deviceId: d.device_id, name: d.name }));
+        setDeviceOptions([...paired, ...orphaned]);
+      } catch (error) {
+        log.error('Error loading socket', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [socketId]);
+
+  const toggleDevice = (id: string) => {
+    setSelectedDeviceIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!socket) return;
+    if (!socketName.trim()) {
+      Alert.alert('Error', 'Please enter a socket name');
+      return;
+    }
+    if (selectedDeviceIds.size === 0) {
+      Alert.alert('Error', 'A socket needs at least one device');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const errors: string[] = [];
+      // What the server has after each successful call, so a retried save only repeats what failed
+      let saved = socket;
+
+      const nameChanged = socketName.trim() !== saved.name;
+      const locationChanged = location.trim() !== (saved.location ?? '');
+      if (nameChanged || locationChanged) {
+        const response = await api.updateSocket(saved.id, {
+          socketName: socketName.trim(),
+          location: location.trim() || null,
+        });
+        if (response.error) {
+          errors.push(response.message || 'Failed to update socket details');
+        } else {
+          saved = response.data?.socket
+            ?? { ...saved, name: socketName.trim(), location: location.trim() || undefined };
+        }
+      }
+
+      // Attach new devices before detaching old ones so the socket is never left empty
+      const originalIds = new Set((socket.devices ?? []).map((d) => d.id));
+      for (const id of selectedDeviceIds) {
+        if (originalIds.has(id)) continue;
+        const response = await api.addSocketDevice(saved.id, id);
+        if (response.error) {
+          errors.push(response.message || 'Failed to add device');
+        } else {
+          const option = deviceOptions.find((d) => d.id === id);
+          saved = response.data?.socket
+            ?? { ...saved, devices: [...(saved.devices ?? []), { id, device_id: option?.deviceId ?? id, name: option?.name }] };
+        }
+      }
+      for (const id of originalIds) {
+        if (selectedDeviceIds.has(id)) continue;
+        const response = await api.removeSocketDevice(saved.id, id);
+        if (response.error) {
+          errors.push(response.message || 'Failed to remove device');
+        } else {
+          saved = response.data?.socket ?? { ...saved, devices: (saved.devices ?? []).filter((d) => d.id !== id) };
+        }
+      }
+      setSocket(saved);
+
+      if (errors.length > 0) {
+        Alert.alert('Save Failed', errors.join('\n'));
+        return;
+      }
+
+      Alert.alert('Success', 'Socket updated', [{ text: 'OK', onPress: () => router.back() }]);
+    } catch (error) {
+      log.error('Error saving socket', error);
+      Alert.alert('Error', 'An unexpected error occurred while saving');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const performDelete = async () => {
+    if (!socket) return;
+
+    setDeleting(true);
+    try {
+      const response = await api.deleteSocket(socket.id);
+      if (response.error) {
+        Alert.alert('Error', response.message || 'Failed to delete socket');
+        return;
+      }
+      Alert.alert('Deleted', `"${socket.name}" was deleted`, [{ text: 'OK', onPress: () => router.back() }]);
+    } catch (error) {
+      log.error('Error deleting socket', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!socket) return;
+    Alert.alert(
+      'Delete Socket',
+      `Are you sure you want to delete "${socket.name}"?\n\nIts devices stay paired to your account.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: performDelete },
+      ]
+    );
+  };
+
+  const busy = saving || deleting;
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea} edges={['top']}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="arrow-back" size={24} color={COLORS.white} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Edit Socket</Text>
+          <View style={styles.backButton} />
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={COLORS.primary} />
+          </View>
+        ) : !socket ? (
+          <View style={styles.loadingContainer}>
+            <Ionicons name="alert-circle-outline" size={48} color={COLORS.textGray} />
+            <Text style={styles.emptyText}>This socket no longer exists</Text>
+          </View>
+        ) : (
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={styles.section}>
+              <Text style={styles.label}>Socket Name</Text>
+              <TextInput
+                style={styles.input}
+                value={socketName}
+                onChangeText={setSocketName}
+                placeholder="e.g. Kitchen"
+                placeholderTextColor={COLORS.textGray}
+                editable={!busy}
+              />
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.label}>Location</Text>
+              <TextInput
+                style={styles.input}
+                value={location}
+                onChangeText={setLocation}
+                placeholder="Optional"
+                placeholderTextColor={COLORS.textGray}
+                editable={!busy}
+              />
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.label}>Devices</Text>
+              {deviceOptions.length === 0 ? (
+                <Text style={styles.emptyText}>No paired devices</Text>
+              ) : (
+                deviceOptions.map((device) => {
+                  const selected = selectedDeviceIds.has(device.id);
+                  return (
+                    <TouchableOpacity
+                      key={device.id}
+                      style={[styles.deviceRow, selected && styles.deviceRowSelected]}
+                      onPress={() => toggleDevice(device.id)}
+                      activeOpacity={0.7}
+                      disabled={busy}
+                    >
+                      <Ionicons
+                        name={selected ? 'checkbox' : 'square-outline'}
+                        size={22}
+                        color={selected ? COLORS.primary : COLORS.textGray}
+                      />
+                      <View style={styles.deviceInfo}>
+                        <Text style={styles.deviceName}>
+                          {device.name || `Device ${device.deviceId.slice(-4)}`}
+                        </Text>
+                        <Text style={styles.deviceId}>ID: {device.deviceId}</Text>
+                      </View>
+                    </TouchableOpacity>
+                  );
+                })
+              )}
+            </View>
+
+            <TouchableOpacity
+              style={styles.membersRow}
+              onPress={() => router.push({ pathname: '/socket-members' as any, params: { socketId: socket.id, socketName: socket.name } })}
+              activeOpacity={0.7}
+              disabled={busy}
+            >
+              <Ionicons name="people-outline" size={22} color={COLORS.primary} />
+              <Text style={styles.membersRowText}>Members & Sharing</Text>
+              <Ionicons name="chevron-forward" size={20} color={COLORS.textGray} />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.saveButton, busy && styles.buttonDisabled]}
+              onPress={handleSave}
+              activeOpacity={0.9}
+              disabled={busy}
+            >
+              {saving ? (
+                <ActivityIndicator color={COLORS.white} />
+              ) : (
+                <Text style={styles.saveButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.deleteButton, busy && styles.buttonDisabled]}
+              onPress={handleDelete}
+              activeOpacity={0.7}
+              disabled={busy}
+            >
+              {deleting ? (
+                <ActivityIndicator size="small" color={COLORS.danger} />
+              ) : (
+                <>
+                  <Ionicons name="trash-outline" size={20} color={COLORS.danger} />
+                  <Text style={styles.deleteButtonText}>Delete Socket</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    backgroundColor: COLORS.primary,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.white,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    paddingBottom: 120,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: COLORS.inputBg,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    height: 56,
+    fontSize: 15,
+    color: COLORS.textDark,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: COLORS.textGray,
+  },
+  deviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginBottom: 8,
+  },
+  deviceRowSelected: {
+    borderColor: COLORS.primary,
+  },
+  deviceInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  deviceName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  deviceId: {
+    fontSize: 12,
+    color: COLORS.textGray,
+    marginTop: 2,
+  },
+  membersRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginBottom: 24,
+  },
+  membersRowText: {
+    flex: 1,
+    marginLeft: 12,
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  saveButton: {
+    backgroundColor: COLORS.primary,
+    paddingVertical: 18,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...Platform.select({
+      ios: {
+        shadowColor: COLORS.primary,
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 4,
+      },
+    }),
+  },
+  saveButtonText: {
+    color: COLORS.white,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.danger,
+    marginTop: 16,
+  },
+  deleteButtonText: {
+    marginLeft: 6,
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.danger,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,700 @@
+import { api, SensorReading } from '@/lib/api';
+import {
+  DEFAULT_TARIFF,
+  ENERGY_PERIODS,
+  EnergyPeriod,
+  EnergySummary,
+  formatCost,
+  getPeriodWindows,
+  integrateEnergy,
+  loadTariff,
+  saveTariff,
+  Tariff,
+} from '@/lib/energy';
+import { getPowerMeters } from '@/lib/channel-map';
+import { useChannelMaps } from '@/hooks/useChannelMaps';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Dimensions,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { BarChart } from 'react-native-chart-kit';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('app');
+
+const { width } = Dimensions.get('window');
+const CHART_WIDTH = width - 48;
+
+const COLORS = {
+  primary: '#FF8C42',
+  white: '#FFFFFF',
+  inputBg: '#F5F5F5',
+  textGray: '#999999',
+  textDark: '#333333',
+  textLight: '#666666',
+  shadow: '#000000',
+  success: '#4CAF50',
+  danger: '#F44336',
+};
+
+// Per window; at a few seconds per reading the week and month views can exceed this
+const PAGE_SIZE = 500;
+const MAX_PAGES = 20;
+
+// Why a window's readings stop short: the page cap was hit, or a page request failed
+type PartialReason = 'capped' | 'failed';
+
+interface WindowReadings {
+  readings: SensorReading[];
+  partial: PartialReason | null; // null when every reading in the window was loaded
+}
+
+// Fetch the readings for a device in a time range (paged, newest first)
+const fetchReadingsInRange = async (deviceId: string, start: Date, end: Date): Promise<WindowReadings> => {
+  const readings: SensorReading[] = [];
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const response = await api.getSensorReadings({
+      deviceId,
+      startDate: start.toISOString(),
+      endDate: end.toISOString(),
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE,
+    });
+    if (!response.data?.readings) return { readings, partial: 'failed' };
+    readings.push(...response.data.readings);
+    if (!response.data.pagination?.hasMore) return { readings, partial: null };
+  }
+  return { readings, partial: 'capped' };
+};
+
+// Format a bucket start time as a short chart label
+const formatBucketLabel = (date: Date, period: EnergyPeriod): string => {
+  if (period === 'hour' || period === 'day') {
+    return `${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}`;
+  }
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+};
+
+export default function EnergyScreen() {
+  const router = useRouter();
+  const { deviceId } = useLocalSearchParams<{ deviceId?: string }>();
+  const [period, setPeriod] = useState<EnergyPeriod>('day');
+  const [selectedChannel, setSelectedChannel] = useState<1 | 2>(1);
+  const { getMap } = useChannelMaps();
+
+  // Power is metered per channel; outlets sharing a channel are reported together
+  const meters = useMemo(() => getPowerMeters(getMap(deviceId)), [getMap, deviceId]);
+  const activeChannel = meters.some((m) => m.powerChannel === selectedChannel)
+    ? selectedChannel
+    : meters[0]?.powerChannel ?? 1;
+  const [readings, setReadings] = useState<SensorReading[]>([]);
+  // Windows whose totals only cover some of their readings, and why
+  const [partial, setPartial] = useState<{ current: PartialReason | null; previous: PartialReason | null }>({
+    current: null,
+    previous: null,
+  });
+  const [loading, setLoading] = useState(true);
+  const [tariff, setTariff] = useState<Tariff>(DEFAULT_TARIFF);
+
+  // Tariff form state (strings so partially typed numbers stay editable)
+  const [tariffType, setTariffType] = useState<Tariff['type']>('flat');
+  const [flatRate, setFlatRate] = useState('');
+  const [peakRate, setPeakRate] = useState('');
+  const [offPeakRate, setOffPeakRate] = useState('');
+  const [peakStart, setPeakStart] = useState('');
+  const [peakEnd, setPeakEnd] = useState('');
+
+  const applyTariffToForm = (value: Tariff) => {
+    setTariffType(value.type);
+    if (value.type === 'flat') {
+      setFlatRate(String(value.ratePerKwh));
+      setOffPeakRate(String(value.ratePerKwh));
+      setPeakRate(String(value.ratePerKwh));
+      setPeakStart('18');
+      setPeakEnd('22');
+    } else {
+      const peak = value.rates[0];
+      setFlatRate(String(value.defaultRatePerKwh));
+      setOffPeakRate(String(value.defaultRatePerKwh));
+      setPeakRate(String(peak?.ratePerKwh ?? value.defaultRatePerKwh));
+      setPeakStart(String(peak?.startHour ?? 18));
+      setPeakEnd(String(peak?.endHour ?? 22));
+    }
+  };
+
+  useEffect(() => {
+    loadTariff().then((stored) => {
+      setTariff(stored);
+      applyTariffToForm(stored);
+    });
+  }, []);
+
+  const fetchReadings = useCallback(async () => {
+    if (!deviceId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      // Separate windows so the current one can't use up the page budget of the previous one
+      const { previous, current } = getPeriodWindows(period);
+      const [currentWindow, previousWindow] = await Promise.all([
+        fetchReadingsInRange(deviceId, current.start, current.end),
+        fetchReadingsInRange(deviceId, previous.start, previous.end),
+      ]);
+      setReadings([...currentWindow.readings, ...previousWindow.readings]);
+      setPartial({ current: currentWindow.partial, previous: previousWindow.partial });
+    } catch (error) {
+      log.error('Error fetching energy readings', error);
+      setReadings([]);
+      setPartial({ current: null, previous: null });
+    } finally {
+      setLoading(false);
+    }
+  }, [deviceId, period]);
+
+  useEffect(() => {
+    fetchReadings();
+  }, [fetchReadings]);
+
+  // Energy for each outlet in the current and previous window
+  const summaries = useMemo(() => {
+    const { current, previous } = getPeriodWindows(period);
+    const { bucketCount } = ENERGY_PERIODS[period];
+    const result: Record<number, { current: EnergySummary; previous: EnergySummary }> = {};
+    ([1, 2] as const).forEach((channel) => {
+      result[channel] = {
+        current: integrateEnergy(readings, channel, current.start, current.end, bucketCount, tariff),
+        previous: integrateEnergy(readings, channel, previous.start, previous.end, bucketCount, tariff),
+      };
+    });
+    return result;
+  }, [readings, period, tariff]);
+
+  const handleSaveTariff = async () => {
+    // Number('') is 0: a cleared field must not save a free rate or a midnight start
+    const parseNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+    const parseRate = (value: string) => {
+      const n = parseNumber(value);
+      return !isNaN(n) && n >= 0 ? n : null;
+    };
+
+    let next: Tariff;
+    if (tariffType === 'flat') {
+      const rate = parseRate(flatRate);
+      if (rate === null) {
+        Alert.alert('Error', 'Please enter a valid rate');
+        return;
+      }
+      next = { type: 'flat', currency: tariff.currency, ratePerKwh: rate };
+    } else {
+      const peak = parseRate(peakRate);
+      const offPeak = parseRate(offPeakRate);
+      const startHour = parseNumber(peakStart);
+      const endHour = parseNumber(peakEnd);
+      if (peak === null || offPeak === null) {
+        Alert.alert('Error', 'Please enter valid peak and off-peak rates');
+        return;
+      }
+      if (!Number.isInteger(startHour) || !Number.isInteger(endHour) || startHour < 0 || startHour > 23 || endHour < 1 || endHour > 24) {
+        Alert.alert('Error', 'Peak hours must be whole hours between 0 and 24');
+        return;
+      }
+      next = {
+        type: 'tou',
+        currency: tariff.currency,
+        defaultRatePerKwh: offPeak,
+        rates: [{ label: 'Peak', startHour, endHour, ratePerKwh: peak }],
+      };
+    }
+
+    await saveTariff(next);
+    setTariff(next);
+    Alert.alert('Success', 'Tariff saved');
+  };
+
+  const selected = summaries[activeChannel];
+  // Comparing a truncated total would report a change that didn't happen
+  const change = selected.previous.kwh > 0 && !partial.current && !partial.previous
+    ? ((selected.current.kwh - selected.previous.kwh) / selected.previous.kwh) * 100
+    : null;
+  const partialLabel = (reason: PartialReason | null) => (reason ? ' (partial)' : '');
+  const loadFailed = partial.current === 'failed' || partial.previous === 'failed';
+
+  const chartBuckets = selected.current.buckets;
+  const labelStep = Math.ceil(chartBuckets.length / 6);
+  const chartData = {
+    labels: chartBuckets.map((b, i) => (i % labelStep === 0 ? formatBucketLabel(b.start, period) : '')),
+    datasets: [{ data: chartBuckets.map((b) => Number(b.kwh.toFixed(4))) }],
+  };
+
+  const chartConfig = {
+    backgroundColor: '#FFFFFF',
+    backgroundGradientFrom: '#FFFFFF',
+    backgroundGradientTo: '#FFFFFF',
+    decimalPlaces: 3,
+    color: (opacity = 1) => `rgba(255, 140, 66, ${opacity})`,
+    labelColor: (opacity = 1) => `rgba(102, 102, 102, ${opacity})`,
+    barPercentage: 0.5,
+  };
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea} edges={['top']}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="arrow-back" size={24} color={COLORS.white} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Energy & Cost</Text>
+          <View style={styles.backButton} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {!deviceId ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="hardware-chip-outline" size={48} color={COLORS.textGray} />
+              <Text style={styles.emptyStateText}>No device connected</Text>
+            </View>
+          ) : (
+            <>
+              {/* Period Selector */}
+              <View style={styles.chipRow}>
+                {(Object.keys(ENERGY_PERIODS) as EnergyPeriod[]).map((p) => (
+                  <TouchableOpacity
+                    key={p}
+                    style={[styles.chip, period === p && styles.chipActive]}
+                    onPress={() => setPeriod(p)}
+                  >
+                    <Text style={[styles.chipText, period === p && styles.chipTextActive]}>
+                      {p.charAt(0).toUpperCase() + p.slice(1)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {/* Outlet Selector */}
+              <View style={styles.chipRow}>
+                {meters.map((meter) => (
+                  <TouchableOpacity
+                    key={meter.powerChannel}
+                    style={[styles.chip, activeChannel === meter.powerChannel && styles.chipActive]}
+                    onPress={() => setSelectedChannel(meter.powerChannel)}
+                  >
+                    <Text style={[styles.chipText, activeChannel === meter.powerChannel && styles.chipTextActive]}>
+                      {meter.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {loading ? (
+                <View style={styles.loadingContainer}>
+                  <ActivityIndicator size="large" color={COLORS.primary} />
+                  <Text style={styles.loadingText}>Calculating energy use...</Text>
+                </View>
+              ) : (
+                <>
+                  {/* Period Comparison */}
+                  <View style={styles.comparisonRow}>
+                    <View style={styles.comparisonCard}>
+                      <Text style={styles.comparisonLabel}>{ENERGY_PERIODS[period].label}{partialLabel(partial.current)}</Text>
+                      <Text style={styles.comparisonValue}>{selected.current.kwh.toFixed(3)} kWh</Text>
+                      <Text style={styles.comparisonCost}>{formatCost(selected.current.cost, tariff)}</Text>
+                    </View>
+                    <View style={styles.comparisonCard}>
+                      <Text style={styles.comparisonLabel}>Previous Period{partialLabel(partial.previous)}</Text>
+                      <Text style={styles.comparisonValue}>{selected.previous.kwh.toFixed(3)} kWh</Text>
+                      <Text style={styles.comparisonCost}>{formatCost(selected.previous.cost, tariff)}</Text>
+                    </View>
+                  </View>
+                  {(partial.current || partial.previous) && (
+                    <View style={styles.partialNotice}>
+                      <Ionicons name="alert-circle-outline" size={18} color={COLORS.danger} />
+                      <Text style={styles.partialText}>
+                        {loadFailed
+                          ? "Couldn't load all readings for this period. Totals marked partial are lower than actual use."
+                          : `Too many readings to load for this period. Totals marked partial only cover the most recent ${MAX_PAGES * PAGE_SIZE} readings and are lower than actual use.`}
+                      </Text>
+                      {loadFailed && (
+                        <TouchableOpacity onPress={fetchReadings} activeOpacity={0.7}>
+                          <Text style={styles.retryText}>Retry</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  )}
+                  {change !== null && (
+                    <View style={styles.changeRow}>
+                      <Ionicons
+                        name={change > 0 ? 'trending-up' : 'trending-down'}
+                        size={18}
+                        color={change > 0 ? COLORS.danger : COLORS.success}
+                      />
+                      <Text style={[styles.changeText, { color: change > 0 ? COLORS.danger : COLORS.success }]}>
+                        {Math.abs(change).toFixed(1)}% {change > 0 ? 'more' : 'less'} than the previous period
+                      </Text>
+                    </View>
+                  )}
+
+                  {/* Consumption Chart */}
+                  <View style={styles.chartCard}>
+                    <Text style={styles.sectionTitle}>Consumption (kWh)</Text>
+                    <BarChart
+                      data={chartData}
+                      width={CHART_WIDTH - 32}
+                      height={200}
+                      chartConfig={chartConfig}
+                      yAxisLabel=""
+                      yAxisSuffix=""
+                      fromZero
+                      withInnerLines={false}
+                      style={styles.chart}
+                    />
+                  </View>
+
+                  {/* Per-outlet Summary */}
+                  <Text style={styles.sectionTitle}>All Outlets{partialLabel(partial.current)}</Text>
+                  {meters.map((meter) => (
+                    <View key={meter.powerChannel} style={styles.outletRow}>
+                      <Ionicons name="flash" size={20} color={COLORS.primary} />
+                      <Text style={styles.outletLabel}>{meter.label}</Text>
+                      <Text style={styles.outletValue}>{summaries[meter.powerChannel].current.kwh.toFixed(3)} kWh</Text>
+                      <Text style={styles.outletCost}>{formatCost(summaries[meter.powerChannel].current.cost, tariff)}</Text>
+                    </View>
+                  ))}
+                </>
+              )}
+
+              {/* Tariff Settings */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Tariff</Text>
+                <View style={styles.chipRow}>
+                  <TouchableOpacity
+                    style={[styles.chip, tariffType === 'flat' && styles.chipActive]}
+                    onPress={() => setTariffType('flat')}
+                  >
+                    <Text style={[styles.chipText, tariffType === 'flat' && styles.chipTextActive]}>Flat</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.chip, tariffType === 'tou' && styles.chipActive]}
+                    onPress={() => setTariffType('tou')}
+                  >
+                    <Text style={[styles.chipText, tariffType === 'tou' && styles.chipTextActive]}>Time of Use</Text>
+                  </TouchableOpacity>
+                </View>
+
+                {tariffType === 'flat' ? (
+                  <View style={styles.inputContainer}>
+                    <Text style={styles.inputLabel}>Rate ({tariff.currency}/kWh)</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={flatRate}
+                      onChangeText={setFlatRate}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                ) : (
+                  <>
+                    <View style={styles.inputContainer}>
+                      <Text style={styles.inputLabel}>Peak rate ({tariff.currency}/kWh)</Text>
+                      <TextInput
+                        style={styles.input}
+                        value={peakRate}
+                        onChangeText={setPeakRate}
+                        keyboardType="decimal-pad"
+                      />
+                    </View>
+                    <View style={styles.inputContainer}>
+                      <Text style={styles.inputLabel}>Off-peak rate ({tariff.currency}/kWh)</Text>
+                      <TextInput
+                        style={styles.input}
+                        value={offPeakRate}
+                        onChangeText={setOffPeakRate}
+                        keyboardType="decimal-pad"
+                      />
+                    </View>
+                    <View style={styles.inputContainer}>
+                      <Text style={styles.inputLabel}>Peak starts (hour)</Text>
+                      <TextInput
+                        style={styles.input}
+                        value={peakStart}
+                        onChangeText={setPeakStart}
+                        keyboardType="number-pad"
+                      />
+                    </View>
+                    <View style={styles.inputContainer}>
+                      <Text style={styles.inputLabel}>Peak ends (hour)</Text>
+                      <TextInput
+                        style={styles.input}
+                        value={peakEnd}
+                        onChangeText={setPeakEnd}
+                        keyboardType="number-pad"
+                      />
+                    </View>
+                  </>
+                )}
+
+                <TouchableOpacity
+                  style={styles.saveButton}
+                  onPress={handleSaveTariff}
+                  activeOpacity={0.9}
+                >
+                  <Text style={styles.saveButtonText}>Save Tariff</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    backgroundColor: COLORS.primary,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.white,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    paddingBottom: 120,
+  },
+  section: {
+    marginTop: 24,
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: COLORS.inputBg,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.textLight,
+  },
+  chipTextActive: {
+    color: COLORS.white,
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: COLORS.textLight,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyStateText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: COLORS.textGray,
+  },
+  comparisonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  comparisonCard: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+    borderRadius: 16,
+    padding: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: COLORS.shadow,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  comparisonLabel: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+  comparisonValue: {
+    marginTop: 6,
+    fontSize: 18,
+    fontWeight: '700',
+    color: COLORS.textDark,
+  },
+  comparisonCost: {
+    marginTop: 2,
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  changeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  changeText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  partialNotice: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 6,
+    marginTop: 12,
+  },
+  partialText: {
+    flex: 1,
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
+  retryText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  chartCard: {
+    marginTop: 20,
+    marginBottom: 20,
+    backgroundColor: COLORS.white,
+    borderRadius: 16,
+    padding: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: COLORS.shadow,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  chart: {
+    borderRadius: 16,
+  },
+  outletRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.inputBg,
+  },
+  outletLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: COLORS.textDark,
+  },
+  outletValue: {
+    fontSize: 14,
+    color: COLORS.textLight,
+  },
+  outletCost: {
+    minWidth: 64,
+    textAlign: 'right',
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  inputContainer: {
+    backgroundColor: COLORS.inputBg,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    marginBottom: 12,
+  },
+  inputLabel: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+  input: {
+    fontSize: 15,
+    color: COLORS.textDark,
+    height: 40,
+  },
+  saveButton: {
+    marginTop: 8,
+    backgroundColor: COLORS.primary,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveButtonText: {
+    color: COLORS.white,
+    fontSize: 17,
+    fontWeight: '600',
+  },
+});
@@ -10,7 +10,7 @@ const COLORS = {
 export default function Index() {
   const { user, loading } = useAuth();
 
-  // Show loading spinner while checking auth
+  // Show loading spinner while the stored session is validated
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -0,0 +1,273 @@
+import { useOutbox } from '@/hooks/useOutbox';
+import { describeMutation, OutboxEntry } from '@/lib/outbox';
+import { outboxService } from '@/services/outbox';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const COLORS = {
+  primary: '#FF8C42',
+  white: '#FFFFFF',
+  inputBg: '#F5F5F5',
+  textGray: '#999999',
+  textDark: '#333333',
+  border: '#E0E0E0',
+  danger: '#F44336',
+};
+
+export default function PendingChangesScreen() {
+  const router = useRouter();
+  const { entries } = useOutbox();
+  const [syncing, setSyncing] = useState(false);
+
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    try {
+      await outboxService.flush();
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleDiscard = (entry: OutboxEntry) => {
+    Alert.alert(
+      'Discard Change',
+      `"${describeMutation(entry)}" will not be sent to the server.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => outboxService.discard(entry.id) },
+      ]
+    );
+  };
+
+  const formatTime = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString([], {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const renderEntry = (entry: OutboxEntry) => {
+    const failed = entry.status === 'failed';
+    return (
+      <View key={entry.id} style={styles.entryCard}>
+        <View style={styles.entryHeader}>
+          <Ionicons
+            name={failed ? 'alert-circle' : 'cloud-upload-outline'}
+            size={22}
+            color={failed ? COLORS.danger : COLORS.primary}
+          />
+          <View style={styles.entryInfo}>
+            <Text style={styles.entryTitle}>{describeMutation(entry)}</Text>
+            <Text style={styles.entryMeta}>
+              {failed ? 'Failed' : 'Waiting to sync'} · {formatTime(entry.createdAt)}
+            </Text>
+            {entry.error ? <Text style={styles.entryError}>{entry.error}</Text> : null}
+          </View>
+        </View>
+        <View style={styles.entryActions}>
+          {failed && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => outboxService.retry(entry.id)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleDiscard(entry)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.discardText}>Discard</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea} edges={['top']}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="arrow-back" size={24} color={COLORS.white} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Pending Changes</Text>
+          <View style={styles.backButton} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {entries.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="checkmark-circle-outline" size={48} color={COLORS.textGray} />
+              <Text style={styles.emptyStateText}>All changes are saved</Text>
+            </View>
+          ) : (
+            <>
+              <Text style={styles.description}>
+                Changes made while offline are sent in order once the server is reachable.
+              </Text>
+              {entries.map(renderEntry)}
+              <TouchableOpacity
+                style={[styles.syncButton, syncing && styles.buttonDisabled]}
+                onPress={handleSyncNow}
+                activeOpacity={0.9}
+                disabled={syncing}
+              >
+                {syncing ? (
+                  <ActivityIndicator color={COLORS.white} />
+                ) : (
+                  <Text style={styles.syncButtonText}>Sync Now</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    backgroundColor: COLORS.primary,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.white,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    paddingBottom: 120,
+  },
+  description: {
+    fontSize: 14,
+    color: COLORS.textGray,
+    marginBottom: 16,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyStateText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: COLORS.textGray,
+  },
+  entryCard: {
+    backgroundColor: COLORS.white,
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginBottom: 12,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+  },
+  entryInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 4,
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: COLORS.textGray,
+  },
+  entryError: {
+    fontSize: 13,
+    color: COLORS.danger,
+    marginTop: 6,
+  },
+  entryActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  discardText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.danger,
+  },
+  syncButton: {
+    backgroundColor: COLORS.primary,
+    paddingVertical: 18,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  syncButtonText: {
+    color: COLORS.white,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
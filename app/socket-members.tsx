@@ -0,0 +1,489 @@
+import { api, ShareRole, Socket, SocketMember } from '@/lib/api';
+import { ASSIGNABLE_ROLES, canManage, getRole, ROLE_DESCRIPTIONS, ROLE_LABELS } from '@/lib/roles';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('app');
+
+const COLORS = {
+  primary: '#FF8C42',
+  white: '#FFFFFF',
+  inputBg: '#F5F5F5',
+  textGray: '#999999',
+  textDark: '#333333',
+  shadow: '#000000',
+  border: '#E0E0E0',
+  danger: '#F44336',
+};
+
+type AssignableRole = Exclude<ShareRole, 'owner'>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Household sharing for one socket: who has access and with which role.
+ * Only the owner can invite, change roles or remove members.
+ */
+export default function SocketMembersScreen() {
+  const router = useRouter();
+  const { socketId, socketName } = useLocalSearchParams<{ socketId: string; socketName?: string }>();
+  const [socket, setSocket] = useState<Socket | null>(null);
+  const [members, setMembers] = useState<SocketMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<AssignableRole>('viewer');
+  const [inviting, setInviting] = useState(false);
+  const [busyMemberId, setBusyMemberId] = useState<string | null>(null);
+
+  const fetchMembers = useCallback(async () => {
+    if (!socketId) return;
+    try {
+      const [socketsRes, membersRes] = await Promise.all([api.getSockets(), api.getSocketMembers(socketId)]);
+      setSocket(socketsRes.data?.sockets.find((s) => s.id === socketId) ?? null);
+      if (membersRes.data) {
+        setMembers(membersRes.data.members);
+      } else if (membersRes.error) {
+        log.error('Error loading members', membersRes.message);
+      }
+    } catch (error) {
+      log.error('Error loading members', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [socketId]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const isOwner = canManage(getRole(socket));
+
+  const handleInvite = async () => {
+    if (!socketId) return;
+    const trimmed = email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(trimmed)) {
+      Alert.alert('Error', 'Please enter a valid email address');
+      return;
+    }
+    if (members.some((m) => m.email.toLowerCase() === trimmed)) {
+      Alert.alert('Error', 'That person already has access or a pending invitation');
+      return;
+    }
+
+    setInviting(true);
+    try {
+      const response = await api.inviteSocketMember(socketId, trimmed, inviteRole);
+      if (response.error) {
+        Alert.alert('Invite Failed', response.message || 'Could not send the invitation');
+        return;
+      }
+      setEmail('');
+      Alert.alert('Invitation Sent', `We emailed an invitation to ${trimmed}.`);
+      await fetchMembers();
+    } catch (error) {
+      log.error('Error inviting member', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleChangeRole = async (member: SocketMember, role: AssignableRole) => {
+    if (!socketId || member.role === role) return;
+
+    setBusyMemberId(member.id);
+    try {
+      const response = await api.updateSocketMember(socketId, member.id, role);
+      if (response.error) {
+        Alert.alert('Error', response.message || 'Failed to change role');
+        return;
+      }
+      setMembers((prev) => prev.map((m) => (m.id === member.id ? { ...m, role } : m)));
+    } catch (error) {
+      log.error('Error updating member', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setBusyMemberId(null);
+    }
+  };
+
+  const performRemove = async (member: SocketMember) => {
+    if (!socketId) return;
+
+    setBusyMemberId(member.id);
+    try {
+      const response = await api.removeSocketMember(socketId, member.id);
+      if (response.error) {
+        Alert.alert('Error', response.message || 'Failed to remove member');
+        return;
+      }
+      setMembers((prev) => prev.filter((m) => m.id !== member.id));
+    } catch (error) {
+      log.error('Error removing member', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setBusyMemberId(null);
+    }
+  };
+
+  const handleRemove = (member: SocketMember) => {
+    const invited = member.status === 'invited';
+    Alert.alert(
+      invited ? 'Cancel Invitation' : 'Remove Member',
+      invited
+        ? `Cancel the invitation to ${member.email}?`
+        : `Remove ${member.fullName || member.email} from this socket? They will lose access immediately.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: invited ? 'Cancel Invitation' : 'Remove', style: 'destructive', onPress: () => performRemove(member) },
+      ]
+    );
+  };
+
+  const renderRoleChips = (selected: ShareRole, onSelect: (role: AssignableRole) => void, disabled: boolean) => (
+    <View style={styles.chipRow}>
+      {ASSIGNABLE_ROLES.map((role) => {
+        const active = selected === role;
+        return (
+          <TouchableOpacity
+            key={role}
+            style={[styles.chip, active && styles.chipActive]}
+            onPress={() => onSelect(role)}
+            activeOpacity={0.7}
+            disabled={disabled}
+          >
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>{ROLE_LABELS[role]}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderMember = (member: SocketMember) => {
+    const busy = busyMemberId === member.id;
+    const editable = isOwner && member.role !== 'owner';
+
+    return (
+      <View key={member.id} style={styles.memberCard}>
+        <View style={styles.memberHeader}>
+          <Ionicons
+            name={member.role === 'owner' ? 'key' : 'person-circle-outline'}
+            size={28}
+            color={COLORS.primary}
+          />
+          <View style={styles.memberInfo}>
+            <Text style={styles.memberName} numberOfLines={1}>{member.fullName || member.email}</Text>
+            {member.fullName ? <Text style={styles.memberEmail} numberOfLines={1}>{member.email}</Text> : null}
+            {member.status === 'invited' && <Text style={styles.invitedText}>Invitation pending</Text>}
+          </View>
+          {busy ? (
+            <ActivityIndicator size="small" color={COLORS.primary} />
+          ) : editable ? (
+            <TouchableOpacity onPress={() => handleRemove(member)} style={styles.removeButton} activeOpacity={0.7}>
+              <Ionicons name="close-circle-outline" size={24} color={COLORS.danger} />
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.roleBadge}>
+              <Text style={styles.roleBadgeText}>{ROLE_LABELS[member.role]}</Text>
+            </View>
+          )}
+        </View>
+        {editable && (
+          <View style={styles.memberRoles}>
+            {renderRoleChips(member.role, (role) => handleChangeRole(member, role), busy)}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea} edges={['top']}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="arrow-back" size={24} color={COLORS.white} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {socket?.name || socketName || 'Members'}
+          </Text>
+          <View style={styles.backButton} />
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={COLORS.primary} />
+          </View>
+        ) : (
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+            refreshControl={
+              <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.primary} />
+            }
+          >
+            {isOwner ? (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Invite Someone</Text>
+                <TextInput
+                  style={styles.input}
+                  value={email}
+                  onChangeText={setEmail}
+                  placeholder="Email address"
+                  placeholderTextColor={COLORS.textGray}
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  editable={!inviting}
+                />
+                {renderRoleChips(inviteRole, setInviteRole, inviting)}
+                <Text style={styles.roleDescription}>{ROLE_DESCRIPTIONS[inviteRole]}</Text>
+                <TouchableOpacity
+                  style={[styles.saveButton, inviting && styles.buttonDisabled]}
+                  onPress={handleInvite}
+                  activeOpacity={0.9}
+                  disabled={inviting}
+                >
+                  {inviting ? (
+                    <ActivityIndicator color={COLORS.white} />
+                  ) : (
+                    <Text style={styles.saveButtonText}>Send Invitation</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View style={styles.noticeCard}>
+                <Ionicons name="information-circle-outline" size={20} color={COLORS.primary} />
+                <Text style={styles.noticeText}>
+                  You are a {ROLE_LABELS[getRole(socket)].toLowerCase()} on this socket. {ROLE_DESCRIPTIONS[getRole(socket)]}.
+                </Text>
+              </View>
+            )}
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Members</Text>
+              {members.length === 0 ? (
+                <Text style={styles.emptyText}>Only you have access to this socket</Text>
+              ) : (
+                members.map(renderMember)
+              )}
+            </View>
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    backgroundColor: COLORS.primary,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.white,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    paddingBottom: 120,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: COLORS.inputBg,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    height: 56,
+    fontSize: 15,
+    color: COLORS.textDark,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: COLORS.inputBg,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  chipTextActive: {
+    color: COLORS.white,
+  },
+  roleDescription: {
+    fontSize: 13,
+    color: COLORS.textGray,
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  noticeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: COLORS.inputBg,
+    marginBottom: 24,
+  },
+  noticeText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: COLORS.textDark,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: COLORS.textGray,
+  },
+  memberCard: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginBottom: 8,
+  },
+  memberHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  memberInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  memberName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  memberEmail: {
+    fontSize: 12,
+    color: COLORS.textGray,
+    marginTop: 2,
+  },
+  invitedText: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: COLORS.primary,
+    marginTop: 2,
+  },
+  removeButton: {
+    padding: 4,
+  },
+  roleBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: COLORS.inputBg,
+  },
+  roleBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  memberRoles: {
+    marginTop: 12,
+  },
+  saveButton: {
+    backgroundColor: COLORS.primary,
+    paddingVertical: 18,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...Platform.select({
+      ios: {
+        shadowColor: COLORS.primary,
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 4,
+      },
+    }),
+  },
+  saveButtonText: {
+    color: COLORS.white,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,323 @@
+import { ThresholdProfile } from '@/lib/api';
+import { DEFAULT_THRESHOLDS, validateThresholds } from '@/lib/thresholds';
+import { thresholdService } from '@/services/thresholds';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('app');
+
+const COLORS = {
+  primary: '#FF8C42',
+  white: '#FFFFFF',
+  inputBg: '#F5F5F5',
+  textGray: '#999999',
+  textDark: '#333333',
+  shadow: '#000000',
+  success: '#4CAF50',
+  danger: '#F44336',
+};
+
+// Form values are kept as strings so partially typed numbers stay editable
+type ThresholdForm = {
+  tempWarm: string;
+  tempHigh: string;
+  movementModerate: string;
+  movementHigh: string;
+  voltageMin: string;
+  voltageMax: string;
+  currentMax: string;
+};
+
+const toForm = (profile: ThresholdProfile): ThresholdForm => ({
+  tempWarm: String(profile.temperature.warm),
+  tempHigh: String(profile.temperature.high),
+  movementModerate: String(profile.movement.moderate),
+  movementHigh: String(profile.movement.high),
+  voltageMin: String(profile.voltage.min),
+  voltageMax: String(profile.voltage.max),
+  currentMax: String(profile.current.max),
+});
+
+const fromForm = (form: ThresholdForm): ThresholdProfile => ({
+  temperature: { warm: Number(form.tempWarm), high: Number(form.tempHigh) },
+  movement: { moderate: Number(form.movementModerate), high: Number(form.movementHigh) },
+  voltage: { min: Number(form.voltageMin), max: Number(form.voltageMax) },
+  current: { max: Number(form.currentMax) },
+});
+
+export default function SocketThresholdsScreen() {
+  const router = useRouter();
+  const { socketId, socketName } = useLocalSearchParams<{ socketId: string; socketName?: string }>();
+  const [form, setForm] = useState<ThresholdForm>(toForm(DEFAULT_THRESHOLDS));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!socketId) return;
+    thresholdService.load()
+      .then(() => setForm(toForm(thresholdService.getProfile(socketId))))
+      .then(() => thresholdService.syncFromBackend(socketId))
+      .then((profile) => setForm(toForm(profile)))
+      .catch((error) => log.error('Error loading thresholds', error))
+      .finally(() => setLoading(false));
+  }, [socketId]);
+
+  const updateField = (field: keyof ThresholdForm) => (value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!socketId) return;
+
+    const profile = fromForm(form);
+    const validationError = validateThresholds(profile);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { synced } = await thresholdService.saveProfile(socketId, profile);
+      Alert.alert(
+        'Success',
+        synced ? 'Thresholds saved' : 'Thresholds saved on this phone. They could not be synced to the server.',
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error) {
+      log.error('Error saving thresholds', error);
+      Alert.alert('Error', 'Failed to save thresholds');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderField = (label: string, field: keyof ThresholdForm, unit: string) => (
+    <View style={styles.fieldRow}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <View style={styles.inputContainer}>
+        <TextInput
+          style={styles.input}
+          value={form[field]}
+          onChangeText={updateField(field)}
+          keyboardType="decimal-pad"
+          editable={!saving}
+        />
+        {unit ? <Text style={styles.unitText}>{unit}</Text> : null}
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea} edges={['top']}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="arrow-back" size={24} color={COLORS.white} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {socketName ? `${socketName} Thresholds` : 'Thresholds'}
+          </Text>
+          <View style={styles.backButton} />
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={COLORS.primary} />
+          </View>
+        ) : (
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Temperature</Text>
+              {renderField('Warm above', 'tempWarm', '°C')}
+              {renderField('High at', 'tempHigh', '°C')}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Movement</Text>
+              {renderField('Moderate at', 'movementModerate', '')}
+              {renderField('High at', 'movementHigh', '')}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Voltage</Text>
+              {renderField('Minimum', 'voltageMin', 'V')}
+              {renderField('Maximum', 'voltageMax', 'V')}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Current</Text>
+              {renderField('Maximum', 'currentMax', 'A')}
+            </View>
+
+            <TouchableOpacity
+              style={styles.resetButton}
+              onPress={() => setForm(toForm(DEFAULT_THRESHOLDS))}
+              activeOpacity={0.7}
+              disabled={saving}
+            >
+              <Text style={styles.resetButtonText}>Reset to Defaults</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.buttonDisabled]}
+              onPress={handleSave}
+              activeOpacity={0.9}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator color={COLORS.white} />
+              ) : (
+                <Text style={styles.saveButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    backgroundColor: COLORS.primary,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.white,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    paddingBottom: 120,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 12,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 15,
+    color: COLORS.textDark,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.inputBg,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    height: 48,
+    width: 140,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    color: COLORS.textDark,
+  },
+  unitText: {
+    fontSize: 14,
+    color: COLORS.textGray,
+    marginLeft: 4,
+  },
+  resetButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  resetButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  saveButton: {
+    backgroundColor: COLORS.primary,
+    paddingVertical: 18,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...Platform.select({
+      ios: {
+        shadowColor: COLORS.primary,
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 4,
+      },
+    }),
+  },
+  saveButtonText: {
+    color: COLORS.white,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,291 @@
+import { useAuth } from '@/contexts/auth-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Redirect, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const COLORS = {
+  primary: '#FF8C42',
+  white: '#FFFFFF',
+  textGray: '#999999',
+  textDark: '#333333',
+  success: '#4CAF50',
+  danger: '#F44336',
+};
+
+// Wait between resends so the inbox isn't flooded
+const RESEND_COOLDOWN_SECONDS = 60;
+
+type LinkState = 'verifying' | 'verified' | 'failed';
+
+/**
+ * Pending-verification screen, and the target of the emailed
+ * apntelemetry://verify-email?token=... link, which completes verification.
+ */
+export default function VerifyEmailScreen() {
+  const router = useRouter();
+  const { token } = useLocalSearchParams<{ token?: string }>();
+  const { user, loading, isEmailVerified, verifyEmail, resendVerification, refreshUser, signOut } = useAuth();
+  const [linkState, setLinkState] = useState<LinkState>('verifying');
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [resending, setResending] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [cooldown, setCooldown] = useState(0);
+  const verifyStartedRef = useRef(false);
+
+  // Opened from the emailed link: complete verification once auth has settled
+  useEffect(() => {
+    if (!token || loading || verifyStartedRef.current) return;
+    verifyStartedRef.current = true;
+
+    verifyEmail(token).then((result) => {
+      if (result.error) {
+        setLinkError(result.message || 'This link is invalid or has expired');
+        setLinkState('failed');
+      } else {
+        setLinkState('verified');
+      }
+    });
+  }, [token, loading, verifyEmail]);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown((c) => c - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const handleResend = async () => {
+    setResending(true);
+    try {
+      const result = await resendVerification();
+      if (result.error) {
+        Alert.alert('Error', result.message || 'Could not resend the verification email');
+        return;
+      }
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+      Alert.alert('Email Sent', `We sent a new verification link to ${user?.email}.`);
+    } finally {
+      setResending(false);
+    }
+  };
+
+  const handleCheckStatus = async () => {
+    setChecking(true);
+    try {
+      await refreshUser();
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleContinue = () => {
+    router.replace((user ? '/(tabs)' : '/(auth)/sign-in') as any);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  // Nothing left to do on the pending screen
+  if (!token && (!user || isEmailVerified)) {
+    return <Redirect href={(user ? '/(tabs)' : '/(auth)/sign-in') as any} />;
+  }
+
+  const renderLinkResult = () => {
+    if (linkState === 'verifying') {
+      return (
+        <>
+          <ActivityIndicator size="large" color={COLORS.primary} />
+          <Text style={styles.subtitle}>Verifying your email...</Text>
+        </>
+      );
+    }
+
+    const verified = linkState === 'verified';
+    return (
+      <>
+        <Ionicons
+          name={verified ? 'checkmark-circle' : 'close-circle'}
+          size={72}
+          color={verified ? COLORS.success : COLORS.danger}
+        />
+        <Text style={styles.title}>{verified ? 'Email Verified' : 'Verification Failed'}</Text>
+        <Text style={styles.subtitle}>
+          {verified
+            ? 'All features are now available.'
+            : linkError}
+        </Text>
+        <TouchableOpacity style={styles.primaryButton} onPress={handleContinue} activeOpacity={0.9}>
+          <Text style={styles.primaryButtonText}>{user ? 'Continue' : 'Sign In'}</Text>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  const renderPending = () => (
+    <>
+      <Ionicons name="mail-unread-outline" size={72} color={COLORS.primary} />
+      <Text style={styles.title}>Verify Your Email</Text>
+      <Text style={styles.subtitle}>
+        We sent a verification link to{'\n'}
+        <Text style={styles.email}>{user?.email}</Text>
+        {'\n'}Open it on this phone to activate device control and socket setup.
+      </Text>
+
+      <TouchableOpacity
+        style={[styles.primaryButton, checking && styles.buttonDisabled]}
+        onPress={handleCheckStatus}
+        activeOpacity={0.9}
+        disabled={checking}
+      >
+        {checking ? (
+          <ActivityIndicator color={COLORS.white} />
+        ) : (
+          <Text style={styles.primaryButtonText}>I&apos;ve Verified</Text>
+        )}
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={[styles.secondaryButton, (resending || cooldown > 0) && styles.buttonDisabled]}
+        onPress={handleResend}
+        activeOpacity={0.7}
+        disabled={resending || cooldown > 0}
+      >
+        {resending ? (
+          <ActivityIndicator size="small" color={COLORS.primary} />
+        ) : (
+          <Text style={styles.secondaryButtonText}>
+            {cooldown > 0 ? `Resend in ${cooldown}s` : 'Resend Email'}
+          </Text>
+        )}
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.linkContainer} onPress={() => router.replace('/(tabs)' as any)} activeOpacity={0.7}>
+        <Text style={styles.linkText}>Skip for now</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.linkContainer} onPress={signOut} activeOpacity={0.7}>
+        <Text style={styles.linkText}>Use a different account</Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea} edges={['top', 'bottom']}>
+        <View style={styles.content}>
+          {token ? renderLinkResult() : renderPending()}
+        </View>
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.white,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 28,
+  },
+  title: {
+    fontSize: 28,
+    fontFamily: 'Poppins-Bold',
+    color: COLORS.primary,
+    marginTop: 24,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 15,
+    fontFamily: 'Poppins-Regular',
+    color: COLORS.textGray,
+    lineHeight: 22,
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 32,
+  },
+  email: {
+    fontFamily: 'Poppins-SemiBold',
+    color: COLORS.textDark,
+  },
+  primaryButton: {
+    alignSelf: 'stretch',
+    backgroundColor: COLORS.primary,
+    paddingVertical: 16,
+    borderRadius: 50,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: {
+          width: 0,
+          height: 4,
+        },
+        shadowOpacity: 0.15,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 6,
+      },
+    }),
+  },
+  primaryButtonText: {
+    color: COLORS.white,
+    fontSize: 17,
+    fontFamily: 'Poppins-SemiBold',
+  },
+  secondaryButton: {
+    alignSelf: 'stretch',
+    paddingVertical: 16,
+    borderRadius: 50,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    color: COLORS.primary,
+    fontSize: 17,
+    fontFamily: 'Poppins-SemiBold',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  linkContainer: {
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  linkText: {
+    fontFamily: 'Poppins-Regular',
+    fontSize: 14,
+    color: COLORS.textGray,
+  },
+});
@@ -0,0 +1,67 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTelemetry } from '@/contexts/telemetry-context';
+import { useConnectionHealth } from '@/hooks/useConnectionHealth';
+
+const COLORS = {
+  offlineBg: '#FDECEA',
+  offlineText: '#C62828',
+  white: '#FFFFFF',
+};
+
+/**
+ * Shown while live updates are down and the socket is retrying, with a button
+ * that skips the backoff. Hidden before the first connection attempt fails.
+ */
+export function ConnectionLostBanner() {
+  const { reconnect } = useTelemetry();
+  const { health, now } = useConnectionHealth();
+
+  if (health.connected || (health.reconnectAttempt === 0 && health.nextReconnectAt === null)) return null;
+
+  const retryIn = health.nextReconnectAt !== null ? Math.ceil((health.nextReconnectAt - now) / 1000) : 0;
+  const label = retryIn > 0 ? `Live updates disconnected · Retrying in ${retryIn}s` : 'Live updates disconnected · Reconnecting...';
+
+  return (
+    <View style={styles.banner}>
+      <Ionicons name="pulse-outline" size={16} color={COLORS.offlineText} />
+      <Text style={styles.text} numberOfLines={1}>{label}</Text>
+      <TouchableOpacity style={styles.button} onPress={reconnect} activeOpacity={0.7}>
+        <Text style={styles.buttonText}>Reconnect</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 12,
+    marginHorizontal: 24,
+    marginTop: 12,
+    backgroundColor: COLORS.offlineBg,
+  },
+  text: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 13,
+    fontWeight: '500',
+    color: COLORS.offlineText,
+  },
+  button: {
+    marginLeft: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: COLORS.offlineText,
+  },
+  buttonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.white,
+  },
+});
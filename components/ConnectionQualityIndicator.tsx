@@ -0,0 +1,79 @@
+import React from 'react';
+import { Alert, StyleProp, StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { useTelemetry } from '@/contexts/telemetry-context';
+import { useConnectionHealth } from '@/hooks/useConnectionHealth';
+import { ConnectionQuality, formatMessageAge, QUALITY_LABELS } from '@/lib/connection-health';
+
+const COLORS = {
+  white: '#FFFFFF',
+  pillBg: 'rgba(255, 255, 255, 0.2)',
+};
+
+const QUALITY_COLORS: Record<ConnectionQuality, string> = {
+  good: '#4CAF50',
+  fair: '#FFC107',
+  poor: '#F44336',
+  offline: '#9E9E9E',
+};
+
+interface ConnectionQualityIndicatorProps {
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Live connection pill for the orange screen headers: quality dot plus RTT.
+ * Tapping it shows round-trip time and how long ago the server last spoke,
+ * and offers a reconnect while offline.
+ */
+export function ConnectionQualityIndicator({ style }: ConnectionQualityIndicatorProps) {
+  const { health, quality, now } = useConnectionHealth();
+  const { reconnect } = useTelemetry();
+
+  const label = quality === 'offline'
+    ? QUALITY_LABELS.offline
+    : health.rttMs !== null ? `${health.rttMs} ms` : QUALITY_LABELS[quality];
+
+  const showDetails = () => {
+    Alert.alert(
+      `Connection: ${QUALITY_LABELS[quality]}`,
+      [
+        `Round trip: ${health.rttMs !== null ? `${health.rttMs} ms` : 'not measured yet'}`,
+        `Last message: ${formatMessageAge(health.lastMessageAt, now)}`,
+        health.missedHeartbeats > 0 ? `Missed heartbeats: ${health.missedHeartbeats}` : null,
+        health.reconnectAttempt > 0 ? `Reconnect attempts: ${health.reconnectAttempt}` : null,
+      ].filter(Boolean).join('\n'),
+      quality === 'offline'
+        ? [{ text: 'Close', style: 'cancel' }, { text: 'Reconnect', onPress: reconnect }]
+        : undefined
+    );
+  };
+
+  return (
+    <TouchableOpacity style={[styles.pill, style]} onPress={showDetails} activeOpacity={0.7}>
+      <View style={[styles.dot, { backgroundColor: QUALITY_COLORS[quality] }]} />
+      <Text style={styles.text}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: COLORS.pillBg,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  text: {
+    marginLeft: 6,
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.white,
+  },
+});
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DataFreshness } from '@/lib/api';
+
+const COLORS = {
+  offlineBg: '#FDECEA',
+  offlineText: '#C62828',
+  staleBg: '#FFF4E5',
+  staleText: '#B26A00',
+};
+
+// Re-render often enough for "X min ago" to stay accurate
+const TICK_MS = 30000;
+
+/**
+ * Formats a timestamp relative to now, e.g. "just now", "5 min ago", "2 h ago"
+ */
+const formatTimeAgo = (timestamp: string, now: number): string => {
+  const seconds = Math.max(0, Math.floor((now - new Date(timestamp).getTime()) / 1000));
+  if (seconds < 60) return 'just now';
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+};
+
+interface DataFreshnessBannerProps {
+  freshness: DataFreshness;
+}
+
+/**
+ * Shows how old the rendered data is while it comes from the offline cache.
+ * Hidden once the server has answered.
+ */
+export function DataFreshnessBanner({ freshness }: DataFreshnessBannerProps) {
+  const [now, setNow] = useState(Date.now());
+  const visible = freshness.offline || freshness.fromCache;
+
+  useEffect(() => {
+    if (!visible) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [visible]);
+
+  if (!visible) return null;
+
+  const updated = freshness.updatedAt ? `Last updated ${formatTimeAgo(freshness.updatedAt, now)}` : 'No saved data';
+  const label = freshness.offline ? `Offline · ${updated}` : `${updated} · Refreshing...`;
+
+  return (
+    <View style={[styles.banner, freshness.offline ? styles.offline : styles.stale]}>
+      <Ionicons
+        name={freshness.offline ? 'cloud-offline-outline' : 'time-outline'}
+        size={16}
+        color={freshness.offline ? COLORS.offlineText : COLORS.staleText}
+      />
+      <Text style={[styles.text, { color: freshness.offline ? COLORS.offlineText : COLORS.staleText }]}>
+        {label}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 12,
+    marginHorizontal: 24,
+    marginTop: 12,
+  },
+  offline: {
+    backgroundColor: COLORS.offlineBg,
+  },
+  stale: {
+    backgroundColor: COLORS.staleBg,
+  },
+  text: {
+    marginLeft: 8,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
@@ -1,4 +1,6 @@
-import { SensorReading } from '@/lib/api';
+import { SensorReading, ThresholdProfile } from '@/lib/api';
+import { DEFAULT_THRESHOLDS } from '@/lib/thresholds';
+import { createDefaultChannelMap, OutletChannelConfig } from '@/lib/channel-map';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useState } from 'react';
 import {
@@ -17,14 +19,20 @@ const { width } = Dimensions.get('window');
 const CHART_WIDTH = width - 80;
 
 interface OutletChartProps {
-  outletNumber: 1 | 2;
+  outletNumber: number;
+  // Sensors this outlet reads from (standard 2-outlet layout when omitted)
+  channels?: OutletChannelConfig;
   deviceId: string;
   readings: SensorReading[];
   loading?: boolean;
+  thresholds?: ThresholdProfile;
 }
 
-export function OutletChart({ outletNumber, deviceId, readings, loading }: OutletChartProps) {
+export function OutletChart({ outletNumber, channels, deviceId, readings, loading, thresholds = DEFAULT_THRESHOLDS }: OutletChartProps) {
   const [selectedChart, setSelectedChart] = useState<'water' | 'temperature'>('water');
+  const outletChannels = channels
+    ?? createDefaultChannelMap().outlets.find((o) => o.outletNumber === outletNumber)
+    ?? createDefaultChannelMap().outlets[0];
 
   if (loading) {
     return (
@@ -73,7 +81,7 @@ export function OutletChart({ outletNumber, deviceId, readings, loading }: Outle
     return labels.filter((_, i) => i % step === 0);
   };
 
-  // Prepare data for charts - now zone-based detection (boolean: 0 or 1)
+  // Prepare data for charts - outlet-level detection (boolean: 0 or 1, wet if any mapped sensor is wet)
   const prepareWaterData = () => {
     const recentReadings = chartReadings.slice(0, 30).reverse();
     const labels: string[] = [];
@@ -87,19 +95,12 @@ export function OutletChart({ outletNumber, deviceId, readings, loading }: Outle
         : `${date.getMonth() + 1}/${date.getDate()}`;
       labels.push(label);
 
-      // Water detection is zone-based: both sensors in a zone have the same value (0 or 1)
-      // Zone 1: water[0] and water[1], Zone 2: water[2] and water[3]
-      if (outletNumber === 1) {
-        // Zone 1 detection (use first value, both are the same)
-        const w0 = Array.isArray(reading.water) ? reading.water[0] : null;
-        const val = w0 === 1 || String(w0) === '1' ? 1 : 0;
-        zoneData.push(val);
-      } else {
-        // Zone 2 detection (use first value of zone 2, both are the same)
-        const w2 = Array.isArray(reading.water) ? reading.water[2] : null;
-        const val = w2 === 1 || String(w2) === '1' ? 1 : 0;
-        zoneData.push(val);
-      }
+      // Water sensors come from the outlet's channel map
+      const wet = outletChannels.waterSensors.some((i) => {
+        const value = Array.isArray(reading.water) ? reading.water[i] : null;
+        return value === 1 || String(value) === '1';
+      });
+      zoneData.push(wet ? 1 : 0);
     });
 
     return {
@@ -128,9 +129,9 @@ export function OutletChart({ outletNumber, deviceId, readings, loading }: Outle
       labels.push(label);
 
       let tempVal: any = 0;
-      if (outletNumber === 1) {
+      if (outletChannels.temperatureProbe === 1) {
         tempVal = reading.temperature?.temp1 ?? reading.temp1 ?? 0;
-      } else {
+      } else if (outletChannels.temperatureProbe === 2) {
         tempVal = reading.temperature?.temp2 ?? reading.temp2 ?? 0;
       }
       const numeric = typeof tempVal === 'number' ? tempVal : Number(tempVal);
@@ -145,6 +146,19 @@ export function OutletChart({ outletNumber, deviceId, readings, loading }: Outle
           color: (opacity = 1) => `rgba(244, 67, 54, ${opacity})`, // Red for temperature
           strokeWidth: 2,
         },
+        // Flat threshold lines from the socket's profile
+        {
+          data: tempData.map(() => thresholds.temperature.warm),
+          color: (opacity = 1) => `rgba(255, 152, 0, ${opacity})`, // Orange for warm
+          strokeWidth: 1,
+          withDots: false,
+        },
+        {
+          data: tempData.map(() => thresholds.temperature.high),
+          color: (opacity = 1) => `rgba(183, 28, 28, ${opacity})`, // Dark red for high
+          strokeWidth: 1,
+          withDots: false,
+        },
       ],
     };
   };
@@ -163,9 +177,11 @@ export function OutletChart({ outletNumber, deviceId, readings, loading }: Outle
   const getChartTitle = () => {
     switch (selectedChart) {
       case 'water':
-        return `Water Detection - Zone ${outletNumber}`;
+        return `Water Detection - ${outletChannels.name}`;
       case 'temperature':
-        return `Temperature (Sensor ${outletNumber})`;
+        return outletChannels.temperatureProbe !== null
+          ? `Temperature (Sensor ${outletChannels.temperatureProbe})`
+          : 'Temperature (No Sensor)';
       default:
         return 'Chart';
     }
@@ -264,7 +280,21 @@ export function OutletChart({ outletNumber, deviceId, readings, loading }: Outle
         <View style={styles.legend}>
           <View style={styles.legendItem}>
             <View style={[styles.legendDot, { backgroundColor: '#2196F3' }]} />
-            <Text style={styles.legendText}>Zone {outletNumber} Detection</Text>
+            <Text style={styles.legendText}>{outletChannels.name} Detection</Text>
+          </View>
+        </View>
+      )}
+
+      {/* Legend for Temperature Chart */}
+      {selectedChart === 'temperature' && (
+        <View style={styles.legend}>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: '#FF9800' }]} />
+            <Text style={styles.legendText}>Warm ({thresholds.temperature.warm}°C)</Text>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: '#B71C1C' }]} />
+            <Text style={styles.legendText}>High ({thresholds.temperature.high}°C)</Text>
           </View>
         </View>
       )}
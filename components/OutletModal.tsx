@@ -19,11 +19,15 @@ import Animated, {
   interpolate,
   Extrapolate,
 } from 'react-native-reanimated';
-import { OutletData, getWaterStatus, getTempStatus, getMovementStatus, getOutletName } from '@/lib/outlet-utils';
+import { OutletData, getWaterStatus, getTempStatus, getMovementStatus, getOutletName, getOutletPower } from '@/lib/outlet-utils';
 import { AnimatedGauge } from './AnimatedGauge';
 import { api } from '@/lib/api';
 import { splitSensorDataByOutlet } from '@/lib/outlet-utils';
+import { breakerStateStore } from '@/services/breaker-states';
+import { channelMapService } from '@/services/channel-maps';
+import { createLogger } from '@/services/logger';
 
+const log = createLogger('app');
 
 const COLORS = {
   primary: '#FF8C42',
@@ -40,7 +44,7 @@ const COLORS = {
 
 interface OutletModalProps {
   visible: boolean;
-  outletNumber: 1 | 2;
+  outletNumber: number;
   onClose: () => void;
   initialOutletData?: OutletData | null;
 }
@@ -95,12 +99,16 @@ export function OutletModal({
     try {
       const response = await api.getLatestSensorReading();
       if (response.data?.reading) {
-        const [outlet1, outlet2] = splitSensorDataByOutlet(response.data.reading, true, true);
-        const data = outletNumber === 1 ? outlet1 : outlet2;
-        setOutletData(data);
+        const reading = response.data.reading;
+        const outlets = splitSensorDataByOutlet(
+          reading,
+          breakerStateStore.getStates(reading.deviceId),
+          channelMapService.getMap(reading.deviceId)
+        );
+        setOutletData(outlets.find((o) => o.outletNumber === outletNumber) ?? null);
       }
     } catch (error) {
-      console.error('Error fetching outlet data:', error);
+      log.error('Error fetching outlet data', error);
     } finally {
       setLoading(false);
     }
@@ -148,6 +156,7 @@ export function OutletModal({
   const waterStatus = outletData ? getWaterStatus(outletData.waterSensors) : { status: 'N/A', color: COLORS.textLight };
   const tempStatus = outletData ? getTempStatus(outletData.temperature) : { status: 'N/A', color: COLORS.textLight };
   const movementStatus = outletData ? getMovementStatus(outletData.movement) : { status: 'N/A', color: COLORS.textLight };
+  const outletWatts = outletData ? getOutletPower(outletData).watts : null;
 
   return (
     <Modal
@@ -167,7 +176,7 @@ export function OutletModal({
           <View style={styles.header}>
             <View style={styles.headerContent}>
               <Text style={styles.headerTitle}>
-                {getOutletName(outletNumber)} Outlet
+                {outletData?.name ?? getOutletName(outletNumber)} Outlet
               </Text>
               <Text style={styles.headerSubtitle}>Outlet {outletNumber}</Text>
             </View>
@@ -204,7 +213,7 @@ export function OutletModal({
                 </View>
               </Animated.View>
               <Text style={styles.outletVisualLabel}>
-                {getOutletName(outletNumber)} Outlet
+                {outletData?.name ?? getOutletName(outletNumber)} Outlet
               </Text>
               {outletData && (
                 <View style={styles.outletStatusRow}>
@@ -215,10 +224,10 @@ export function OutletModal({
                       color={outletData.breakerState ? COLORS.success : COLORS.textLight}
                     />
                     <Text style={styles.outletStatusText}>
-                      {outletData.breakerState ? 'ON' : 'OFF'}
+                      {outletData.breakerState === null ? 'Unknown' : outletData.breakerState ? 'ON' : 'OFF'}
                     </Text>
                   </View>
-                  {outletData.power && (
+                  {outletData.power?.supply && (
                     <View style={styles.outletStatusItem}>
                       <Ionicons
                         name="flash"
@@ -226,7 +235,19 @@ export function OutletModal({
                         color={COLORS.primary}
                       />
                       <Text style={styles.outletStatusText}>
-                        {outletData.power === 'MAIN' ? 'Main' : 'Backup'}
+                        {outletData.power.supply === 'MAIN' ? 'Main' : 'Backup'}
+                      </Text>
+                    </View>
+                  )}
+                  {outletWatts !== null && (
+                    <View style={styles.outletStatusItem}>
+                      <Ionicons
+                        name="speedometer-outline"
+                        size={20}
+                        color={COLORS.primary}
+                      />
+                      <Text style={styles.outletStatusText}>
+                        {outletWatts.toFixed(0)}W
                       </Text>
                     </View>
                   )}
@@ -1,5 +1,7 @@
 import { api, SensorReading } from '@/lib/api';
-import { useWebSocket } from '@/hooks/useWebSocket';
+import { getAveragePower, mergeReadings, normalizeTelemetry } from '@/lib/telemetry';
+import { TelemetryMessage, useWebSocket } from '@/hooks/useWebSocket';
+import { createLogger } from '@/services/logger';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useEffect, useState, useCallback } from 'react';
 import {
@@ -15,6 +17,7 @@ import {
 import { LineChart } from 'react-native-chart-kit';
 
 const { width } = Dimensions.get('window');
+const log = createLogger('app');
 const CHART_WIDTH = width - 80;
 
 interface OverallAnalyticsProps {
@@ -27,140 +30,31 @@ export function OverallAnalytics({ deviceId, isPowerTripped = false }: OverallAn
   const [loading, setLoading] = useState(true);
   const [selectedChart, setSelectedChart] = useState<'movement' | 'gas' | 'voltage' | 'current'>('movement');
 
-  // Transform WebSocket telemetry message to SensorReading format
-  const transformTelemetryToReading = useCallback((telemetryData: {
-    deviceId: string;
-    messageType: string;
-    payload: any;
-    receivedAt: string;
-  }): SensorReading | null => {
-    // Handle both sensor_reading and power_status messages (power_status contains full sensor data)
-    if (telemetryData.messageType !== 'sensor_reading' && 
-        telemetryData.messageType !== 'power_status') {
-      return null;
-    }
+  // Handle real-time WebSocket telemetry messages
+  const handleTelemetry = useCallback((telemetryData: TelemetryMessage) => {
+    // The subscription only delivers this device's sensor_reading and power_status messages
+    // power_status messages contain full sensor data including voltage and current
+    const newReading = normalizeTelemetry(telemetryData);
 
-    const payload = telemetryData.payload;
-    console.log(`🔍 Analytics: Transforming ${telemetryData.messageType} payload:`, {
-      water: payload.water,
-      gas: payload.gas,
-      temperature: payload.temperature,
-      gyro: payload.gyro,
-      power: payload.power ? 'object' : payload.power_status,
-    });
-    
-    // Convert water array: handle both boolean arrays and number arrays
-    let waterArray: [number | null, number | null, number | null, number | null] = [null, null, null, null];
-    if (Array.isArray(payload.water)) {
-      waterArray = payload.water.map((w: any) => {
-        if (typeof w === 'boolean') {
-          return w ? 1 : 0;
-        }
-        if (typeof w === 'number') {
-          return w;
-        }
-        return null;
-      }) as [number | null, number | null, number | null, number | null];
-    }
-    
-    // Handle power object - extract voltage and current if available
-    // The power field in SensorReading is a string, but we'll store the power object as JSON string
-    // or extract a summary. For now, store as JSON string if it's an object.
-    let powerValue: string | null = null;
-    if (payload.power) {
-      if (typeof payload.power === 'object') {
-        // Store power object as JSON string, or create a summary
-        // For voltage/current, we'll extract them separately if needed
-        powerValue = JSON.stringify(payload.power);
-      } else {
-        powerValue = payload.power;
-      }
-    } else if (
-      payload.voltage1 !== undefined ||
-      payload.voltage2 !== undefined ||
-      payload.voltage !== undefined ||
-      payload.current1 !== undefined ||
-      payload.current2 !== undefined
-    ) {
-      powerValue = JSON.stringify({
-        voltage1: payload.voltage1,
-        voltage2: payload.voltage2,
-        voltage: payload.voltage,
-        current1: payload.current1,
-        current2: payload.current2,
-        current: payload.current,
-        v1_raw: payload.v1_raw ?? payload.voltage1_raw,
-        v2_raw: payload.v2_raw ?? payload.voltage2_raw,
-      });
-    } else if (payload.power_status) {
-      powerValue = payload.power_status;
+    if (newReading) {
+      // Most recent first, last 100 readings; a reading within 1 second of one we have is a duplicate
+      setReadings((prevReadings) => mergeReadings(prevReadings, [newReading], 100));
+    } else {
+      log.warn(`Analytics: could not normalize ${telemetryData.messageType} from ${telemetryData.deviceId}`);
     }
-    
-    return {
-      id: `${telemetryData.deviceId}_${Date.now()}_${Math.random()}`,
-      deviceId: telemetryData.deviceId,
-      water: waterArray,
-      gas: payload.gas !== undefined ? Boolean(payload.gas) : false,
-      temperature: {
-        temp1: payload.temperature?.temp1 ?? payload.temp_1 ?? null,
-        temp2: payload.temperature?.temp2 ?? payload.temp_2 ?? null,
-      },
-      gyro: {
-        movement: payload.gyro?.movement ?? payload.movement ?? null,
-      },
-      power: powerValue,
-      receivedAt: telemetryData.receivedAt || new Date().toISOString(),
-    };
   }, []);
 
-  // Handle real-time WebSocket telemetry messages
-  const handleTelemetry = useCallback((telemetryData: {
-    deviceId: string;
-    messageType: string;
-    payload: any;
-    receivedAt: string;
-  }) => {
-    // Process both sensor_reading and power_status messages for the current device
-    // power_status messages contain full sensor data including voltage and current
-    if ((telemetryData.messageType === 'sensor_reading' || 
-         telemetryData.messageType === 'power_status') && 
-        telemetryData.deviceId === deviceId) {
-      
-      console.log(`📊 Analytics: Received ${telemetryData.messageType} from ${telemetryData.deviceId}`);
-      
-      const newReading = transformTelemetryToReading(telemetryData);
-      
-      if (newReading) {
-        console.log(`✅ Analytics: Transformed reading - movement: ${newReading.gyro?.movement}, gas: ${newReading.gas}, temp: ${newReading.temperature.temp1}/${newReading.temperature.temp2}`);
-        
-        setReadings((prevReadings) => {
-          // Check if we already have a reading with the same timestamp (avoid duplicates)
-          // Use a more lenient check - allow readings within 1 second to avoid exact timestamp duplicates
-          const newTimestamp = new Date(newReading.receivedAt).getTime();
-          const isDuplicate = prevReadings.some((r) => {
-            const rTimestamp = new Date(r.receivedAt).getTime();
-            return Math.abs(newTimestamp - rTimestamp) < 1000 && r.deviceId === newReading.deviceId;
-          });
-          
-          if (isDuplicate) {
-            console.log('⚠️ Analytics: Duplicate reading detected, skipping');
-            return prevReadings;
-          }
-          
-          // Prepend new reading (most recent first) and limit to last 100 readings
-          const updated = [newReading, ...prevReadings];
-          console.log(`📈 Analytics: Updated readings count: ${updated.length}`);
-          return updated.slice(0, 100);
-        });
-      } else {
-        console.warn('⚠️ Analytics: Failed to transform telemetry data');
-      }
-    }
-  }, [deviceId, transformTelemetryToReading]);
+  // Fill in readings sent while the connection was down
+  const handleBackfill = useCallback((backfilled: SensorReading[]) => {
+    setReadings((prevReadings) => mergeReadings(prevReadings, backfilled, 100));
+  }, []);
 
-  // Initialize WebSocket with telemetry callback
+  // Subscribe to this device's readings on the shared WebSocket connection
   useWebSocket({
     onTelemetry: handleTelemetry,
+    onBackfill: handleBackfill,
+    deviceId,
+    messageTypes: ['sensor_reading', 'power_status'],
   });
 
   // Fetch initial historical data
@@ -177,7 +71,7 @@ export function OverallAnalytics({ deviceId, isPowerTripped = false }: OverallAn
           setReadings(response.data.readings);
         }
       } catch (error) {
-        console.error('Error fetching analytics:', error);
+        log.error('Error fetching analytics', error);
       } finally {
         setLoading(false);
       }
@@ -212,35 +106,6 @@ export function OverallAnalytics({ deviceId, isPowerTripped = false }: OverallAn
     );
   }
 
-  // Helper function to extract voltage and current from power object
-  const extractPowerData = (power: string | null): { voltage: number | null; current: number | null } => {
-    if (!power) return { voltage: null, current: null };
-    
-    try {
-      // Power might be a JSON string or a plain string
-      const powerObj = typeof power === 'string' ? JSON.parse(power) : power;
-      
-      if (typeof powerObj === 'object' && powerObj !== null) {
-        // Extract voltage (average of voltage1 and voltage2, or use voltage1 if voltage2 is 0)
-        const v1 = powerObj.voltage1 ?? 0;
-        const v2 = powerObj.voltage2 ?? 0;
-        const voltage = v1 > 0 || v2 > 0 ? (v1 + v2) / 2 : null;
-        
-        // Extract current (average of current1 and current2)
-        const c1 = powerObj.current1 ?? 0;
-        const c2 = powerObj.current2 ?? 0;
-        const current = c1 > 0 || c2 > 0 ? (c1 + c2) / 2 : null;
-        
-        return { voltage, current };
-      }
-    } catch (e) {
-      // If parsing fails, power is likely a plain string
-      console.debug('Power data is not JSON:', e);
-    }
-    
-    return { voltage: null, current: null };
-  };
-
   // Calculate statistics
   const calculateStats = () => {
     const movementValues: number[] = [];
@@ -254,8 +119,8 @@ export function OverallAnalytics({ deviceId, isPowerTripped = false }: OverallAn
       // Gas detection (1 for detected, 0 for not detected)
       gasDetections.push(reading.gas ? 1 : 0);
 
-      // Extract real voltage and current from MQTT power object
-      const { voltage, current } = extractPowerData(reading.power);
+      // Voltage and current averaged over the live power channels
+      const { voltage, current } = getAveragePower(reading.power);
 
       if (isPowerTripped) {
         // When power is tripped, explicitly record zeroes
@@ -365,8 +230,8 @@ export function OverallAnalytics({ deviceId, isPowerTripped = false }: OverallAn
         : `${date.getMonth() + 1}/${date.getDate()}`;
       labels.push(label);
       
-      // Extract real voltage data from MQTT power object
-      const { voltage } = extractPowerData(reading.power);
+      // Voltage averaged over the live power channels
+      const { voltage } = getAveragePower(reading.power);
       if (isPowerTripped) {
         voltageData.push(0);
       } else if (voltage !== null) {
@@ -409,8 +274,8 @@ export function OverallAnalytics({ deviceId, isPowerTripped = false }: OverallAn
         : `${date.getMonth() + 1}/${date.getDate()}`;
       labels.push(label);
       
-      // Extract real current data from power object
-      const { current } = extractPowerData(reading.power);
+      // Current averaged over the live power channels
+      const { current } = getAveragePower(reading.power);
       if (isPowerTripped) {
         currentData.push(0);
       } else if (current !== null) {
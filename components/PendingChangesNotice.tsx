@@ -0,0 +1,63 @@
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity, StyleProp, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useOutbox } from '@/hooks/useOutbox';
+
+const COLORS = {
+  pendingBg: '#FFF4E5',
+  pendingText: '#B26A00',
+  failedBg: '#FDECEA',
+  failedText: '#C62828',
+};
+
+interface PendingChangesNoticeProps {
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Tappable notice for changes made offline that haven't reached the server.
+ * Opens the pending changes list; hidden when the outbox is empty.
+ */
+export function PendingChangesNotice({ style }: PendingChangesNoticeProps) {
+  const router = useRouter();
+  const { failedCount, pendingCount } = useOutbox();
+
+  if (failedCount === 0 && pendingCount === 0) return null;
+
+  const failed = failedCount > 0;
+  const color = failed ? COLORS.failedText : COLORS.pendingText;
+  const label = failed
+    ? `${failedCount} change${failedCount === 1 ? '' : 's'} couldn't be saved`
+    : `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync`;
+
+  return (
+    <TouchableOpacity
+      style={[styles.notice, { backgroundColor: failed ? COLORS.failedBg : COLORS.pendingBg }, style]}
+      onPress={() => router.push('/pending-changes' as any)}
+      activeOpacity={0.8}
+    >
+      <Ionicons name={failed ? 'alert-circle-outline' : 'cloud-upload-outline'} size={16} color={color} />
+      <Text style={[styles.text, { color }]}>{label}</Text>
+      <Ionicons name="chevron-forward" size={16} color={color} />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 12,
+    marginHorizontal: 24,
+    marginTop: 12,
+  },
+  text: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/auth-context';
+
+const COLORS = {
+  background: '#FFF4E5',
+  text: '#B26A00',
+};
+
+/**
+ * Reminds unverified users that device control and socket setup are locked.
+ * Opens the pending-verification screen; hidden once verified.
+ */
+export function VerifyEmailNotice() {
+  const router = useRouter();
+  const { user, isEmailVerified } = useAuth();
+
+  if (!user || isEmailVerified) return null;
+
+  return (
+    <TouchableOpacity
+      style={styles.notice}
+      onPress={() => router.push('/verify-email' as any)}
+      activeOpacity={0.8}
+    >
+      <Ionicons name="mail-unread-outline" size={16} color={COLORS.text} />
+      <Text style={styles.text}>Verify your email to control devices</Text>
+      <Ionicons name="chevron-forward" size={16} color={COLORS.text} />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 12,
+    marginHorizontal: 24,
+    marginTop: 12,
+    backgroundColor: COLORS.background,
+  },
+  text: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 13,
+    fontWeight: '500',
+    color: COLORS.text,
+  },
+});
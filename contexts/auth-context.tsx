@@ -1,22 +1,37 @@
 import { api } from '@/lib/api';
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import { createLogger } from '@/services/logger';
+import { outboxService } from '@/services/outbox';
+import { sessionService } from '@/services/session';
+import { thresholdService } from '@/services/thresholds';
+import { useGlobalSearchParams, usePathname, useRouter } from 'expo-router';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+
+const log = createLogger('auth');
+
+// Screens that make no sense to return to after signing in again
+const NO_RETURN_PATHS = ['/', '/sign-in', '/register', '/forgot-password', '/reset-password', '/welcome'];
 
 interface User {
   id: string;
   email: string;
   fullName?: string;
   createdAt?: string;
+  emailVerified?: boolean;
 }
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  isEmailVerified: boolean;
   signUp: (email: string, password: string, fullName?: string) => Promise<{ error?: string; message?: string }>;
-  signIn: (email: string, password: string) => Promise<{ error?: string; message?: string }>;
+  // switchedAccount: a different user signed in after the session expired (don't resume their screen)
+  signIn: (email: string, password: string) => Promise<{ error?: string; message?: string; switchedAccount?: boolean }>;
   signOut: () => Promise<void>;
   refreshUser: () => Promise<void>;
   updateProfile: (fullName: string) => Promise<{ error?: string; message?: string }>;
   changePassword: (oldPassword: string, newPassword: string) => Promise<{ error?: string; message?: string }>;
+  verifyEmail: (token: string) => Promise<{ error?: string; message?: string }>;
+  resendVerification: () => Promise<{ error?: string; message?: string }>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -24,29 +39,85 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const router = useRouter();
+  const userRef = useRef<User | null>(null);
+  userRef.current = user;
+  // Account whose session expired, until someone signs in again
+  const expiredUserIdRef = useRef<string | null>(null);
+
+  // Where the user was, so sign-in can bring them back after the session expires
+  const pathname = usePathname();
+  const searchParams = useGlobalSearchParams();
+  const currentRouteRef = useRef('');
+  const query = new URLSearchParams(
+    Object.entries(searchParams).flatMap(([key, value]) => (Array.isArray(value) ? value : [value]).map((v) => [key, String(v)]))
+  ).toString();
+  currentRouteRef.current = query ? `${pathname}?${query}` : pathname;
+
+  // Accounts from before verification existed don't report the flag; treat them as verified
+  const isEmailVerified = user?.emailVerified !== false;
 
   // Check authentication status on mount
   useEffect(() => {
     checkAuth();
   }, []);
 
+  // Route back to sign-in when the API client can no longer refresh the session
+  useEffect(() => {
+    const unsubscribe = api.onSessionExpired(() => {
+      if (!userRef.current) return;
+      log.warn('Session expired, returning to sign-in');
+      expiredUserIdRef.current = userRef.current.id;
+      setUser(null);
+      const returnTo = currentRouteRef.current;
+      const canReturn = !NO_RETURN_PATHS.includes(returnTo.split('?')[0]);
+      router.replace({
+        pathname: '/(auth)/sign-in',
+        params: canReturn ? { reason: 'expired', returnTo } : { reason: 'expired' },
+      } as any);
+    });
+    return unsubscribe;
+  }, [router]);
+
+  // Replay offline changes, keep the token renewed and check live readings against
+  // threshold profiles only while someone is signed in
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    outboxService.start(userId);
+    sessionService.start();
+    thresholdService.start();
+    return () => {
+      outboxService.stop();
+      sessionService.stop();
+      thresholdService.stop();
+    };
+  }, [userId]);
+
+  // loading stays true until the stored session is validated (and renewed if it expired)
   const checkAuth = async () => {
     try {
-      const isAuth = await api.isAuthenticated();
-      
-      if (isAuth) {
-        const response = await api.getCurrentUser();
-        
-        if (response.data?.user) {
-          setUser(response.data.user);
-        } else {
-          setUser(null);
-        }
-      } else {
+      const status = await api.validateSession();
+      log.info(`Stored session: ${status}`);
+
+      if (status === 'none' || status === 'expired') {
         setUser(null);
+        return;
+      }
+
+      // Offline, this is the profile saved at the last successful check
+      const response = await api.getCurrentUser();
+      if (response.data?.user) {
+        setUser(response.data.user);
+      } else if (response.error === 'Session expired') {
+        setUser(null);
+      } else {
+        // Server error rather than a rejected token: keep whoever was signed in
+        const cached = await api.getCurrentUser({ fromCache: true });
+        setUser(cached.data?.user ?? null);
       }
     } catch (error) {
-      console.error('Auth check error:', error);
+      log.error('Auth check failed', error);
       setUser(null);
     } finally {
       setLoading(false);
@@ -64,7 +135,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         };
       }
 
-      return { message: 'Registration successful! Please sign in.' };
+      return { message: 'Registration successful! Check your email to verify your account.' };
     } catch (error) {
       return { 
         error: 'Registration error', 
@@ -84,11 +155,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         };
       }
 
-      if (response.data?.user) {
-        setUser(response.data.user);
+      const signedInUser = response.data?.user;
+      const switchedAccount = !!signedInUser && expiredUserIdRef.current !== null && expiredUserIdRef.current !== signedInUser.id;
+      expiredUserIdRef.current = null;
+      if (signedInUser) {
+        setUser(signedInUser);
       }
 
-      return { message: 'Login successful!' };
+      return { message: 'Login successful!', switchedAccount };
     } catch (error) {
       return { 
         error: 'Login error', 
@@ -100,9 +174,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const signOut = async () => {
     try {
       await api.logout();
+      await outboxService.clear();
       setUser(null);
     } catch (error) {
-      console.error('Sign out error:', error);
+      log.error('Sign out failed', error);
       // Clear user even if API call fails
       setUser(null);
     }
@@ -116,7 +191,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setUser(response.data.user);
       }
     } catch (error) {
-      console.error('Refresh user error:', error);
+      log.error('Refresh user failed', error);
     }
   };
 
@@ -165,17 +240,65 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const verifyEmail = async (token: string) => {
+    try {
+      const response = await api.verifyEmail(token);
+
+      if (response.error) {
+        return {
+          error: response.error,
+          message: response.message || 'Verification failed'
+        };
+      }
+
+      // The link may be opened while signed out; only refresh an active session
+      if (userRef.current) {
+        await refreshUser();
+      }
+
+      return { message: 'Email verified!' };
+    } catch (error) {
+      return {
+        error: 'Verification error',
+        message: error instanceof Error ? error.message : 'An error occurred'
+      };
+    }
+  };
+
+  const resendVerification = async () => {
+    try {
+      const response = await api.resendVerificationEmail();
+
+      if (response.error) {
+        return {
+          error: response.error,
+          message: response.message || 'Could not resend the verification email'
+        };
+      }
+
+      return { message: 'Verification email sent!' };
+    } catch (error) {
+      return {
+        error: 'Resend error',
+        message: error instanceof Error ? error.message : 'An error occurred'
+      };
+    }
+  };
+
   return (
     <AuthContext.Provider
       value={{
         user,
         loading,
+        isEmailVerified,
         signUp,
         signIn,
         signOut,
         refreshUser,
         updateProfile,
         changePassword,
+        verifyEmail,
+        resendVerification,
       }}
     >
       {children}
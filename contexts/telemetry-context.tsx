@@ -0,0 +1,70 @@
+import { useAuth } from '@/contexts/auth-context';
+import { CommandResult, DeviceCommand } from '@/lib/device-commands';
+import { telemetrySocket, TelemetrySubscription } from '@/services/telemetry-socket';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+
+interface TelemetryContextType {
+  isConnected: boolean;
+  sendCommand: (deviceId: string, command: DeviceCommand) => Promise<CommandResult>;
+  subscribe: (subscription: TelemetrySubscription) => () => void;
+  reconnect: () => void;
+}
+
+const TelemetryContext = createContext<TelemetryContextType | undefined>(undefined);
+
+export function TelemetryProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [isConnected, setIsConnected] = useState(telemetrySocket.isConnected());
+
+  useEffect(() => {
+    return telemetrySocket.onConnectionChange(setIsConnected);
+  }, []);
+
+  // Connect on sign-in, tear down on sign-out
+  useEffect(() => {
+    if (!userId) {
+      telemetrySocket.disconnect();
+      return;
+    }
+
+    telemetrySocket.connect();
+    return () => {
+      telemetrySocket.disconnect();
+    };
+  }, [userId]);
+
+  const sendCommand = useCallback((deviceId: string, command: DeviceCommand) => {
+    return telemetrySocket.sendCommand(deviceId, command);
+  }, []);
+
+  const subscribe = useCallback((subscription: TelemetrySubscription) => {
+    return telemetrySocket.subscribe(subscription);
+  }, []);
+
+  // Skip the remaining backoff and try again now
+  const reconnect = useCallback(() => {
+    telemetrySocket.reconnectNow();
+  }, []);
+
+  return (
+    <TelemetryContext.Provider
+      value={{
+        isConnected,
+        sendCommand,
+        subscribe,
+        reconnect,
+      }}
+    >
+      {children}
+    </TelemetryContext.Provider>
+  );
+}
+
+export function useTelemetry() {
+  const context = useContext(TelemetryContext);
+  if (context === undefined) {
+    throw new Error('useTelemetry must be used within a TelemetryProvider');
+  }
+  return context;
+}
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { createDefaultChannelMap, DeviceChannelMap, resolveSocketOutlet } from '@/lib/channel-map';
+import { channelMapService } from '@/services/channel-maps';
+
+const subscribe = (listener: () => void) => channelMapService.onChange(listener);
+const getSnapshot = () => channelMapService.getSnapshot();
+
+/**
+ * Read device channel maps and socket bindings; re-renders when either changes.
+ */
+export function useChannelMaps() {
+  const { maps, bindings } = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    channelMapService.load();
+  }, []);
+
+  const getMap = useCallback(
+    (deviceId: string | undefined): DeviceChannelMap => (deviceId && maps.get(deviceId)) || createDefaultChannelMap(),
+    [maps]
+  );
+
+  const getSocketOutlet = useCallback(
+    (socketId: string, deviceId?: string): number => resolveSocketOutlet(getMap(deviceId), bindings.get(socketId)),
+    [getMap, bindings]
+  );
+
+  return { getMap, getSocketOutlet };
+}
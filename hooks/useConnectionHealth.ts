@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { ConnectionHealth, ConnectionQuality, getConnectionQuality } from '@/lib/connection-health';
+import { telemetrySocket } from '@/services/telemetry-socket';
+
+// Re-read often enough for "last message" ages and the rating to stay current
+const TICK_MS = 1000;
+
+/**
+ * Live telemetry connection health (RTT, last message age) and its quality rating.
+ */
+export function useConnectionHealth(): { health: ConnectionHealth; quality: ConnectionQuality; now: number } {
+  const [health, setHealth] = useState<ConnectionHealth>(telemetrySocket.getHealth());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const unsubscribe = telemetrySocket.onHealthChange(setHealth);
+    // lastMessageAt changes with every frame without notifying; pick it up on the tick
+    const interval = setInterval(() => {
+      setHealth(telemetrySocket.getHealth());
+      setNow(Date.now());
+    }, TICK_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, []);
+
+  return { health, quality: getConnectionQuality(health, now), now };
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useTelemetry } from '@/contexts/telemetry-context';
+import { useRequireVerifiedEmail } from '@/hooks/useRequireVerifiedEmail';
+import { CommandError, CommandResult, CommandStatus, DeviceCommand } from '@/lib/device-commands';
+
+// How long a confirmed/failed/timed-out result stays visible
+const RESULT_DISPLAY_MS = 3000;
+
+export interface CommandState {
+  command: DeviceCommand;
+  deviceId: string;
+  status: CommandStatus;
+  message?: string;
+}
+
+/**
+ * Send device commands and track their outcome for display.
+ * Only one command is tracked at a time; the screen should disable controls while pending.
+ */
+export function useDeviceCommand() {
+  const { sendCommand } = useTelemetry();
+  const requireVerifiedEmail = useRequireVerifiedEmail();
+  const [commandState, setCommandState] = useState<CommandState | null>(null);
+  const clearTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      if (clearTimeoutRef.current) {
+        clearTimeout(clearTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  const scheduleClear = useCallback(() => {
+    if (clearTimeoutRef.current) {
+      clearTimeout(clearTimeoutRef.current);
+    }
+    clearTimeoutRef.current = setTimeout(() => {
+      if (isMountedRef.current) {
+        setCommandState(null);
+      }
+    }, RESULT_DISPLAY_MS);
+  }, []);
+
+  const runCommand = useCallback(async (deviceId: string, command: DeviceCommand): Promise<CommandResult | null> => {
+    if (!requireVerifiedEmail('control devices')) return null;
+
+    if (clearTimeoutRef.current) {
+      clearTimeout(clearTimeoutRef.current);
+      clearTimeoutRef.current = null;
+    }
+    setCommandState({ command, deviceId, status: 'pending' });
+
+    try {
+      const result = await sendCommand(deviceId, command);
+      if (isMountedRef.current) {
+        setCommandState({ command, deviceId, status: 'confirmed' });
+        scheduleClear();
+      }
+      return result;
+    } catch (error) {
+      const status = error instanceof CommandError ? error.status : 'failed';
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (isMountedRef.current) {
+        setCommandState({ command, deviceId, status, message });
+        scheduleClear();
+      }
+      return null;
+    }
+  }, [sendCommand, scheduleClear, requireVerifiedEmail]);
+
+  return {
+    commandState,
+    isPending: commandState?.status === 'pending',
+    runCommand,
+  };
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { OutboxEntry } from '@/lib/outbox';
+import { outboxService } from '@/services/outbox';
+
+/**
+ * Queued offline mutations; re-renders when the queue changes.
+ */
+export function useOutbox() {
+  const [entries, setEntries] = useState<OutboxEntry[]>(outboxService.getEntries());
+
+  useEffect(() => {
+    const unsubscribe = outboxService.onChange(setEntries);
+    outboxService.load().then(() => setEntries(outboxService.getEntries()));
+    return unsubscribe;
+  }, []);
+
+  const failedCount = entries.filter((e) => e.status === 'failed').length;
+
+  return { entries, failedCount, pendingCount: entries.length - failedCount };
+}
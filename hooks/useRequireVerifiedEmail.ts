@@ -0,0 +1,27 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/auth-context';
+
+/**
+ * Gate for features that need a verified email (device control, adding sockets).
+ * @returns check(action) - true if allowed; otherwise prompts to verify and returns false
+ */
+export function useRequireVerifiedEmail() {
+  const { isEmailVerified } = useAuth();
+  const router = useRouter();
+
+  return useCallback((action: string): boolean => {
+    if (isEmailVerified) return true;
+
+    Alert.alert(
+      'Verify Your Email',
+      `Please verify your email before you ${action}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Verify', onPress: () => router.push('/verify-email' as any) },
+      ]
+    );
+    return false;
+  }, [isEmailVerified, router]);
+}
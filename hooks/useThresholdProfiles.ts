@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { ThresholdProfile } from '@/lib/api';
+import { DEFAULT_THRESHOLDS } from '@/lib/thresholds';
+import { thresholdService } from '@/services/thresholds';
+
+const subscribe = (listener: () => void) => thresholdService.onChange(listener);
+const getSnapshot = () => thresholdService.getProfiles();
+
+/**
+ * Read per-socket threshold profiles; re-renders when any profile changes.
+ */
+export function useThresholdProfiles() {
+  const profiles = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    thresholdService.load();
+  }, []);
+
+  const getProfile = useCallback(
+    (socketId: string | undefined): ThresholdProfile => (socketId && profiles.get(socketId)) || DEFAULT_THRESHOLDS,
+    [profiles]
+  );
+
+  return { getProfile };
+}
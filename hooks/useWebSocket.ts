@@ -1,262 +1,58 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useCallback, useEffect, useState, useRef } from 'react';
-import { notificationService } from '@/services/notifications';
-import { api } from '@/lib/api';
+import { useEffect, useRef } from 'react';
+import { useTelemetry } from '@/contexts/telemetry-context';
+import { SensorReading } from '@/lib/api';
+import { TelemetryMessage, TelemetryMessageType } from '@/lib/ws-protocol';
 
-const TOKEN_KEY = 'auth_token';
-const API_URL = process.env.EXPO_PUBLIC_API_URL || 'https://apnbackend-fv05.onrender.com';
-// Construct WebSocket URL from API URL
-const getWebSocketUrl = () => {
-  const apiUrl = process.env.EXPO_PUBLIC_API_URL || 'https://apnbackend-fv05.onrender.com';
-  if (process.env.EXPO_PUBLIC_WS_URL) {
-    return process.env.EXPO_PUBLIC_WS_URL;
-  }
-  // Convert http:// to ws:// and https:// to wss://
-  return apiUrl.replace(/^http:/, 'ws:').replace(/^https:/, 'wss:');
-};
-const WS_URL = getWebSocketUrl();
-
-interface TelemetryMessage {
-  deviceId: string;
-  messageType: 'sensor_reading' | 'alert' | 'power_status' | 'alert_cleared';
-  payload: any;
-  receivedAt: string;
-}
+export type { TelemetryMessage, TelemetryMessageType };
 
 interface UseWebSocketOptions {
   onTelemetry?: (data: TelemetryMessage) => void;
+  // Readings missed while the connection was down, newest first (merge with mergeReadings)
+  onBackfill?: (readings: SensorReading[]) => void;
+  // Only receive messages for this device (all devices when omitted)
+  deviceId?: string;
+  // Only receive these message types (all types when omitted)
+  messageTypes?: TelemetryMessageType[];
 }
 
+/**
+ * Subscribe to the shared telemetry connection owned by TelemetryProvider.
+ * Calling this from several screens does not open additional sockets; the server
+ * only streams the devices and message types that some mounted screen asked for.
+ */
 export function useWebSocket(options?: UseWebSocketOptions) {
-  const [isConnected, setIsConnected] = useState(false);
-  const [ws, setWs] = useState<WebSocket | null>(null);
-  const { onTelemetry } = options || {};
-  
-  // Use ref to store the latest callback so we don't need to recreate the connection
+  const { isConnected, sendCommand, subscribe, reconnect } = useTelemetry();
+  const { onTelemetry, onBackfill, deviceId } = options || {};
+  const messageTypesKey = options?.messageTypes?.join(',') ?? '';
+
+  // Use ref to store the latest callback so we don't need to resubscribe on every render
   const onTelemetryRef = useRef(onTelemetry);
-  
-  // Update ref when callback changes
-  useEffect(() => {
-    onTelemetryRef.current = onTelemetry;
-  }, [onTelemetry]);
+  const onBackfillRef = useRef(onBackfill);
 
+  // Update refs when callbacks change
   useEffect(() => {
-    let websocket: WebSocket | null = null;
-    let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
-    let reconnectAttempts = 0;
-    let isMounted = true;
-    const maxReconnectAttempts = 6; // exponential backoff cap
-    let refreshAttempted = false; // only try token refresh once per disconnect
-
-    const connect = async () => {
-      try {
-        // Get auth token from storage
-        const token = await AsyncStorage.getItem(TOKEN_KEY);
-        
-        if (!token) {
-          console.warn('WebSocket: No auth token found, cannot connect');
-          setIsConnected(false);
-          return;
-        }
-
-        // Build WebSocket URL with token
-        const wsBaseUrl = getWebSocketUrl();
-        const wsUrl = `${wsBaseUrl}/ws/telemetry?token=${encodeURIComponent(token)}`;
-        console.log('🔌 WebSocket: API_URL =', API_URL);
-        console.log('🔌 WebSocket: WS_URL =', wsBaseUrl);
-        console.log('🔌 WebSocket: Connecting to', wsUrl.replace(token, '***'));
-
-        websocket = new WebSocket(wsUrl);
-
-        websocket.onopen = () => {
-          console.log('✅ WebSocket: Connected');
-          if (isMounted) {
-            setIsConnected(true);
-            setWs(websocket);
-          }
-        };
-
-        websocket.onclose = (event) => {
-          console.log('🔌 WebSocket: Disconnected', event.code, event.reason);
-          if (isMounted) {
-            setIsConnected(false);
-            setWs(null);
-          }
-          
-          // Don't retry on normal closure (1000)
-          if (event.code === 1000) return;
-
-          // Authentication-related server codes - try token refresh once, then reconnect
-          const authErrorCodes = [4001, 4002, 4004];
-          if (authErrorCodes.includes(event.code)) {
-            console.warn('🔌 WebSocket: Authentication error. Attempting token refresh...');
-            if (!refreshAttempted) {
-              refreshAttempted = true;
-              api.refreshToken().then((res) => {
-                if (res.data?.session) {
-                  console.log('🔑 WebSocket: Token refresh succeeded, reconnecting...');
-                  // reset reconnect attempts and reconnect
-                  reconnectAttempts = 0;
-                  connect();
-                } else {
-                  console.warn('🔑 WebSocket: Token refresh failed, not reconnecting automatically.');
-                }
-              }).catch((err) => {
-                console.error('🔑 WebSocket: Token refresh error', err);
-              });
-            } else {
-              console.warn('🔑 WebSocket: Token refresh already attempted, not retrying.');
-            }
-            return;
-          }
-
-          // Attempt to reconnect with exponential backoff
-          if (isMounted) {
-            const backoff = Math.min(30000, 1000 * Math.pow(2, reconnectAttempts));
-            reconnectTimeout = setTimeout(() => {
-              reconnectAttempts += 1;
-              if (reconnectAttempts > maxReconnectAttempts) {
-                console.warn('🔄 WebSocket: Max reconnect attempts reached, stopping retries.');
-                return;
-              }
-              console.log(`🔄 WebSocket: Attempting to reconnect (attempt ${reconnectAttempts})...`);
-              connect();
-            }, backoff);
-          }
-        };
-
-        websocket.onerror = (error) => {
-          console.error('❌ WebSocket error:', error);
-          if (isMounted) {
-            setIsConnected(false);
-          }
-        };
-
-        // Message handler - process telemetry, alerts, and auth errors
-        websocket.onmessage = async (event) => {
-          try {
-            const message = JSON.parse(event.data);
-            console.log('📨 WebSocket message received:', message);
-
-            // If server indicates auth error in message payload, attempt refresh once
-            if (message?.type === 'error' && message?.code === 401) {
-              console.warn('🔌 WebSocket: Server reported auth error (401) via message');
-              if (!refreshAttempted) {
-                refreshAttempted = true;
-                try {
-                  const res = await api.refreshToken();
-                  if (res.data?.session) {
-                    console.log('🔑 WebSocket: Token refresh succeeded from message handler, reconnecting...');
-                    reconnectAttempts = 0;
-                    try { websocket?.close(); } catch (e) {}
-                    connect();
-                    return;
-                  }
-                } catch (err) {
-                  console.error('🔑 WebSocket: Token refresh failed in message handler', err);
-                }
-              }
-            }
-
-            // Handle different message types
-            if (message.type === 'connected') {
-              console.log('✅ WebSocket: Server confirmed connection');
-            } else if (message.type === 'telemetry') {
-              console.log('📊 WebSocket: Telemetry data received');
-
-              const telemetryData = message.data;
-
-              // Call the optional telemetry callback if provided (use ref to get latest)
-              if (onTelemetryRef.current && telemetryData) {
-                onTelemetryRef.current(telemetryData);
-              }
-
-              // Check if this is an alert message and trigger notification
-              if (telemetryData && telemetryData.messageType === 'alert') {
-                const alertPayload = telemetryData.payload;
-                if (alertPayload && alertPayload.alert) {
-                  // Format alert data for notification
-                  const alertData = {
-                    id: telemetryData.deviceId + '_' + Date.now(), // Temporary ID
-                    deviceId: telemetryData.deviceId,
-                    alertType: alertPayload.alert,
-                    sensor: alertPayload.sensor || undefined,
-                    value: alertPayload.value !== undefined ? alertPayload.value : undefined,
-                    receivedAt: telemetryData.receivedAt || new Date().toISOString(),
-                  };
-
-                  // Trigger local notification
-                  await notificationService.sendLocalNotification(alertData);
-                  console.log('🔔 Local notification triggered for alert:', alertPayload.alert);
-                }
-              }
-            } else if (message.type === 'error') {
-              console.error('❌ WebSocket: Server error:', message.message);
-            }
-          } catch (error) {
-            console.error('❌ WebSocket: Error parsing message:', error);
-          }
-        };
-
-      } catch (error) {
-        console.error('❌ WebSocket: Connection error:', error);
-        if (isMounted) {
-          setIsConnected(false);
-        }
-      }
-    };
-
-    // Initial connection
-    connect();
-
-    return () => {
-      isMounted = false;
-      if (reconnectTimeout) {
-        clearTimeout(reconnectTimeout);
-      }
-      if (websocket) {
-        websocket.close();
-      }
-    };
-  }, []); // Empty deps - connection is created once, callback is accessed via ref
-
-  const sendCommand = useCallback((deviceId: string, command: string): boolean => {
-    console.log(`📤 WebSocket: Attempting to send command "${command}" to device "${deviceId}"`);
-    
-    if (!ws) {
-      console.warn('❌ WebSocket: WebSocket instance is null');
-      return false;
-    }
+    onTelemetryRef.current = onTelemetry;
+    onBackfillRef.current = onBackfill;
+  }, [onTelemetry, onBackfill]);
 
-    if (!isConnected) {
-      console.warn('❌ WebSocket: Not connected (isConnected:', isConnected, ')');
-      return false;
-    }
+  // Declaring message types subscribes even without a listener (e.g. to keep breaker states current)
+  const hasListener = !!onTelemetry || !!messageTypesKey;
+  const hasBackfill = !!onBackfill;
 
-    if (ws.readyState !== WebSocket.OPEN) {
-      console.warn('❌ WebSocket: Connection not open (readyState:', ws.readyState, ')');
-      return false;
-    }
+  useEffect(() => {
+    if (!hasListener) return;
 
-    try {
-      const message = JSON.stringify({
-        command,
-        deviceId,
-        timestamp: new Date().toISOString(),
-        type: 'command_sent',
-      });
-      
-      ws.send(message);
-      console.log(`✅ WebSocket message sent: ${message}`);
-      return true;
-    } catch (error) {
-      console.error('❌ Error sending WebSocket command:', error);
-      return false;
-    }
-  }, [ws, isConnected]);
+    return subscribe({
+      deviceId,
+      messageTypes: messageTypesKey ? (messageTypesKey.split(',') as TelemetryMessageType[]) : undefined,
+      onTelemetry: (data) => onTelemetryRef.current?.(data),
+      onBackfill: hasBackfill ? (readings) => onBackfillRef.current?.(readings) : undefined,
+    });
+  }, [subscribe, hasListener, hasBackfill, deviceId, messageTypesKey]);
 
   return {
     isConnected,
     sendCommand,
+    reconnect,
   };
 }
@@ -0,0 +1,169 @@
+import type { SensorReading } from '../api';
+import { getPeriodWindows, getRateAt, integrateEnergy, Tariff } from '../energy';
+import { normalizeSensorReading } from '../telemetry';
+
+// lib/energy persists the tariff; these tests never touch storage
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+const MINUTE_MS = 60 * 1000;
+
+const FLAT: Tariff = { type: 'flat', currency: '₱', ratePerKwh: 12 };
+
+// Peak 22:00-06:00 (wraps midnight)
+const OVERNIGHT_PEAK: Tariff = {
+  type: 'tou',
+  currency: '₱',
+  defaultRatePerKwh: 10,
+  rates: [{ label: 'Peak', startHour: 22, endHour: 6, ratePerKwh: 20 }],
+};
+
+// Peak from 18:00 until midnight
+const EVENING_PEAK: Tariff = {
+  type: 'tou',
+  currency: '₱',
+  defaultRatePerKwh: 10,
+  rates: [{ label: 'Peak', startHour: 18, endHour: 24, ratePerKwh: 20 }],
+};
+
+// Local time, as the tariff hours are
+const at = (hour: number, minute = 0, day = 15) => new Date(2025, 0, day, hour, minute);
+
+// A channel 1 reading drawing `watts` (200 V at watts / 200 A)
+const reading = (time: Date, watts: number): SensorReading =>
+  normalizeSensorReading({
+    deviceId: 'ESP32_TEST_01',
+    receivedAt: time.toISOString(),
+    power: { voltage1: 200, current1: watts / 200, voltage2: 0, current2: 0 },
+  });
+
+// Readings every minute from `from` to `to` inclusive
+const steady = (from: Date, to: Date, watts: number): SensorReading[] => {
+  const readings: SensorReading[] = [];
+  for (let t = from.getTime(); t <= to.getTime(); t += MINUTE_MS) {
+    readings.push(reading(new Date(t), watts));
+  }
+  return readings;
+};
+
+describe('getRateAt', () => {
+  it('uses the flat rate at any hour', () => {
+    expect(getRateAt(FLAT, at(3))).toBe(12);
+    expect(getRateAt(FLAT, at(19))).toBe(12);
+  });
+
+  it('applies a peak window that crosses midnight on both sides', () => {
+    expect(getRateAt(OVERNIGHT_PEAK, at(21, 59))).toBe(10);
+    expect(getRateAt(OVERNIGHT_PEAK, at(22))).toBe(20);
+    expect(getRateAt(OVERNIGHT_PEAK, at(0))).toBe(20);
+    expect(getRateAt(OVERNIGHT_PEAK, at(5, 59))).toBe(20);
+    expect(getRateAt(OVERNIGHT_PEAK, at(6))).toBe(10);
+  });
+
+  it('treats endHour 24 as running until midnight', () => {
+    expect(getRateAt(EVENING_PEAK, at(17, 59))).toBe(10);
+    expect(getRateAt(EVENING_PEAK, at(18))).toBe(20);
+    expect(getRateAt(EVENING_PEAK, at(23, 59))).toBe(20);
+    expect(getRateAt(EVENING_PEAK, at(0))).toBe(10);
+  });
+});
+
+describe('integrateEnergy', () => {
+  it('integrates a steady load over the window', () => {
+    const summary = integrateEnergy(steady(at(10), at(11), 1000), 1, at(10), at(11), 12, FLAT);
+
+    expect(summary.kwh).toBeCloseTo(1);
+    expect(summary.cost).toBeCloseTo(12);
+    summary.buckets.forEach((bucket) => expect(bucket.kwh).toBeCloseTo(1 / 12));
+  });
+
+  it('uses the trapezoidal rule between readings', () => {
+    const summary = integrateEnergy([reading(at(10), 0), reading(at(10, 1), 600)], 1, at(10), at(11), 1, FLAT);
+
+    // 300 W on average for one minute
+    expect(summary.kwh).toBeCloseTo(0.005);
+  });
+
+  it('accepts readings in any order', () => {
+    const readings = steady(at(10), at(10, 10), 1000);
+    const reversed = [...readings].reverse();
+
+    expect(integrateEnergy(reversed, 1, at(10), at(11), 6, FLAT))
+      .toEqual(integrateEnergy(readings, 1, at(10), at(11), 6, FLAT));
+  });
+
+  it('skips gaps longer than 5 minutes as outages', () => {
+    const readings = [...steady(at(10), at(10, 3), 1200), ...steady(at(10, 20), at(10, 22), 1200)];
+    const summary = integrateEnergy(readings, 1, at(10), at(11), 1, FLAT);
+
+    // 3 + 2 minutes of readings, not the 17 minutes in between
+    expect(summary.kwh).toBeCloseTo((1.2 * 5) / 60);
+  });
+
+  it('still integrates a gap of exactly 5 minutes', () => {
+    const summary = integrateEnergy([reading(at(10), 1200), reading(at(10, 5), 1200)], 1, at(10), at(11), 1, FLAT);
+
+    expect(summary.kwh).toBeCloseTo(0.1);
+  });
+
+  it('counts only the part of a segment inside the window', () => {
+    // Readings straddle both edges of 10:00-10:10 by two minutes
+    const readings = [reading(at(9, 58), 600), reading(at(10, 2), 600), reading(at(10, 8), 600), reading(at(10, 12), 600)];
+    const summary = integrateEnergy(readings, 1, at(10), at(10, 10), 5, FLAT);
+
+    // The gaps are 4, 6 (an outage) and 4 minutes: 2 + 0 + 2 minutes fall inside the window
+    expect(summary.kwh).toBeCloseTo((0.6 * 4) / 60);
+    expect(summary.buckets[0].kwh).toBeCloseTo((0.6 * 2) / 60);
+    expect(summary.buckets[4].kwh).toBeCloseTo((0.6 * 2) / 60);
+  });
+
+  it('ignores readings outside the window', () => {
+    const readings = [...steady(at(8), at(9), 1000), ...steady(at(12), at(13), 1000)];
+
+    expect(integrateEnergy(readings, 1, at(10), at(11), 4, FLAT).kwh).toBe(0);
+  });
+
+  it('puts each segment in the bucket holding its midpoint', () => {
+    // 10:14-10:16 has its midpoint at 10:15, the start of the second 15-minute bucket
+    const summary = integrateEnergy([reading(at(10, 14), 600), reading(at(10, 16), 600)], 1, at(10), at(11), 4, FLAT);
+
+    expect(summary.buckets.map((bucket) => bucket.kwh)).toEqual([0, expect.closeTo(0.02), 0, 0]);
+  });
+
+  it('only reads the requested power channel and clamps negative power to zero', () => {
+    const negative = steady(at(10), at(10, 10), -500);
+
+    expect(integrateEnergy(negative, 1, at(10), at(11), 1, FLAT).kwh).toBe(0);
+    expect(integrateEnergy(steady(at(10), at(10, 10), 1000), 2, at(10), at(11), 1, FLAT).kwh).toBe(0);
+  });
+
+  it('prices a window crossing midnight at the overnight peak rate', () => {
+    const summary = integrateEnergy(steady(at(21), at(25), 1000), 1, at(21), at(25), 4, OVERNIGHT_PEAK);
+
+    // 21:00-22:00 off-peak, 22:00-01:00 peak on both sides of midnight
+    expect(summary.kwh).toBeCloseTo(4);
+    expect(summary.buckets.map((bucket) => bucket.cost)).toEqual([
+      expect.closeTo(10),
+      expect.closeTo(20),
+      expect.closeTo(20),
+      expect.closeTo(20),
+    ]);
+  });
+
+  it('drops back to the default rate after an endHour 24 peak', () => {
+    const summary = integrateEnergy(steady(at(23), at(25), 1000), 1, at(23), at(25), 2, EVENING_PEAK);
+
+    expect(summary.buckets.map((bucket) => bucket.cost)).toEqual([expect.closeTo(20), expect.closeTo(10)]);
+    expect(summary.cost).toBeCloseTo(30);
+  });
+});
+
+describe('getPeriodWindows', () => {
+  it('returns back-to-back windows ending now', () => {
+    const now = at(12);
+    const { current, previous } = getPeriodWindows('day', now);
+
+    expect(current).toEqual({ start: at(12, 0, 14), end: now });
+    expect(previous).toEqual({ start: at(12, 0, 13), end: at(12, 0, 14) });
+  });
+});
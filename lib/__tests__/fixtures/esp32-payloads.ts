@@ -0,0 +1,126 @@
+import type { PowerMeasurement, SensorReading } from '../../api';
+
+// One payload shape the ESP32 firmware has sent, and the reading it must normalize to
+export interface PayloadFixture {
+  name: string;
+  payload: Record<string, any>;
+  expected: Partial<Pick<SensorReading, 'water' | 'gas' | 'temperature' | 'gyro' | 'power'>>;
+}
+
+const channel = (voltage: number | null, current: number | null, voltageRaw: number | null = null, currentRaw: number | null = null) => ({
+  voltage,
+  current,
+  voltageRaw,
+  currentRaw,
+  watts: voltage !== null && current !== null ? voltage * current : null,
+});
+
+const statusOnly = (status: PowerMeasurement['status'], supply: PowerMeasurement['supply']): PowerMeasurement => ({
+  channels: [channel(null, null), channel(null, null)],
+  status,
+  supply,
+});
+
+export const PAYLOAD_FIXTURES: PayloadFixture[] = [
+  // Water
+  {
+    name: 'water as a 4-slot number array',
+    payload: { water: [0, 1, 0, 1] },
+    expected: { water: [0, 1, 0, 1] },
+  },
+  {
+    name: 'water as a boolean/string array',
+    payload: { water: [true, 'dry', 'wet', false] },
+    expected: { water: [1, 0, 1, 0] },
+  },
+  {
+    name: 'water as zone1/zone2 object',
+    payload: { water: { zone1: 1, zone2: 0 } },
+    expected: { water: [1, 1, 0, 0] },
+  },
+  {
+    name: 'water as zone_1/zone_2 object',
+    payload: { water: { zone_1: false, zone_2: true } },
+    expected: { water: [0, 0, 1, 1] },
+  },
+
+  // Temperature
+  {
+    name: 'temperature nested temp1/temp2',
+    payload: { temperature: { temp1: 24.5, temp2: 26 } },
+    expected: { temperature: { temp1: 24.5, temp2: 26 } },
+  },
+  {
+    name: 'temperature nested temp_1/temp_2 strings',
+    payload: { temperature: { temp_1: '21.3', temp_2: '22.8' } },
+    expected: { temperature: { temp1: 21.3, temp2: 22.8 } },
+  },
+  {
+    name: 'temperature flat t1/t2',
+    payload: { t1: 30.1, t2: 31.4 },
+    expected: { temperature: { temp1: 30.1, temp2: 31.4 } },
+  },
+  {
+    name: 'temperature as an array',
+    payload: { temperature: [19.9, 20.4] },
+    expected: { temperature: { temp1: 19.9, temp2: 20.4 } },
+  },
+
+  // Power
+  {
+    name: 'power nested object with raw ADC values',
+    payload: { power: { voltage1: 230, current1: 1.5, voltage2: 228, current2: 0.5, v1_raw: 2047, c1_raw: 2141 } },
+    expected: {
+      power: { channels: [channel(230, 1.5, 2047, 2141), channel(228, 0.5)], status: 'normal', supply: null },
+    },
+  },
+  {
+    name: 'power flat fields with power_status',
+    payload: { voltage1: 231, current1: 2, voltage2: 0.4, current2: 0, power_status: 'BACKUP' },
+    expected: { power: { channels: [channel(231, 2), channel(0.4, 0)], status: 'normal', supply: 'BACKUP' } },
+  },
+  {
+    name: 'power as a JSON string (legacy API readings)',
+    payload: { power: '{"voltage1":0.2,"current1":0,"voltage2":0.1,"current2":0}' },
+    expected: { power: { channels: [channel(0.2, 0), channel(0.1, 0)], status: 'no_voltage', supply: null } },
+  },
+  {
+    name: 'power status-only string',
+    payload: { power: 'TRIPPED' },
+    expected: { power: statusOnly('tripped', null) },
+  },
+  {
+    name: 'power_status only, no measurements',
+    payload: { power_status: 'MAIN' },
+    expected: { power: statusOnly('unknown', 'MAIN') },
+  },
+  {
+    name: 'no power data',
+    payload: { gas: 0 },
+    expected: { power: null, gas: false },
+  },
+
+  // Gyro
+  {
+    name: 'gyro object with movement',
+    payload: { gyro: { movement: 0.42 } },
+    expected: { gyro: { movement: 0.42 } },
+  },
+  {
+    name: 'gyro as a bare number',
+    payload: { gyro: '1.2' },
+    expected: { gyro: { movement: 1.2 } },
+  },
+  {
+    name: 'top-level movement',
+    payload: { movement: 0.05 },
+    expected: { gyro: { movement: 0.05 } },
+  },
+
+  // Gas
+  {
+    name: 'gas as a DETECTED string',
+    payload: { gas: 'DETECTED' },
+    expected: { gas: true },
+  },
+];
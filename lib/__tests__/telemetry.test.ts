@@ -0,0 +1,79 @@
+import type { SensorReading } from '../api';
+import { mergeReadings, normalizeSensorReading, normalizeTelemetry } from '../telemetry';
+import { PAYLOAD_FIXTURES } from './fixtures/esp32-payloads';
+
+const DEVICE_ID = 'ESP32_TEST_01';
+const RECEIVED_AT = '2025-01-15T10:00:00.000Z';
+
+// The same payload as it arrives over /ws/telemetry
+const fromWebSocket = (payload: Record<string, any>) =>
+  normalizeTelemetry({ deviceId: DEVICE_ID, messageType: 'sensor_reading', payload, receivedAt: RECEIVED_AT });
+
+// ...and as /api/telemetry/sensors returns it (payload fields on the reading itself)
+const fromRest = (payload: Record<string, any>) =>
+  normalizeSensorReading({ deviceId: DEVICE_ID, receivedAt: RECEIVED_AT, ...payload });
+
+describe('ESP32 payload normalization', () => {
+  describe.each(PAYLOAD_FIXTURES)('$name', ({ payload, expected }) => {
+    it('normalizes to the expected fields', () => {
+      expect(fromWebSocket(payload)).toMatchObject(expected);
+    });
+
+    it('gives the same reading over WebSocket and REST', () => {
+      expect(fromRest(payload)).toEqual(fromWebSocket(payload));
+    });
+  });
+
+  it('accepts snake_case REST readings', () => {
+    const payload = PAYLOAD_FIXTURES[0].payload;
+    expect(normalizeSensorReading({ device_id: DEVICE_ID, received_at: RECEIVED_AT, ...payload }))
+      .toEqual(fromWebSocket(payload));
+  });
+
+  it('ignores message types that are not readings', () => {
+    expect(normalizeTelemetry({ deviceId: DEVICE_ID, messageType: 'alert', payload: { alert: 'GAS_LEAK_DETECTED' } }))
+      .toBeNull();
+  });
+});
+
+describe('mergeReadings', () => {
+  const reading = (deviceId: string, receivedAt: string, id = `${deviceId}_${receivedAt}`): SensorReading => ({
+    ...fromRest({ temperature: { temp1: 25, temp2: 26 } }),
+    id,
+    deviceId,
+    receivedAt,
+  });
+
+  it('drops a same-device reading within 1 s of one already kept', () => {
+    const live = reading(DEVICE_ID, '2025-01-15T10:00:05.000Z', 'live');
+    const backfilled = reading(DEVICE_ID, '2025-01-15T10:00:04.400Z', 'backfill');
+
+    expect(mergeReadings([live], [backfilled])).toEqual([live]);
+  });
+
+  it('keeps same-device readings 1 s or more apart', () => {
+    const newer = reading(DEVICE_ID, '2025-01-15T10:00:05.000Z');
+    const older = reading(DEVICE_ID, '2025-01-15T10:00:04.000Z');
+
+    expect(mergeReadings([newer], [older])).toEqual([newer, older]);
+  });
+
+  it('keeps readings from different devices at the same time', () => {
+    const first = reading(DEVICE_ID, '2025-01-15T10:00:05.000Z');
+    const second = reading('ESP32_TEST_02', '2025-01-15T10:00:05.200Z');
+
+    expect(mergeReadings([first], [second])).toEqual([second, first]);
+  });
+
+  it('returns the existing array when nothing new was added', () => {
+    const existing = [reading(DEVICE_ID, '2025-01-15T10:00:05.000Z')];
+    expect(mergeReadings(existing, [])).toBe(existing);
+    expect(mergeReadings(existing, [reading(DEVICE_ID, '2025-01-15T10:00:05.300Z')])).not.toBe(existing);
+  });
+
+  it('caps the series at the limit, newest first', () => {
+    const incoming = [0, 1, 2, 3].map((s) => reading(DEVICE_ID, `2025-01-15T10:00:0${s}.000Z`));
+    expect(mergeReadings([], incoming, 2).map((r) => r.receivedAt))
+      .toEqual(['2025-01-15T10:00:03.000Z', '2025-01-15T10:00:02.000Z']);
+  });
+});
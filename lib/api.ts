@@ -1,10 +1,30 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createLogger } from '@/services/logger';
+import { decodeTokenExpiry, isRenewalDue } from './session';
+import { normalizeSensorReading } from './telemetry';
 
 const API_URL = process.env.EXPO_PUBLIC_API_URL || 'https://apnbackend-fv05.onrender.com';
 
+const log = createLogger('api');
+
 // Storage keys
 const TOKEN_KEY = 'auth_token';
 const REFRESH_TOKEN_KEY = 'refresh_token';
+const CACHE_KEY_PREFIX = 'api_cache:'; // + endpoint -> { data, cachedAt }
+
+const CURRENT_USER_ENDPOINT = '/api/auth/me';
+
+// Endpoints that must never trigger a token refresh on 401 (they either issue
+// tokens themselves or a 401 from them means bad credentials, not expiry)
+const NO_REFRESH_ENDPOINTS = [
+  '/api/auth/login',
+  '/api/auth/register',
+  '/api/auth/refresh',
+  '/api/auth/logout',
+  '/api/auth/forgot-password',
+  '/api/auth/reset-password',
+  '/api/auth/verify-email',
+];
 
 interface RegisterData {
   email: string;
@@ -29,13 +49,54 @@ interface AuthResponse {
     id: string;
     email: string;
     fullName?: string;
+    emailVerified?: boolean;
   };
 }
 
-interface ApiResponse<T = unknown> {
+export interface ApiResponse<T = unknown> {
   data?: T;
   error?: string;
   message?: string;
+  // Set when data was served from the offline cache instead of the server
+  cachedAt?: string;
+  offline?: boolean;
+}
+
+// Options for GET endpoints backed by the offline cache
+export interface CacheOptions {
+  // Read the persisted copy only (no network request)
+  fromCache?: boolean;
+}
+
+interface CacheEntry<T> {
+  data: T;
+  cachedAt: string;
+}
+
+// How current a screen's data is, derived from the responses it rendered
+export interface DataFreshness {
+  updatedAt: string | null; // oldest cache timestamp, or now when everything came from the server
+  fromCache: boolean;
+  offline: boolean;
+}
+
+/**
+ * Summarizes where a set of responses came from, for the "last updated" banner
+ * @param responses - Responses the screen rendered
+ * @returns Freshness of the combined data
+ */
+export function getDataFreshness(responses: ApiResponse<unknown>[]): DataFreshness {
+  const cachedTimes = responses
+    .map((response) => response.cachedAt)
+    .filter((cachedAt): cachedAt is string => !!cachedAt)
+    .sort();
+  const offline = responses.some((response) => response.offline || response.error === 'Network error');
+
+  return {
+    updatedAt: cachedTimes[0] ?? (offline ? null : new Date().toISOString()),
+    fromCache: cachedTimes.length > 0,
+    offline,
+  };
 }
 
 // Device interface
@@ -45,8 +106,18 @@ export interface Device {
   name?: string;
   pairedAt: string;
   isActive: boolean;
+  lastSeen?: string | null;
+  // User-entered metadata
+  installedAt?: string | null; // YYYY-MM-DD
+  model?: string | null;
+  serialNumber?: string | null;
+  firmwareVersion?: string | null;
+  role?: ShareRole; // Caller's role on a shared device; absent means owner
 }
 
+// Editable device fields (null clears a field)
+export type DeviceUpdate = Partial<Pick<Device, 'name' | 'installedAt' | 'model' | 'serialNumber' | 'firmwareVersion'>>;
+
 // Alert interface
 export interface Alert {
   id: string;
@@ -59,6 +130,25 @@ export interface Alert {
   clearedAt?: string;
 }
 
+// Power status derived from the firmware report or the measured voltages
+export type PowerStatus = 'normal' | 'no_voltage' | 'tripped' | 'abnormal' | 'unknown';
+
+// One measured power channel (one per breaker/outlet)
+export interface PowerChannel {
+  voltage: number | null;
+  current: number | null;
+  voltageRaw: number | null;
+  currentRaw: number | null;
+  watts: number | null;
+}
+
+// PowerMeasurement interface - parsed once from telemetry/API payloads
+export interface PowerMeasurement {
+  channels: [PowerChannel, PowerChannel];
+  status: PowerStatus;
+  supply: 'MAIN' | 'BACKUP' | null;
+}
+
 // SensorReading interface
 export interface SensorReading {
   id: string;
@@ -72,7 +162,7 @@ export interface SensorReading {
   gyro: {
     movement: number | null;
   };
-  power: string | null;
+  power: PowerMeasurement | null;
   receivedAt: string;
 }
 
@@ -88,14 +178,51 @@ export interface Socket {
     device_id: string;
     name?: string;
   }[];
+  role?: ShareRole; // Caller's role on a shared socket; absent means owner
 }
 
+// Household sharing: what a member may do with a socket and its devices
+export type ShareRole = 'owner' | 'controller' | 'viewer';
+
+export interface SocketMember {
+  id: string;
+  email: string;
+  fullName?: string | null;
+  role: ShareRole;
+  status: 'active' | 'invited'; // Invited members haven't accepted yet
+  invitedAt?: string;
+}
+
+// Hazard thresholds for one socket (status colors, chart lines and local alerts)
+export interface ThresholdProfile {
+  temperature: { warm: number; high: number }; // °C
+  movement: { moderate: number; high: number };
+  voltage: { min: number; max: number }; // V
+  current: { max: number }; // A
+}
+
+// 'unverified': the token needed renewing but the server was unreachable
+export type SessionStatus = 'valid' | 'unverified' | 'expired' | 'none';
+
+type SessionExpiredListener = () => void;
+type ConnectivityListener = (online: boolean) => void;
+type TokenRefreshedListener = (accessToken: string) => void;
+type SocketsListener = (sockets: Socket[]) => void;
+
 class ApiClient {
   private baseURL: string;  
+  // In-flight refresh shared by every caller that hits a 401 at the same time
+  private refreshPromise: Promise<ApiResponse<AuthResponse>> | null = null;
+  private sessionExpiredListeners = new Set<SessionExpiredListener>();
+  private tokenRefreshedListeners = new Set<TokenRefreshedListener>();
+  private socketsListeners = new Set<SocketsListener>();
+  // Whether the last request reached the server (any HTTP status counts)
+  private online = true;
+  private connectivityListeners = new Set<ConnectivityListener>();
 
   constructor() {
     this.baseURL = API_URL;
-    console.log('API Base URL:', this.baseURL);
+    log.info(`Base URL: ${this.baseURL}`);
   }
 
   // Helper method to get stored token
@@ -103,7 +230,7 @@ class ApiClient {
     try {
       return await AsyncStorage.getItem(TOKEN_KEY);
     } catch (error) {
-      console.error('Error getting token:', error);
+      log.error('Error getting token', error);
       return null;
     }
   }
@@ -114,24 +241,165 @@ class ApiClient {
       await AsyncStorage.setItem(TOKEN_KEY, accessToken);
       await AsyncStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
     } catch (error) {
-      console.error('Error saving tokens:', error);
+      log.error('Error saving tokens', error);
     }
   }
 
-  // Helper method to clear tokens
+  // Helper method to clear tokens (cached responses belong to the same session)
   private async clearTokens(): Promise<void> {
     try {
       await AsyncStorage.removeItem(TOKEN_KEY);
       await AsyncStorage.removeItem(REFRESH_TOKEN_KEY);
+      await this.clearCache();
     } catch (error) {
-      console.error('Error clearing tokens:', error);
+      log.error('Error clearing tokens', error);
     }
   }
 
+  private async readCache<T>(endpoint: string): Promise<CacheEntry<T> | null> {
+    try {
+      const stored = await AsyncStorage.getItem(CACHE_KEY_PREFIX + endpoint);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      log.error('Error reading cache', error);
+      return null;
+    }
+  }
+
+  private async writeCache<T>(endpoint: string, data: T): Promise<void> {
+    try {
+      const entry: CacheEntry<T> = { data, cachedAt: new Date().toISOString() };
+      await AsyncStorage.setItem(CACHE_KEY_PREFIX + endpoint, JSON.stringify(entry));
+    } catch (error) {
+      log.error('Error writing cache', error);
+    }
+  }
+
+  private async clearCache(): Promise<void> {
+    const keys = await AsyncStorage.getAllKeys();
+    const cacheKeys = keys.filter((key) => key.startsWith(CACHE_KEY_PREFIX));
+    if (cacheKeys.length > 0) {
+      await AsyncStorage.multiRemove(cacheKeys);
+    }
+  }
+
+  // GET with an offline copy: successful responses are persisted, and the
+  // persisted copy is served when asked for or when the server can't be reached
+  private async cachedGet<T>(endpoint: string, options: CacheOptions = {}): Promise<ApiResponse<T>> {
+    if (options.fromCache) {
+      const entry = await this.readCache<T>(endpoint);
+      return entry
+        ? { data: entry.data, cachedAt: entry.cachedAt }
+        : { error: 'Not cached', message: 'No saved copy of this data' };
+    }
+
+    const response = await this.request<T>(endpoint, { method: 'GET' });
+    if (response.data !== undefined) {
+      await this.writeCache(endpoint, response.data);
+      return response;
+    }
+
+    if (response.error === 'Network error') {
+      const entry = await this.readCache<T>(endpoint);
+      if (entry) {
+        return { data: entry.data, cachedAt: entry.cachedAt, offline: true };
+      }
+    }
+    return response;
+  }
+
+  // Notify subscribers (AuthContext) that the session could not be renewed
+  private notifySessionExpired(): void {
+    this.sessionExpiredListeners.forEach((listener) => {
+      try {
+        listener();
+      } catch (error) {
+        log.error('Session expired listener error', error);
+      }
+    });
+  }
+
+  /**
+   * Subscribe to session expiry (refresh token rejected or missing)
+   * @returns Unsubscribe function
+   */
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  // Notify subscribers (the telemetry socket) that the access token rotated
+  private notifyTokenRefreshed(accessToken: string): void {
+    this.tokenRefreshedListeners.forEach((listener) => {
+      try {
+        listener(accessToken);
+      } catch (error) {
+        log.error('Token refreshed listener error', error);
+      }
+    });
+  }
+
+  /**
+   * Subscribe to access token rotation (successful refresh)
+   * @returns Unsubscribe function
+   */
+  onTokenRefreshed(listener: TokenRefreshedListener): () => void {
+    this.tokenRefreshedListeners.add(listener);
+    return () => {
+      this.tokenRefreshedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to socket lists fetched from the server (by any caller of getSockets)
+   * @returns Unsubscribe function
+   */
+  onSocketsLoaded(listener: SocketsListener): () => void {
+    this.socketsListeners.add(listener);
+    return () => {
+      this.socketsListeners.delete(listener);
+    };
+  }
+
+  private setOnline(online: boolean): void {
+    if (this.online === online) return;
+    this.online = online;
+    this.connectivityListeners.forEach((listener) => {
+      try {
+        listener(online);
+      } catch (error) {
+        log.error('Connectivity listener error', error);
+      }
+    });
+  }
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  /**
+   * Subscribe to the server becoming reachable / unreachable
+   * @returns Unsubscribe function
+   */
+  onConnectivityChange(listener: ConnectivityListener): () => void {
+    this.connectivityListeners.add(listener);
+    return () => {
+      this.connectivityListeners.delete(listener);
+    };
+  }
+
+  // Lets the server drop a replayed mutation it has already applied
+  private idempotencyHeaders(idempotencyKey?: string): Record<string, string> {
+    return idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {};
+  }
+
   // Generic request method
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    allowRefresh: boolean = true
   ): Promise<ApiResponse<T>> {
     try {
       const token = await this.getToken();
@@ -151,14 +419,38 @@ class ApiClient {
         headers['Authorization'] = `Bearer ${token}`;
       }
 
+      const method = options.method || 'GET';
+      log.debug(`${method} ${endpoint}`);
       const response = await fetch(`${this.baseURL}${endpoint}`, {
         ...options,
         headers,
       });
+      this.setOnline(true);
+
+      // Expired access token: refresh once (shared with concurrent callers) and replay this call once
+      if (response.status === 401 && allowRefresh && token && !NO_REFRESH_ENDPOINTS.includes(endpoint.split('?')[0])) {
+        // A concurrent refresh already finished while this call was in flight: replay with its token
+        const currentToken = await this.getToken();
+        if (!this.refreshPromise && currentToken && currentToken !== token) {
+          return this.request<T>(endpoint, options, false);
+        }
+        const refreshed = await this.refreshToken();
+        if (refreshed.data?.session) {
+          return this.request<T>(endpoint, options, false);
+        }
+        if (refreshed.error === 'Network error') {
+          return { error: refreshed.error, message: refreshed.message };
+        }
+        return {
+          error: 'Session expired',
+          message: 'Your session has expired. Please sign in again.',
+        };
+      }
 
       const data = await response.json();
 
       if (!response.ok) {
+        log.warn(`${method} ${endpoint} failed with ${response.status}`, data.error);
         return {
           error: data.error || 'Request failed',
           message: data.message || 'An error occurred',
@@ -167,7 +459,8 @@ class ApiClient {
 
       return { data };
     } catch (error) {
-      console.error('API request error:', error);
+      log.error(`${options.method || 'GET'} ${endpoint} failed`, error);
+      this.setOnline(false);
       return {
         error: 'Network error',
         message: error instanceof Error ? error.message : 'Failed to connect to server',
@@ -197,6 +490,10 @@ class ApiClient {
         response.data.session.accessToken,
         response.data.session.refreshToken
       );
+      // Seed the offline profile so a cold start without network keeps this user signed in
+      if (response.data.user) {
+        await this.writeCache(CURRENT_USER_ENDPOINT, { user: response.data.user });
+      }
     }
 
     return response;
@@ -211,17 +508,20 @@ class ApiClient {
     return response;
   }
 
-  async getCurrentUser(): Promise<ApiResponse<{ user: AuthResponse['user'] }>> {
-    return this.request('/api/auth/me', {
-      method: 'GET',
-    });
+  // Served from the offline copy when the server can't be reached
+  async getCurrentUser(options?: CacheOptions): Promise<ApiResponse<{ user: AuthResponse['user'] }>> {
+    return this.cachedGet<{ user: AuthResponse['user'] }>(CURRENT_USER_ENDPOINT, options);
   }
 
   async updateProfile(fullName: string): Promise<ApiResponse<{ message: string; user: AuthResponse['user'] }>> {
-    return this.request<{ message: string; user: AuthResponse['user'] }>('/api/auth/profile', {
+    const response = await this.request<{ message: string; user: AuthResponse['user'] }>('/api/auth/profile', {
       method: 'PUT',
       body: JSON.stringify({ fullName }),
     });
+    if (response.data?.user) {
+      await this.writeCache(CURRENT_USER_ENDPOINT, { user: response.data.user });
+    }
+    return response;
   }
 
   async changePassword(oldPassword: string, newPassword: string): Promise<ApiResponse<{ message: string }>> {
@@ -231,25 +531,71 @@ class ApiClient {
     });
   }
 
+  // Emails a reset code and an apntelemetry://reset-password?token=... link
+  async requestPasswordReset(email: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request<{ message: string }>('/api/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  // token is either the emailed code or the token from the reset link
+  async resetPassword(token: string, newPassword: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request<{ message: string }>('/api/auth/reset-password', {
+      method: 'POST',
+      body: JSON.stringify({ token, newPassword }),
+    });
+  }
+
+  // Completes verification with the token from the emailed apntelemetry://verify-email link
+  async verifyEmail(token: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request<{ message: string }>('/api/auth/verify-email', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  async resendVerificationEmail(): Promise<ApiResponse<{ message: string }>> {
+    return this.request<{ message: string }>('/api/auth/verify-email/resend', {
+      method: 'POST',
+    });
+  }
+
   // FIX 2: Add proper generic type for refresh response
+  // Single-flight: concurrent callers share the same refresh request
   async refreshToken(): Promise<ApiResponse<AuthResponse>> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performTokenRefresh(): Promise<ApiResponse<AuthResponse>> {
     try {
       const refreshToken = await AsyncStorage.getItem(REFRESH_TOKEN_KEY);
       
       if (!refreshToken) {
+        this.notifySessionExpired();
         return { error: 'No refresh token available' };
       }
 
       const response = await this.request<AuthResponse>('/api/auth/refresh', {
         method: 'POST',
         body: JSON.stringify({ refreshToken }),
-      });
+      }, false);
 
       if (response.data?.session) {
         await this.saveTokens(
           response.data.session.accessToken,
           response.data.session.refreshToken
         );
+        this.notifyTokenRefreshed(response.data.session.accessToken);
+      } else if (response.error !== 'Network error') {
+        // Refresh token rejected - the session cannot be recovered
+        await this.clearTokens();
+        this.notifySessionExpired();
       }
 
       return response;
@@ -261,34 +607,61 @@ class ApiClient {
     }
   }
 
-  // Check if user is authenticated
+  // Check if user has an access token that hasn't expired
   async isAuthenticated(): Promise<boolean> {
     const token = await this.getToken();
-    return !!token;
+    if (!token) return false;
+    const expiresAt = decodeTokenExpiry(token);
+    return expiresAt === null || expiresAt > Date.now();
+  }
+
+  /**
+   * Expiry of the stored access token
+   * @returns Epoch ms, or null when signed out or the token carries no expiry
+   */
+  async getSessionExpiry(): Promise<number | null> {
+    const token = await this.getToken();
+    return token ? decodeTokenExpiry(token) : null;
+  }
+
+  /**
+   * Checks the stored session and renews it when the access token is (about to be) expired
+   * @returns Session status; 'unverified' keeps an offline user signed in until the server can decide
+   */
+  async validateSession(): Promise<SessionStatus> {
+    const token = await this.getToken();
+    if (!token) return 'none';
+    if (!isRenewalDue(decodeTokenExpiry(token), Date.now())) return 'valid';
+
+    const refreshed = await this.refreshToken();
+    if (refreshed.data?.session) return 'valid';
+    return refreshed.error === 'Network error' ? 'unverified' : 'expired';
   }
 
   // Telemetry endpoints
-  async getActiveAlerts(): Promise<ApiResponse<{ alerts: Alert[] }>> {
-    return this.request<{ alerts: Alert[] }>('/api/telemetry/alerts/active', {
-      method: 'GET',
-    });
+  async getActiveAlerts(options?: CacheOptions): Promise<ApiResponse<{ alerts: Alert[] }>> {
+    return this.cachedGet<{ alerts: Alert[] }>('/api/telemetry/alerts/active', options);
   }
 
-  async getAllAlerts(limit: number = 100): Promise<ApiResponse<{ alerts: Alert[]; pagination?: any }>> {
-    return this.request<{ alerts: Alert[]; pagination?: any }>(`/api/telemetry/alerts?limit=${limit}`, {
-      method: 'GET',
-    });
+  async getAllAlerts(limit: number = 100, options?: CacheOptions): Promise<ApiResponse<{ alerts: Alert[]; pagination?: any }>> {
+    return this.cachedGet<{ alerts: Alert[]; pagination?: any }>(`/api/telemetry/alerts?limit=${limit}`, options);
   }
 
-  async getDevices(): Promise<ApiResponse<{ devices: Device[] }>> {
-    return this.request<{ devices: Device[] }>('/api/telemetry/devices', {
-      method: 'GET',
+  async getDevices(options?: CacheOptions): Promise<ApiResponse<{ devices: Device[] }>> {
+    return this.cachedGet<{ devices: Device[] }>('/api/telemetry/devices', options);
+  }
+
+  async updateDevice(deviceId: string, updates: DeviceUpdate): Promise<ApiResponse<{ message: string; device: Device }>> {
+    return this.request<{ message: string; device: Device }>(`/api/telemetry/device/${encodeURIComponent(deviceId)}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
     });
   }
 
-  async unpairDevice(deviceId: string): Promise<ApiResponse<{ message: string; deviceId: string }>> {
+  async unpairDevice(deviceId: string, idempotencyKey?: string): Promise<ApiResponse<{ message: string; deviceId: string }>> {
     return this.request<{ message: string; deviceId: string }>(`/api/telemetry/device/${encodeURIComponent(deviceId)}`, {
       method: 'DELETE',
+      headers: this.idempotencyHeaders(idempotencyKey),
     });
   }
 
@@ -313,7 +686,7 @@ async discoverDevicesMQTT(): Promise<ApiResponse<{ devices: { deviceId: string;
 
       return { data };
     } catch (error) {
-      console.error('MQTT discovery error:', error);
+      log.error('MQTT discovery failed', error);
       return {
         error: 'Network error',
         message: error instanceof Error ? error.message : 'Failed to connect to server',
@@ -325,13 +698,17 @@ async discoverDevices(): Promise<ApiResponse<{ devices: { deviceId: string; name
     return this.discoverDevicesMQTT();
   }
 
-  async getLatestSensorReading(deviceId?: string): Promise<ApiResponse<{ reading: SensorReading | null }>> {
+  async getLatestSensorReading(deviceId?: string, options?: CacheOptions): Promise<ApiResponse<{ reading: SensorReading | null }>> {
     const url = deviceId 
       ? `/api/telemetry/sensors/latest?deviceId=${encodeURIComponent(deviceId)}`
       : '/api/telemetry/sensors/latest';
-    return this.request<{ reading: SensorReading | null }>(url, {
-      method: 'GET',
-    });
+    const response = await this.cachedGet<{ reading: SensorReading | null }>(url, options);
+
+    // Normalize at the boundary so REST and WebSocket readings look identical
+    if (response.data?.reading) {
+      response.data.reading = normalizeSensorReading(response.data.reading);
+    }
+    return response;
   }
 
   async getSensorReadings(params?: {
@@ -349,9 +726,14 @@ async discoverDevices(): Promise<ApiResponse<{ devices: { deviceId: string; name
     if (params?.endDate) queryParams.append('endDate', params.endDate);
 
     const url = `/api/telemetry/sensors${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    return this.request<{ readings: SensorReading[]; pagination: { total: number; limit: number; offset: number; hasMore: boolean } }>(url, {
+    const response = await this.request<{ readings: SensorReading[]; pagination: { total: number; limit: number; offset: number; hasMore: boolean } }>(url, {
       method: 'GET',
     });
+
+    if (response.data?.readings) {
+      response.data.readings = response.data.readings.map(normalizeSensorReading);
+    }
+    return response;
   }
 
   // Notification endpoints
@@ -373,9 +755,10 @@ async discoverDevices(): Promise<ApiResponse<{ devices: { deviceId: string; name
   }
 
   // Archive alert endpoint
-  async archiveAlert(alertId: string): Promise<ApiResponse<{ message: string; alert: { id: string; alertType: string; archivedAt: string } }>> {
+  async archiveAlert(alertId: string, idempotencyKey?: string): Promise<ApiResponse<{ message: string; alert: { id: string; alertType: string; archivedAt: string } }>> {
     return this.request<{ message: string; alert: { id: string; alertType: string; archivedAt: string } }>(`/api/telemetry/alerts/${alertId}/archive`, {
       method: 'POST',
+      headers: this.idempotencyHeaders(idempotencyKey),
     });
   }
 
@@ -387,25 +770,105 @@ async scanForSensors(socketName: string): Promise<ApiResponse<{ sensors: { id: s
   }
 
   // Pair a device to the authenticated user
-  async pairDevice(deviceId: string, name?: string): Promise<ApiResponse<{ device: { id: string; deviceId: string; name?: string; pairedAt: string; isActive: boolean } }>> {
+  async pairDevice(deviceId: string, name?: string, idempotencyKey?: string): Promise<ApiResponse<{ device: { id: string; deviceId: string; name?: string; pairedAt: string; isActive: boolean } }>> {
     return this.request<{ device: { id: string; deviceId: string; name?: string; pairedAt: string; isActive: boolean } }>('/api/telemetry/device/pair', {
       method: 'POST',
+      headers: this.idempotencyHeaders(idempotencyKey),
       body: JSON.stringify({ deviceId, name }),
     });
   }
 
-  async getSockets(): Promise<ApiResponse<{ sockets: Socket[] }>> {
-    return this.request<{ sockets: Socket[] }>('/api/telemetry/sockets', {
-      method: 'GET',
-    });
+  async getSockets(options?: CacheOptions): Promise<ApiResponse<{ sockets: Socket[] }>> {
+    const response = await this.cachedGet<{ sockets: Socket[] }>('/api/telemetry/sockets', options);
+    const sockets = response.data?.sockets;
+    // Saved copies may be stale; only a server answer updates listeners
+    if (sockets && !response.cachedAt) {
+      this.socketsListeners.forEach((listener) => {
+        try {
+          listener(sockets);
+        } catch (error) {
+          log.error('Sockets listener error', error);
+        }
+      });
+    }
+    return response;
   }
 
-  async createSocket(socketName: string, location?: string, sensorIds?: string[]): Promise<ApiResponse<{ message: string; socket: { id: string; name: string; location?: string; createdAt: string } }>> {
+  async createSocket(socketName: string, location?: string, sensorIds?: string[], idempotencyKey?: string): Promise<ApiResponse<{ message: string; socket: { id: string; name: string; location?: string; createdAt: string } }>> {
     return this.request<{ message: string; socket: { id: string; name: string; location?: string; createdAt: string } }>('/api/telemetry/sockets', {
       method: 'POST',
+      headers: this.idempotencyHeaders(idempotencyKey),
       body: JSON.stringify({ socketName, location, sensorIds }),
     });
   }
+
+  async updateSocket(socketId: string, updates: { socketName?: string; location?: string | null }): Promise<ApiResponse<{ message: string; socket: Socket }>> {
+    return this.request<{ message: string; socket: Socket }>(`/api/telemetry/sockets/${socketId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteSocket(socketId: string): Promise<ApiResponse<{ message: string; socketId: string }>> {
+    return this.request<{ message: string; socketId: string }>(`/api/telemetry/sockets/${socketId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Attach a paired device (its record ID, as in createSocket's sensorIds) to a socket
+  async addSocketDevice(socketId: string, sensorId: string): Promise<ApiResponse<{ message: string; socket: Socket }>> {
+    return this.request<{ message: string; socket: Socket }>(`/api/telemetry/sockets/${socketId}/devices`, {
+      method: 'POST',
+      body: JSON.stringify({ sensorId }),
+    });
+  }
+
+  async removeSocketDevice(socketId: string, sensorId: string): Promise<ApiResponse<{ message: string; socket: Socket }>> {
+    return this.request<{ message: string; socket: Socket }>(`/api/telemetry/sockets/${socketId}/devices/${sensorId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getSocketMembers(socketId: string): Promise<ApiResponse<{ members: SocketMember[] }>> {
+    return this.request<{ members: SocketMember[] }>(`/api/telemetry/sockets/${socketId}/members`, {
+      method: 'GET',
+    });
+  }
+
+  // Invite by email; the invitee gets the role once they accept
+  async inviteSocketMember(socketId: string, email: string, role: Exclude<ShareRole, 'owner'>): Promise<ApiResponse<{ message: string; member: SocketMember }>> {
+    return this.request<{ message: string; member: SocketMember }>(`/api/telemetry/sockets/${socketId}/members`, {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+  }
+
+  async updateSocketMember(socketId: string, memberId: string, role: Exclude<ShareRole, 'owner'>): Promise<ApiResponse<{ message: string; member: SocketMember }>> {
+    return this.request<{ message: string; member: SocketMember }>(`/api/telemetry/sockets/${socketId}/members/${memberId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  // Also cancels a pending invitation
+  async removeSocketMember(socketId: string, memberId: string): Promise<ApiResponse<{ message: string; memberId: string }>> {
+    return this.request<{ message: string; memberId: string }>(`/api/telemetry/sockets/${socketId}/members/${memberId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getSocketThresholds(socketId: string): Promise<ApiResponse<{ thresholds: ThresholdProfile | null }>> {
+    return this.request<{ thresholds: ThresholdProfile | null }>(`/api/telemetry/sockets/${socketId}/thresholds`, {
+      method: 'GET',
+    });
+  }
+
+  async updateSocketThresholds(socketId: string, thresholds: ThresholdProfile): Promise<ApiResponse<{ message: string; thresholds: ThresholdProfile }>> {
+    return this.request<{ message: string; thresholds: ThresholdProfile }>(`/api/telemetry/sockets/${socketId}/thresholds`, {
+      method: 'PUT',
+      body: JSON.stringify({ thresholds }),
+    });
+  }
 }
 
 export const api = new ApiClient();
@@ -0,0 +1,148 @@
+import type { DeviceCommand } from './device-commands';
+
+export type OutletCount = 1 | 2 | 4;
+
+// Which board resources feed one named outlet. Probes, power channels and
+// breakers may be shared between outlets (e.g. on a 4-outlet board).
+export interface OutletChannelConfig {
+  outletNumber: number; // position on the board, 1-based
+  name: string;
+  waterSensors: number[]; // indexes into SensorReading.water (0-3)
+  temperatureProbe: 1 | 2 | null; // temp1 / temp2
+  powerChannel: 1 | 2 | null; // PowerMeasurement.channels
+  breaker: 1 | 2 | null; // BREAKER1_* / BREAKER2_* commands
+}
+
+export interface DeviceChannelMap {
+  outletCount: OutletCount;
+  outlets: OutletChannelConfig[];
+}
+
+export const OUTLET_COUNTS: OutletCount[] = [1, 2, 4];
+
+// Number of resources the ESP32 board exposes
+export const WATER_SENSOR_COUNT = 4;
+export const TEMPERATURE_PROBE_COUNT = 2;
+export const POWER_CHANNEL_COUNT = 2;
+export const BREAKER_COUNT = 2;
+
+/**
+ * Builds the standard wiring for a board with the given number of outlets
+ * - 1 outlet: every sensor, probe 1, channel 1, breaker 1
+ * - 2 outlets: water 1&2 / 3&4, one probe, channel and breaker each (original layout)
+ * - 4 outlets: one water sensor each; pairs share a probe, channel and breaker
+ * @param outletCount - Number of outlets on the board
+ * @returns Channel map
+ */
+export function createDefaultChannelMap(outletCount: OutletCount = 2): DeviceChannelMap {
+  if (outletCount === 1) {
+    return {
+      outletCount,
+      outlets: [
+        { outletNumber: 1, name: 'Primary', waterSensors: [0, 1, 2, 3], temperatureProbe: 1, powerChannel: 1, breaker: 1 },
+      ],
+    };
+  }
+
+  if (outletCount === 4) {
+    return {
+      outletCount,
+      outlets: [0, 1, 2, 3].map((i) => {
+        const pair = (i < 2 ? 1 : 2) as 1 | 2;
+        return {
+          outletNumber: i + 1,
+          name: `Outlet ${i + 1}`,
+          waterSensors: [i],
+          temperatureProbe: pair,
+          powerChannel: pair,
+          breaker: pair,
+        };
+      }),
+    };
+  }
+
+  return {
+    outletCount: 2,
+    outlets: [
+      { outletNumber: 1, name: 'Primary', waterSensors: [0, 1], temperatureProbe: 1, powerChannel: 1, breaker: 1 },
+      { outletNumber: 2, name: 'Secondary', waterSensors: [2, 3], temperatureProbe: 2, powerChannel: 2, breaker: 2 },
+    ],
+  };
+}
+
+/**
+ * Checks that every outlet references resources the board has
+ * @param map - Channel map to validate
+ * @returns Error message, or null if valid
+ */
+export function validateChannelMap(map: DeviceChannelMap): string | null {
+  if (map.outlets.length !== map.outletCount) return 'Every outlet needs a configuration';
+
+  for (const outlet of map.outlets) {
+    if (!outlet.name.trim()) return `Outlet ${outlet.outletNumber} needs a name`;
+    if (outlet.waterSensors.some((i) => i < 0 || i >= WATER_SENSOR_COUNT)) {
+      return `${outlet.name} uses a water sensor the board doesn't have`;
+    }
+  }
+
+  const names = map.outlets.map((o) => o.name.trim().toLowerCase());
+  if (new Set(names).size !== names.length) return 'Outlet names must be unique';
+  return null;
+}
+
+/**
+ * Gets an outlet's configuration from a map
+ * @param map - Device channel map
+ * @param outletNumber - Outlet position, 1-based
+ * @returns Outlet configuration, or null if the board has no such outlet
+ */
+export function getOutletConfig(map: DeviceChannelMap, outletNumber: number): OutletChannelConfig | null {
+  return map.outlets.find((o) => o.outletNumber === outletNumber) ?? null;
+}
+
+/**
+ * Gets the outlet a socket reads from on a map
+ * @param map - Channel map of the socket's device
+ * @param boundOutlet - Outlet the socket was bound to, if any
+ * @returns Outlet number, 1-based (outlet 1 when unbound or the board has no such outlet)
+ */
+export function resolveSocketOutlet(map: DeviceChannelMap, boundOutlet: number | undefined): number {
+  const outletNumber = boundOutlet ?? 1;
+  return map.outlets.some((o) => o.outletNumber === outletNumber) ? outletNumber : 1;
+}
+
+/**
+ * Gets the command that switches an outlet's breaker
+ * @param outlet - Outlet configuration
+ * @param on - true to switch ON, false to switch OFF
+ * @returns Breaker command, or null if the outlet has no breaker
+ */
+export function getBreakerCommand(outlet: OutletChannelConfig, on: boolean): DeviceCommand | null {
+  if (outlet.breaker === null) return null;
+  return `BREAKER${outlet.breaker}_${on ? 'ON' : 'OFF'}` as DeviceCommand;
+}
+
+/**
+ * Describes which water sensors an outlet uses, e.g. "1 & 2"
+ */
+export function formatWaterSensors(outlet: OutletChannelConfig): string {
+  if (outlet.waterSensors.length === 0) return 'None';
+  return outlet.waterSensors.map((i) => String(i + 1)).join(' & ');
+}
+
+/**
+ * Lists the metered power channels with the outlets each one feeds
+ * (outlets sharing a channel can't be metered separately)
+ * @param map - Device channel map
+ * @returns One entry per used channel, e.g. { powerChannel: 1, label: 'Outlet 1 + Outlet 2' }
+ */
+export function getPowerMeters(map: DeviceChannelMap): { powerChannel: 1 | 2; label: string }[] {
+  const meters: { powerChannel: 1 | 2; label: string }[] = [];
+  ([1, 2] as const).forEach((powerChannel) => {
+    const names = map.outlets.filter((o) => o.powerChannel === powerChannel).map((o) => o.name);
+    if (names.length > 0) {
+      meters.push({ powerChannel, label: names.join(' + ') });
+    }
+  });
+  return meters;
+}
@@ -0,0 +1,68 @@
+export type ConnectionQuality = 'good' | 'fair' | 'poor' | 'offline';
+
+export interface ConnectionHealth {
+  connected: boolean;
+  rttMs: number | null; // Last ping round trip
+  lastMessageAt: number | null; // Epoch ms of the last frame from the server
+  missedHeartbeats: number;
+  reconnectAttempt: number; // Attempts since the connection was last up
+  nextReconnectAt: number | null; // Epoch ms of the scheduled retry, if any
+}
+
+export const QUALITY_LABELS: Record<ConnectionQuality, string> = {
+  good: 'Good',
+  fair: 'Fair',
+  poor: 'Poor',
+  offline: 'Offline',
+};
+
+// Round-trip limits (ms)
+const FAIR_RTT_MS = 300;
+const POOR_RTT_MS = 1000;
+
+// Silence limits (ms); the heartbeat keeps a healthy connection well under these
+const FAIR_SILENCE_MS = 20000;
+const POOR_SILENCE_MS = 40000;
+
+/**
+ * Rates the live connection from heartbeat results and how recently the server spoke
+ * @param health - Current connection health
+ * @param now - Epoch ms (pass the render clock so the rating ages)
+ */
+export function getConnectionQuality(health: ConnectionHealth, now: number): ConnectionQuality {
+  if (!health.connected) return 'offline';
+
+  const silenceMs = health.lastMessageAt !== null ? now - health.lastMessageAt : 0;
+  const rttMs = health.rttMs ?? 0;
+
+  if (health.missedHeartbeats > 0 || rttMs >= POOR_RTT_MS || silenceMs >= POOR_SILENCE_MS) return 'poor';
+  if (rttMs >= FAIR_RTT_MS || silenceMs >= FAIR_SILENCE_MS) return 'fair';
+  return 'good';
+}
+
+/**
+ * Formats time since the last server frame, e.g. "3s ago", "2m ago"
+ */
+export function formatMessageAge(lastMessageAt: number | null, now: number): string {
+  if (lastMessageAt === null) return 'never';
+  const seconds = Math.max(0, Math.floor((now - lastMessageAt) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ago`;
+}
+
+// Reconnect backoff: doubles from the base up to the cap, then keeps retrying at the cap
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+/**
+ * Delay before a reconnect attempt, with jitter so many phones don't hit a
+ * recovering server in lockstep
+ * @param attempt - Attempts already made since the last successful connection
+ * @returns Delay in ms, between half and all of the exponential step
+ */
+export function getReconnectDelay(attempt: number, random: () => number = Math.random): number {
+  const step = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * Math.pow(2, attempt));
+  return Math.round(step / 2 + random() * (step / 2));
+}
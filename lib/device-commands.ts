@@ -0,0 +1,138 @@
+export type DeviceCommand =
+  | 'BREAKER1_ON'
+  | 'BREAKER1_OFF'
+  | 'BREAKER2_ON'
+  | 'BREAKER2_OFF'
+  | 'TRIP_ALL'
+  | 'SHAKE_TEST';
+
+// [breaker1, breaker2]: true = ON, false = OFF, null = not known
+export type BreakerStates = [boolean | null, boolean | null];
+
+export type CommandStatus = 'pending' | 'confirmed' | 'failed' | 'timeout';
+
+export interface CommandResult {
+  correlationId: string;
+  deviceId: string;
+  command: DeviceCommand;
+  // What confirmed the command: an explicit ack or telemetry showing the new state
+  confirmedBy: 'ack' | 'telemetry';
+}
+
+// How long to wait for an ack or state-change telemetry before giving up
+export const COMMAND_TIMEOUT_MS = 10000;
+
+export const COMMAND_STATUS_LABELS: Record<CommandStatus, string> = {
+  pending: 'Sending...',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+  timeout: 'No response',
+};
+
+/**
+ * Error used to reject a command promise
+ */
+export class CommandError extends Error {
+  status: 'failed' | 'timeout';
+  correlationId?: string;
+
+  constructor(status: 'failed' | 'timeout', message: string, correlationId?: string) {
+    super(message);
+    this.name = 'CommandError';
+    this.status = status;
+    this.correlationId = correlationId;
+  }
+}
+
+/**
+ * Creates a unique correlation ID for a command
+ * @returns Correlation ID string
+ */
+export function createCorrelationId(): string {
+  return `cmd_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Parses a breaker state value reported by the firmware
+ * @param value - Boolean, 0/1 or 'ON'/'OFF' string
+ * @returns true (ON), false (OFF) or null if not reported
+ */
+function parseBreakerValue(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') {
+    const normalized = value.trim().toUpperCase();
+    if (normalized === 'ON' || normalized === '1' || normalized === 'TRUE') return true;
+    if (normalized === 'OFF' || normalized === '0' || normalized === 'FALSE') return false;
+  }
+  return null;
+}
+
+/**
+ * Reads breaker states from a telemetry payload or command ack
+ * A power_status of TRIPPED with no per-breaker fields means both breakers are OFF.
+ * @param payload - power_status / sensor_reading payload
+ * @returns Tuple of [breaker1, breaker2] states (null when not reported)
+ */
+export function parseBreakerStates(payload: any): BreakerStates {
+  if (!payload || typeof payload !== 'object') return [null, null];
+  const breakers = Array.isArray(payload.breakers) ? payload.breakers : [];
+  const states: BreakerStates = [
+    parseBreakerValue(payload.breaker1 ?? payload.relay1 ?? breakers[0]),
+    parseBreakerValue(payload.breaker2 ?? payload.relay2 ?? breakers[1]),
+  ];
+
+  if (states[0] === null && states[1] === null && typeof payload.power_status === 'string'
+    && payload.power_status.trim().toUpperCase().includes('TRIP')) {
+    return [false, false];
+  }
+  return states;
+}
+
+/**
+ * Gets the breaker states a confirmed command leaves behind
+ * @param command - The confirmed command
+ * @returns Tuple of [breaker1, breaker2] states (null for breakers the command doesn't touch)
+ */
+export function getCommandBreakerStates(command: DeviceCommand): BreakerStates {
+  switch (command) {
+    case 'BREAKER1_ON':
+      return [true, null];
+    case 'BREAKER1_OFF':
+      return [false, null];
+    case 'BREAKER2_ON':
+      return [null, true];
+    case 'BREAKER2_OFF':
+      return [null, false];
+    case 'TRIP_ALL':
+      return [false, false];
+    default:
+      return [null, null];
+  }
+}
+
+/**
+ * Checks whether telemetry shows the state a command asked for
+ * @param command - The command that was sent
+ * @param payload - Telemetry payload received from the same device
+ * @returns true if the payload reflects the command's target state
+ */
+export function isCommandReflected(command: DeviceCommand, payload: any): boolean {
+  const [breaker1, breaker2] = parseBreakerStates(payload);
+
+  switch (command) {
+    case 'BREAKER1_ON':
+      return breaker1 === true;
+    case 'BREAKER1_OFF':
+      return breaker1 === false;
+    case 'BREAKER2_ON':
+      return breaker2 === true;
+    case 'BREAKER2_OFF':
+      return breaker2 === false;
+    case 'TRIP_ALL':
+      return breaker1 === false && breaker2 === false;
+    default:
+      // SHAKE_TEST has no observable state; only an ack confirms it
+      return false;
+  }
+}
@@ -0,0 +1,179 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SensorReading } from './api';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('app');
+
+// Storage key
+const TARIFF_KEY = 'energy_tariff';
+
+// Gaps longer than this are treated as outages and not integrated
+const MAX_INTEGRATION_GAP_MS = 5 * 60 * 1000; // 5 minutes
+
+export type EnergyPeriod = 'hour' | 'day' | 'week' | 'month';
+
+export interface TimeOfUseRate {
+  label: string;
+  startHour: number; // inclusive, 0-23
+  endHour: number; // exclusive, 1-24 (may be less than startHour to wrap midnight)
+  ratePerKwh: number;
+}
+
+export type Tariff =
+  | { type: 'flat'; currency: string; ratePerKwh: number }
+  | { type: 'tou'; currency: string; defaultRatePerKwh: number; rates: TimeOfUseRate[] };
+
+export interface EnergyBucket {
+  start: Date;
+  end: Date;
+  kwh: number;
+  cost: number;
+}
+
+export interface EnergySummary {
+  kwh: number;
+  cost: number;
+  buckets: EnergyBucket[];
+}
+
+export const DEFAULT_TARIFF: Tariff = {
+  type: 'flat',
+  currency: '₱',
+  ratePerKwh: 12,
+};
+
+// Window length and chart breakdown for each period
+export const ENERGY_PERIODS: Record<EnergyPeriod, { label: string; durationMs: number; bucketCount: number }> = {
+  hour: { label: 'Last Hour', durationMs: 60 * 60 * 1000, bucketCount: 12 },
+  day: { label: 'Last 24 Hours', durationMs: 24 * 60 * 60 * 1000, bucketCount: 24 },
+  week: { label: 'Last 7 Days', durationMs: 7 * 24 * 60 * 60 * 1000, bucketCount: 7 },
+  month: { label: 'Last 30 Days', durationMs: 30 * 24 * 60 * 60 * 1000, bucketCount: 30 },
+};
+
+/**
+ * Gets the electricity rate in effect at a point in time
+ * @param tariff - Flat or time-of-use tariff
+ * @param date - Time of consumption
+ * @returns Rate per kWh
+ */
+export function getRateAt(tariff: Tariff, date: Date): number {
+  if (tariff.type === 'flat') return tariff.ratePerKwh;
+
+  const hour = date.getHours();
+  const match = tariff.rates.find((rate) =>
+    rate.startHour <= rate.endHour
+      ? hour >= rate.startHour && hour < rate.endHour
+      : hour >= rate.startHour || hour < rate.endHour
+  );
+  return match ? match.ratePerKwh : tariff.defaultRatePerKwh;
+}
+
+/**
+ * Integrates one power channel over time and splits it into equal buckets
+ * Uses the trapezoidal rule between consecutive readings; gaps longer than
+ * MAX_INTEGRATION_GAP_MS are skipped so outages don't count as consumption.
+ * @param readings - Readings for a single device (any order)
+ * @param powerChannel - Power channel (1-based, see the device's channel map)
+ * @param start - Window start
+ * @param end - Window end
+ * @param bucketCount - Number of equal buckets to split the window into
+ * @param tariff - Tariff used to price each segment
+ * @returns Total kWh and cost plus per-bucket breakdown
+ */
+export function integrateEnergy(
+  readings: SensorReading[],
+  powerChannel: number,
+  start: Date,
+  end: Date,
+  bucketCount: number,
+  tariff: Tariff
+): EnergySummary {
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+  const bucketMs = (endMs - startMs) / bucketCount;
+
+  const buckets: EnergyBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+    start: new Date(startMs + i * bucketMs),
+    end: new Date(startMs + (i + 1) * bucketMs),
+    kwh: 0,
+    cost: 0,
+  }));
+
+  const points = readings
+    .map((reading) => ({
+      time: new Date(reading.receivedAt).getTime(),
+      watts: reading.power?.channels[powerChannel - 1]?.watts ?? null,
+    }))
+    .filter((p): p is { time: number; watts: number } => p.watts !== null && !isNaN(p.time))
+    .sort((a, b) => a.time - b.time);
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const curr = points[i];
+    const segmentStart = Math.max(prev.time, startMs);
+    const segmentEnd = Math.min(curr.time, endMs);
+    if (segmentEnd <= segmentStart) continue;
+    if (curr.time - prev.time > MAX_INTEGRATION_GAP_MS) continue;
+
+    const avgWatts = (Math.max(prev.watts, 0) + Math.max(curr.watts, 0)) / 2;
+    const kwh = (avgWatts * (segmentEnd - segmentStart)) / 3_600_000 / 1000;
+    const cost = kwh * getRateAt(tariff, new Date(segmentStart));
+
+    // Attribute the segment to the bucket holding its midpoint
+    const index = Math.min(bucketCount - 1, Math.floor(((segmentStart + segmentEnd) / 2 - startMs) / bucketMs));
+    buckets[index].kwh += kwh;
+    buckets[index].cost += cost;
+  }
+
+  return {
+    kwh: buckets.reduce((sum, b) => sum + b.kwh, 0),
+    cost: buckets.reduce((sum, b) => sum + b.cost, 0),
+    buckets,
+  };
+}
+
+/**
+ * Gets the current and previous window for a period, ending now
+ * @param period - Comparison period
+ * @param now - Reference time (defaults to now)
+ * @returns Current and previous [start, end] windows
+ */
+export function getPeriodWindows(period: EnergyPeriod, now: Date = new Date()) {
+  const { durationMs } = ENERGY_PERIODS[period];
+  const end = now.getTime();
+  return {
+    current: { start: new Date(end - durationMs), end: new Date(end) },
+    previous: { start: new Date(end - 2 * durationMs), end: new Date(end - durationMs) },
+  };
+}
+
+/**
+ * Formats an amount of money in the tariff's currency
+ */
+export function formatCost(amount: number, tariff: Tariff): string {
+  return `${tariff.currency}${amount.toFixed(2)}`;
+}
+
+/**
+ * Loads the saved tariff (falls back to DEFAULT_TARIFF)
+ */
+export async function loadTariff(): Promise<Tariff> {
+  try {
+    const stored = await AsyncStorage.getItem(TARIFF_KEY);
+    return stored ? (JSON.parse(stored) as Tariff) : DEFAULT_TARIFF;
+  } catch (error) {
+    log.error('Error loading tariff', error);
+    return DEFAULT_TARIFF;
+  }
+}
+
+/**
+ * Persists the tariff used for cost estimates
+ */
+export async function saveTariff(tariff: Tariff): Promise<void> {
+  try {
+    await AsyncStorage.setItem(TARIFF_KEY, JSON.stringify(tariff));
+  } catch (error) {
+    log.error('Error saving tariff', error);
+  }
+}
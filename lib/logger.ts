@@ -0,0 +1,120 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogCategory = 'app' | 'api' | 'auth' | 'ws' | 'commands' | 'notifications' | 'outbox';
+
+export interface LogEntry {
+  id: number;
+  timestamp: string;
+  level: LogLevel;
+  category: LogCategory;
+  message: string;
+  data?: string; // Redacted, serialized extra arguments
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export const LOG_CATEGORIES: LogCategory[] = ['app', 'api', 'auth', 'ws', 'commands', 'notifications', 'outbox'];
+
+// Serialized data longer than this is cut off so one entry can't flood the buffer
+const MAX_DATA_LENGTH = 1000;
+
+// Nested objects deeper than this are summarized
+const MAX_REDACT_DEPTH = 4;
+
+// Object keys whose values are never logged
+const SENSITIVE_KEYS = [
+  'token',
+  'accesstoken',
+  'access_token',
+  'refreshtoken',
+  'refresh_token',
+  'idempotency-key',
+  'authorization',
+  'password',
+  'oldpassword',
+  'newpassword',
+  'expopushtoken',
+  'pushtoken',
+];
+
+const JWT_PATTERN = /eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g;
+const BEARER_PATTERN = /Bearer\s+[^\s"']+/gi;
+const TOKEN_PARAM_PATTERN = /([?&](?:token|access_token|refresh_token)=)[^&\s"']+/gi;
+const PUSH_TOKEN_PATTERN = /Expo(?:nent)?PushToken\[[^\]]*\]/g;
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+/**
+ * Masks tokens and email addresses in free text
+ * @param text - Message or serialized value
+ * @returns Text safe to keep and share
+ */
+export function redactText(text: string): string {
+  return text
+    .replace(JWT_PATTERN, '[token]')
+    .replace(BEARER_PATTERN, 'Bearer [token]')
+    .replace(TOKEN_PARAM_PATTERN, '$1[token]')
+    .replace(PUSH_TOKEN_PATTERN, 'ExponentPushToken[redacted]')
+    .replace(EMAIL_PATTERN, '$1***@$2');
+}
+
+/**
+ * Copies a value with sensitive keys removed and tokens/emails masked
+ * @param value - Anything passed to the logger
+ * @returns JSON-safe redacted copy
+ */
+export function redactValue(value: unknown, depth: number = 0): unknown {
+  if (value === null || value === undefined) return value;
+  if (typeof value === 'string') return redactText(value);
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message) };
+  }
+  if (depth >= MAX_REDACT_DEPTH) return '[…]';
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, depth + 1));
+  }
+  if (typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+      result[key] = SENSITIVE_KEYS.includes(key.toLowerCase()) ? '[redacted]' : redactValue(item, depth + 1);
+    });
+    return result;
+  }
+  return String(value);
+}
+
+/**
+ * Serializes extra log arguments after redaction
+ * @returns Serialized data, or undefined when there is nothing to keep
+ */
+export function serializeLogData(args: unknown[]): string | undefined {
+  if (args.length === 0) return undefined;
+  let text: string;
+  try {
+    const redacted = args.map((arg) => redactValue(arg));
+    text = redacted
+      .map((arg) => (typeof arg === 'string' ? arg : JSON.stringify(arg)))
+      .join(' ');
+  } catch {
+    text = '[unserializable]';
+  }
+  return text.length > MAX_DATA_LENGTH ? `${text.slice(0, MAX_DATA_LENGTH)}…` : text;
+}
+
+/**
+ * Formats one entry as a single line for sharing
+ */
+export function formatLogEntry(entry: LogEntry): string {
+  const line = `${entry.timestamp} ${entry.level.toUpperCase()} [${entry.category}] ${entry.message}`;
+  return entry.data ? `${line} ${entry.data}` : line;
+}
+
+/**
+ * Entries at or above a level, optionally limited to one category
+ */
+export function filterLogEntries(entries: LogEntry[], minLevel: LogLevel, category?: LogCategory | null): LogEntry[] {
+  const minIndex = LOG_LEVELS.indexOf(minLevel);
+  return entries.filter(
+    (entry) => LOG_LEVELS.indexOf(entry.level) >= minIndex && (!category || entry.category === category)
+  );
+}
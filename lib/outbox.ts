@@ -0,0 +1,108 @@
+import type { Alert, Device, Socket } from './api';
+
+// Mutations that can be recorded while offline and replayed later
+export type OutboxMutation =
+  | { type: 'archiveAlert'; params: { alertId: string } }
+  | { type: 'pairDevice'; params: { deviceId: string; name?: string } }
+  | { type: 'createSocket'; params: { socketName: string; location?: string; sensorIds?: string[] } }
+  | { type: 'unpairDevice'; params: { deviceId: string } };
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export type OutboxEntry = OutboxMutation & {
+  id: string; // also sent as the Idempotency-Key header
+  userId: string; // account that made the change; only replayed while it is signed in
+  createdAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  error?: string; // server message for permanent failures
+};
+
+// IDs given to sockets that exist only in the outbox so far
+const PENDING_ID_PREFIX = 'pending_';
+
+/**
+ * Creates a unique idempotency key for a mutation
+ * @returns Key string
+ */
+export function createIdempotencyKey(): string {
+  return `mut_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Whether an ID belongs to an item created offline that the server hasn't seen yet
+ */
+export function isPendingId(id: string): boolean {
+  return id.startsWith(PENDING_ID_PREFIX);
+}
+
+/**
+ * Describes a mutation for the pending changes list
+ * @param mutation - Outbox mutation
+ * @returns Short description, e.g. "Create socket \"Kitchen\""
+ */
+export function describeMutation(mutation: OutboxMutation): string {
+  switch (mutation.type) {
+    case 'archiveAlert':
+      return 'Archive alert';
+    case 'pairDevice':
+      return `Pair device ${mutation.params.name || mutation.params.deviceId}`;
+    case 'createSocket':
+      return `Create socket "${mutation.params.socketName}"`;
+    case 'unpairDevice':
+      return `Unpair device ${mutation.params.deviceId}`;
+  }
+}
+
+// Only mutations still waiting to be sent change what the user sees;
+// permanently failed ones never happened
+const pendingOfType = <T extends OutboxMutation['type']>(entries: OutboxEntry[], type: T) =>
+  entries.filter((e): e is Extract<OutboxEntry, { type: T }> => e.status === 'pending' && e.type === type);
+
+/**
+ * Hides alerts with a pending archive
+ */
+export function applyPendingToAlerts(alerts: Alert[], entries: OutboxEntry[]): Alert[] {
+  const archived = new Set(pendingOfType(entries, 'archiveAlert').map((e) => e.params.alertId));
+  return archived.size > 0 ? alerts.filter((alert) => !archived.has(alert.id)) : alerts;
+}
+
+/**
+ * Hides devices with a pending unpair and adds devices with a pending pair
+ */
+export function applyPendingToDevices(devices: Device[], entries: OutboxEntry[]): Device[] {
+  const unpaired = new Set(pendingOfType(entries, 'unpairDevice').map((e) => e.params.deviceId));
+  const result = devices.filter((device) => !unpaired.has(device.deviceId));
+
+  pendingOfType(entries, 'pairDevice').forEach((entry) => {
+    if (result.some((device) => device.deviceId === entry.params.deviceId)) return;
+    result.push({
+      id: PENDING_ID_PREFIX + entry.id,
+      deviceId: entry.params.deviceId,
+      name: entry.params.name,
+      pairedAt: entry.createdAt,
+      isActive: false,
+    });
+  });
+  return result;
+}
+
+/**
+ * Adds sockets with a pending create
+ */
+export function applyPendingToSockets(sockets: Socket[], entries: OutboxEntry[]): Socket[] {
+  const created = pendingOfType(entries, 'createSocket');
+  if (created.length === 0) return sockets;
+
+  return [
+    ...sockets,
+    ...created.map((entry) => ({
+      id: PENDING_ID_PREFIX + entry.id,
+      name: entry.params.socketName,
+      location: entry.params.location,
+      createdAt: entry.createdAt,
+      updatedAt: entry.createdAt,
+      devices: [],
+    })),
+  ];
+}
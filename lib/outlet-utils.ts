@@ -1,14 +1,20 @@
-import { SensorReading } from './api';
+import { PowerMeasurement, SensorReading, ThresholdProfile } from './api';
+import { createDefaultChannelMap, DeviceChannelMap, OutletChannelConfig } from './channel-map';
+import type { BreakerStates } from './device-commands';
+import { DEFAULT_THRESHOLDS } from './thresholds';
+import { MIN_LIVE_VOLTAGE } from './telemetry';
 
 export interface OutletData {
-  outletNumber: 1 | 2;
+  outletNumber: number;
+  name: string;
   deviceId: string;
-  waterSensors: [number | null, number | null];
+  channels: OutletChannelConfig; // board resources this outlet reads from
+  waterSensors: (number | null)[]; // one value per mapped water sensor (1 = wet, 0 = dry)
   temperature: number | null;
   movement: number | null;
   gas: boolean;
-  breakerState: boolean;
-  power?: string | null;
+  breakerState: boolean | null; // null until the device reports it
+  power?: PowerMeasurement | null;
   receivedAt: string;
 }
 
@@ -18,73 +24,78 @@ interface StatusResult {
 }
 
 /**
- * Splits sensor data into two outlet-specific data objects
+ * Splits sensor data into one data object per outlet using the device's channel map
  * @param reading - The sensor reading from the API
- * @param breaker1State - State of breaker 1 (true = ON, false = OFF)
- * @param breaker2State - State of breaker 2 (true = ON, false = OFF)
- * @returns Tuple of [Outlet1Data, Outlet2Data]
+ * @param breakerStates - Known breaker states [breaker1, breaker2] (null = unknown)
+ * @param channelMap - How the board's sensors, channels and breakers map to outlets
+ * @returns One OutletData per outlet in the channel map, in outlet order
  */
 export function splitSensorDataByOutlet(
   reading: SensorReading | null,
-  breaker1State: boolean = true,
-  breaker2State: boolean = true
-): [OutletData, OutletData] {
-  if (!reading) {
-    // Return empty data if no reading
-    const emptyOutlet = (outletNumber: 1 | 2): OutletData => ({
-      outletNumber,
-      deviceId: '',
-      waterSensors: [null, null],
-      temperature: null,
-      movement: null,
-      gas: false,
-      breakerState: outletNumber === 1 ? breaker1State : breaker2State,
-      receivedAt: new Date().toISOString(),
-    });
-
-    return [emptyOutlet(1), emptyOutlet(2)];
-  }
+  breakerStates: BreakerStates = [null, null],
+  channelMap: DeviceChannelMap = createDefaultChannelMap()
+): OutletData[] {
+  return channelMap.outlets.map((channels) => {
+    const breakerState = channels.breaker !== null ? breakerStates[channels.breaker - 1] : null;
 
-  // Water detection is now zone-based: water[0] and water[1] both represent Zone 1,
-  // water[2] and water[3] both represent Zone 2 (they have the same value per zone)
-  // Convert to boolean: 1 = detected, 0 = not detected
-  const zone1Detected = reading.water[0] === 1 || reading.water[1] === 1;
-  const zone2Detected = reading.water[2] === 1 || reading.water[3] === 1;
-
-  const outlet1: OutletData = {
-    outletNumber: 1,
-    deviceId: reading.deviceId,
-    waterSensors: zone1Detected ? [1, 1] : [0, 0], // Zone 1 detection (boolean as 0/1 for compatibility)
-    temperature: reading.temperature.temp1 ?? null,
-    movement: reading.gyro.movement ?? null,
-    gas: reading.gas,
-    breakerState: breaker1State,
-    power: reading.power,
-    receivedAt: reading.receivedAt,
-  };
+    if (!reading) {
+      // Empty data if no reading
+      return {
+        outletNumber: channels.outletNumber,
+        name: channels.name,
+        deviceId: '',
+        channels,
+        waterSensors: channels.waterSensors.map(() => null),
+        temperature: null,
+        movement: null,
+        gas: false,
+        breakerState,
+        receivedAt: new Date().toISOString(),
+      };
+    }
 
-  const outlet2: OutletData = {
-    outletNumber: 2,
-    deviceId: reading.deviceId,
-    waterSensors: zone2Detected ? [1, 1] : [0, 0], // Zone 2 detection (boolean as 0/1 for compatibility)
-    temperature: reading.temperature.temp2 ?? null,
-    movement: reading.gyro.movement ?? null,
-    gas: reading.gas,
-    breakerState: breaker2State,
-    power: reading.power,
-    receivedAt: reading.receivedAt,
-  };
+    const temperature = channels.temperatureProbe === 1
+      ? reading.temperature.temp1
+      : channels.temperatureProbe === 2 ? reading.temperature.temp2 : null;
 
-  return [outlet1, outlet2];
+    return {
+      outletNumber: channels.outletNumber,
+      name: channels.name,
+      deviceId: reading.deviceId,
+      channels,
+      waterSensors: channels.waterSensors.map((i) => reading.water[i] ?? null),
+      temperature: temperature ?? null,
+      movement: reading.gyro.movement ?? null, // gyro is board-level, shared by every outlet
+      gas: reading.gas, // gas is board-level, shared by every outlet
+      breakerState,
+      power: reading.power,
+      receivedAt: reading.receivedAt,
+    };
+  });
 }
 
 /**
- * Gets the status of water sensors (zone-based detection)
- * @param waterSensors - Array of 2 water sensor values (both represent the same zone, 1 = detected, 0 = not detected)
+ * Gets the measured values of an outlet's power channel
+ * @param outlet - Outlet data
+ * @returns Voltage, current and watts (null when the outlet has no channel or it isn't measured)
+ */
+export function getOutletPower(outlet: OutletData): { voltage: number | null; current: number | null; watts: number | null } {
+  const channel = outlet.channels.powerChannel !== null
+    ? outlet.power?.channels[outlet.channels.powerChannel - 1]
+    : undefined;
+  return {
+    voltage: channel?.voltage ?? null,
+    current: channel?.current ?? null,
+    watts: channel?.watts ?? null,
+  };
+}
+
+/**
+ * Gets the status of an outlet's water sensors (detected if any sensor is wet)
+ * @param waterSensors - Values of the outlet's water sensors (1 = detected, 0 = not detected)
  * @returns Status object with status text and color
  */
-export function getWaterStatus(waterSensors: [number | null, number | null]): StatusResult {
-  // Since both values in the array represent the same zone, check if either is 1 (detected)
+export function getWaterStatus(waterSensors: (number | null)[]): StatusResult {
   const hasWater = waterSensors.some(val => val !== null && val === 1);
   
   if (hasWater) {
@@ -112,9 +123,13 @@ export function getWaterStatus(waterSensors: [number | null, number | null]): St
 /**
  * Gets the temperature status
  * @param temperature - Temperature value in Celsius
+ * @param thresholds - Socket temperature limits (defaults to 30/40 °C)
  * @returns Status object with status text and color
  */
-export function getTempStatus(temperature: number | null): StatusResult {
+export function getTempStatus(
+  temperature: number | null,
+  thresholds: ThresholdProfile['temperature'] = DEFAULT_THRESHOLDS.temperature
+): StatusResult {
   if (temperature === null || temperature === undefined) {
     return {
       status: 'N/A',
@@ -122,16 +137,12 @@ export function getTempStatus(temperature: number | null): StatusResult {
     };
   }
 
-  // Define temperature thresholds
-  const HIGH_TEMP_THRESHOLD = 40; // °C
-  const NORMAL_MAX = 30; // °C
-
-  if (temperature >= HIGH_TEMP_THRESHOLD) {
+  if (temperature >= thresholds.high) {
     return {
       status: 'High',
       color: '#F44336', // Red
     };
-  } else if (temperature > NORMAL_MAX) {
+  } else if (temperature > thresholds.warm) {
     return {
       status: 'Warm',
       color: '#FF9800', // Orange
@@ -147,9 +158,13 @@ export function getTempStatus(temperature: number | null): StatusResult {
 /**
  * Gets the movement status
  * @param movement - Movement/gyro value
+ * @param thresholds - Socket movement limits (defaults to 0.5/1.0)
  * @returns Status object with status text and color
  */
-export function getMovementStatus(movement: number | null): StatusResult {
+export function getMovementStatus(
+  movement: number | null,
+  thresholds: ThresholdProfile['movement'] = DEFAULT_THRESHOLDS.movement
+): StatusResult {
   if (movement === null || movement === undefined) {
     return {
       status: 'N/A',
@@ -157,16 +172,12 @@ export function getMovementStatus(movement: number | null): StatusResult {
     };
   }
 
-  // Define movement thresholds
-  const HIGH_MOVEMENT_THRESHOLD = 1.0;
-  const MODERATE_MOVEMENT_THRESHOLD = 0.5;
-
-  if (Math.abs(movement) >= HIGH_MOVEMENT_THRESHOLD) {
+  if (Math.abs(movement) >= thresholds.high) {
     return {
       status: 'High',
       color: '#F44336', // Red
     };
-  } else if (Math.abs(movement) >= MODERATE_MOVEMENT_THRESHOLD) {
+  } else if (Math.abs(movement) >= thresholds.moderate) {
     return {
       status: 'Moderate',
       color: '#FF9800', // Orange
@@ -180,10 +191,99 @@ export function getMovementStatus(movement: number | null): StatusResult {
 }
 
 /**
- * Gets the display name for an outlet
- * @param outletNumber - The outlet number (1 or 2)
+ * Gets the voltage status
+ * @param voltage - Channel voltage in volts
+ * @param thresholds - Socket voltage limits
+ * @returns Status object with status text and color
+ */
+export function getVoltageStatus(
+  voltage: number | null,
+  thresholds: ThresholdProfile['voltage'] = DEFAULT_THRESHOLDS.voltage
+): StatusResult {
+  if (voltage === null || voltage === undefined || voltage < MIN_LIVE_VOLTAGE) {
+    return {
+      status: 'No Voltage',
+      color: '#FFC107', // Amber
+    };
+  }
+
+  if (voltage < thresholds.min) {
+    return {
+      status: 'Low',
+      color: '#FF9800', // Orange
+    };
+  } else if (voltage > thresholds.max) {
+    return {
+      status: 'High',
+      color: '#F44336', // Red
+    };
+  } else {
+    return {
+      status: 'OK',
+      color: '#4CAF50', // Green
+    };
+  }
+}
+
+/**
+ * Gets the current (load) status
+ * @param current - Channel current in amps
+ * @param thresholds - Socket current limit
+ * @returns Status object with status text and color
+ */
+export function getCurrentStatus(
+  current: number | null,
+  thresholds: ThresholdProfile['current'] = DEFAULT_THRESHOLDS.current
+): StatusResult {
+  if (current === null || current === undefined) {
+    return {
+      status: 'N/A',
+      color: '#666666', // Gray
+    };
+  }
+
+  if (current > thresholds.max) {
+    return {
+      status: 'Overload',
+      color: '#F44336', // Red
+    };
+  } else if (current > thresholds.max * 0.8) {
+    return {
+      status: 'Near Limit',
+      color: '#FF9800', // Orange
+    };
+  } else {
+    return {
+      status: 'Normal',
+      color: '#4CAF50', // Green
+    };
+  }
+}
+
+/**
+ * Gets the breaker status
+ * @param breakerState - true = ON, false = OFF, null = not reported yet
+ * @returns Status object with status text and color
+ */
+export function getBreakerStatus(breakerState: boolean | null): StatusResult {
+  if (breakerState === null || breakerState === undefined) {
+    return {
+      status: 'Unknown',
+      color: '#666666', // Gray
+    };
+  }
+
+  return breakerState
+    ? { status: 'Active', color: '#4CAF50' } // Green
+    : { status: 'Tripped', color: '#F44336' }; // Red
+}
+
+/**
+ * Gets the display name for an outlet on a standard 2-outlet board
+ * (use OutletData.name when a channel map is available)
+ * @param outletNumber - The outlet number
  * @returns Display name for the outlet
  */
-export function getOutletName(outletNumber: 1 | 2): string {
-  return outletNumber === 1 ? 'Primary' : 'Secondary';
+export function getOutletName(outletNumber: number): string {
+  return createDefaultChannelMap().outlets.find((o) => o.outletNumber === outletNumber)?.name ?? `Outlet ${outletNumber}`;
 }
@@ -0,0 +1,39 @@
+import type { ShareRole } from './api';
+
+export const ROLE_LABELS: Record<ShareRole, string> = {
+  owner: 'Owner',
+  controller: 'Controller',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<ShareRole, string> = {
+  owner: 'Full access, including sharing and setup',
+  controller: 'Can view telemetry and operate breakers',
+  viewer: 'Can view telemetry and alerts only',
+};
+
+// Roles an owner can hand out when inviting or changing a member
+export const ASSIGNABLE_ROLES: Exclude<ShareRole, 'owner'>[] = ['controller', 'viewer'];
+
+/**
+ * Resolves the caller's role on a socket or device
+ * @param item - Socket or device from the API (may be null)
+ * @returns Role; items without one belong to the caller
+ */
+export function getRole(item: { role?: ShareRole } | null | undefined): ShareRole {
+  return item?.role ?? 'owner';
+}
+
+/**
+ * Whether a role may send device commands (breakers, TRIP_ALL, SHAKE_TEST)
+ */
+export function canControl(role: ShareRole): boolean {
+  return role !== 'viewer';
+}
+
+/**
+ * Whether a role may edit the socket and manage its members
+ */
+export function canManage(role: ShareRole): boolean {
+  return role === 'owner';
+}
@@ -0,0 +1,57 @@
+// Renew the access token this long before it expires
+export const REFRESH_LEAD_MS = 60000;
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decodes base64url text (JWT segments), without relying on atob being available
+ */
+function decodeBase64Url(input: string): string {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  let bits = 0;
+  let bitCount = 0;
+  let output = '';
+  for (const char of base64) {
+    const value = BASE64_ALPHABET.indexOf(char);
+    if (value === -1) break; // padding
+    bits = (bits << 6) | value;
+    bitCount += 6;
+    if (bitCount >= 8) {
+      bitCount -= 8;
+      output += String.fromCharCode((bits >> bitCount) & 0xff);
+    }
+  }
+  return output;
+}
+
+/**
+ * Reads the expiry from a JWT access token
+ * @param token - Access token
+ * @returns Expiry as epoch ms, or null when the token isn't a JWT with an exp claim
+ */
+export function decodeTokenExpiry(token: string): number | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(decodeBase64Url(payload));
+    return typeof claims?.exp === 'number' ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a token with this expiry is due for renewal
+ * @param expiresAt - Expiry as epoch ms (null: unknown, never due)
+ * @param now - Epoch ms
+ */
+export function isRenewalDue(expiresAt: number | null, now: number): boolean {
+  return expiresAt !== null && expiresAt - REFRESH_LEAD_MS <= now;
+}
+
+/**
+ * Time until the token should be renewed (0 when already due)
+ */
+export function getRenewalDelay(expiresAt: number, now: number): number {
+  return Math.max(0, expiresAt - REFRESH_LEAD_MS - now);
+}
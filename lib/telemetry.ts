@@ -0,0 +1,332 @@
+import type { PowerChannel, PowerMeasurement, PowerStatus, SensorReading } from './api';
+
+type WaterArray = SensorReading['water'];
+
+interface RawTelemetry {
+  deviceId: string;
+  messageType: string;
+  payload: any;
+  receivedAt?: string;
+}
+
+// Below this voltage a channel is considered unpowered (sensor noise floor)
+export const MIN_LIVE_VOLTAGE = 10; // V
+
+// Key variants the ESP32 firmware has used for each temperature probe
+const TEMP1_KEYS = ['temp1', 'temp_1', 't1', 'temperature1', 'temperature_1'];
+const TEMP2_KEYS = ['temp2', 'temp_2', 't2', 'temperature2', 'temperature_2'];
+
+/**
+ * Converts a loosely typed value to a finite number
+ * @param value - Number or numeric string
+ * @returns The number, or null if not numeric
+ */
+function toNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const n = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Converts a water sensor value to 1 (wet), 0 (dry) or null
+ */
+function toWaterValue(value: unknown): number | null {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'true' || normalized === 'wet') return 1;
+    if (normalized === 'false' || normalized === 'dry') return 0;
+  }
+  const n = toNumber(value);
+  if (n === null) return null;
+  return n > 0 ? 1 : 0;
+}
+
+/**
+ * Reads the first numeric value found under any of the given keys
+ */
+function pickNumber(source: any, keys: string[]): number | null {
+  if (!source || typeof source !== 'object') return null;
+  for (const key of keys) {
+    const n = toNumber(source[key]);
+    if (n !== null) return n;
+  }
+  return null;
+}
+
+/**
+ * Normalizes the water field to a 4-slot array
+ * Accepts boolean/number/string arrays and { zone1, zone2 } objects
+ * (zone objects expand to [zone1, zone1, zone2, zone2]).
+ */
+export function normalizeWater(water: unknown): WaterArray {
+  if (Array.isArray(water)) {
+    return [0, 1, 2, 3].map((i) => toWaterValue(water[i])) as WaterArray;
+  }
+
+  if (water && typeof water === 'object') {
+    const zones = water as Record<string, unknown>;
+    const zone1 = toWaterValue(zones.zone1 ?? zones.zone_1);
+    const zone2 = toWaterValue(zones.zone2 ?? zones.zone_2);
+    return [zone1, zone1, zone2, zone2];
+  }
+
+  return [null, null, null, null];
+}
+
+/**
+ * Normalizes temperature probes from nested, flat or array payloads
+ * @returns { temp1, temp2 } in °C
+ */
+export function normalizeTemperature(payload: any): SensorReading['temperature'] {
+  const temperature = payload?.temperature;
+
+  if (Array.isArray(temperature)) {
+    return {
+      temp1: toNumber(temperature[0]),
+      temp2: toNumber(temperature[1]),
+    };
+  }
+
+  return {
+    temp1: pickNumber(temperature, TEMP1_KEYS) ?? pickNumber(payload, TEMP1_KEYS),
+    temp2: pickNumber(temperature, TEMP2_KEYS) ?? pickNumber(payload, TEMP2_KEYS),
+  };
+}
+
+/**
+ * Normalizes the gas flag (boolean, 0/1 or 'DETECTED'/'true' strings)
+ */
+export function normalizeGas(gas: unknown): boolean {
+  if (typeof gas === 'string') {
+    const normalized = gas.trim().toLowerCase();
+    return normalized === 'true' || normalized === 'detected' || normalized === '1';
+  }
+  if (typeof gas === 'number') return gas !== 0;
+  return Boolean(gas);
+}
+
+/**
+ * Normalizes the movement value from { gyro: { movement } }, { gyro: n } or { movement }
+ */
+export function normalizeMovement(payload: any): number | null {
+  const gyro = payload?.gyro;
+  if (gyro !== null && typeof gyro === 'object') {
+    const movement = toNumber(gyro.movement);
+    if (movement !== null) return movement;
+  }
+  return toNumber(gyro) ?? toNumber(payload?.movement);
+}
+
+/**
+ * Builds one power channel, deriving watts when voltage and current are both known
+ */
+function buildChannel(voltage: unknown, current: unknown, voltageRaw: unknown, currentRaw: unknown): PowerChannel {
+  const v = toNumber(voltage);
+  const c = toNumber(current);
+  return {
+    voltage: v,
+    current: c,
+    voltageRaw: toNumber(voltageRaw),
+    currentRaw: toNumber(currentRaw),
+    watts: v !== null && c !== null ? v * c : null,
+  };
+}
+
+/**
+ * Maps a firmware power_status string to a status and supply source
+ */
+function parsePowerStatusString(value: string): { status: PowerStatus | null; supply: 'MAIN' | 'BACKUP' | null } {
+  const normalized = value.trim().toUpperCase();
+  if (normalized === 'MAIN' || normalized === 'BACKUP') {
+    return { status: null, supply: normalized };
+  }
+  if (normalized.includes('TRIP') || normalized === 'OFF') return { status: 'tripped', supply: null };
+  if (normalized.includes('ABNORMAL') || normalized.includes('FAULT')) return { status: 'abnormal', supply: null };
+  if (normalized === 'NORMAL' || normalized === 'OK' || normalized === 'ON') return { status: 'normal', supply: null };
+  return { status: null, supply: null };
+}
+
+/**
+ * Derives a status from the measured channel voltages
+ */
+function deriveStatus(channels: [PowerChannel, PowerChannel]): PowerStatus {
+  const voltages = channels.map((c) => c.voltage).filter((v): v is number => v !== null);
+  if (voltages.length === 0) return 'unknown';
+  return voltages.some((v) => v >= MIN_LIVE_VOLTAGE) ? 'normal' : 'no_voltage';
+}
+
+/**
+ * Parses the power fields of a payload into a PowerMeasurement
+ * Handles a nested power object, a JSON string (legacy API readings), flat
+ * voltage/current fields and a bare power_status string.
+ * @param payload - Telemetry payload or API reading
+ * @returns Structured measurement, or null if the payload has no power data
+ */
+export function normalizePower(payload: any): PowerMeasurement | null {
+  let source: any = payload?.power;
+
+  // Legacy readings stored the power object as a JSON string
+  if (typeof source === 'string') {
+    try {
+      source = JSON.parse(source);
+    } catch {
+      // Plain status string such as 'MAIN' or 'TRIPPED'
+    }
+  }
+
+  let statusString: string | null = typeof payload?.power_status === 'string' ? payload.power_status : null;
+  if (typeof source === 'string') {
+    statusString = source;
+    source = null;
+  } else if (typeof source === 'number') {
+    source = { voltage: source };
+  }
+
+  // Flat voltage/current fields on the payload itself
+  const fields = source && typeof source === 'object' ? source : payload;
+  const hasMeasurements = fields && [
+    'voltage1', 'voltage2', 'voltage', 'v1', 'v2', 'current1', 'current2', 'current',
+  ].some((key) => fields[key] !== undefined && fields[key] !== null);
+
+  if (!hasMeasurements && statusString === null) {
+    return null;
+  }
+
+  const channels: [PowerChannel, PowerChannel] = hasMeasurements
+    ? [
+        buildChannel(
+          fields.voltage1 ?? fields.v1 ?? fields.voltage,
+          fields.current1 ?? fields.current,
+          fields.v1_raw ?? fields.voltage1_raw,
+          fields.c1_raw ?? fields.current1_raw
+        ),
+        buildChannel(
+          fields.voltage2 ?? fields.v2,
+          fields.current2,
+          fields.v2_raw ?? fields.voltage2_raw,
+          fields.c2_raw ?? fields.current2_raw
+        ),
+      ]
+    : [buildChannel(null, null, null, null), buildChannel(null, null, null, null)];
+
+  const parsedStatus = statusString !== null ? parsePowerStatusString(statusString) : { status: null, supply: null };
+
+  return {
+    channels,
+    status: parsedStatus.status ?? deriveStatus(channels),
+    supply: parsedStatus.supply,
+  };
+}
+
+/**
+ * Gets the voltage of one outlet's channel
+ * @param power - Parsed power measurement
+ * @param outletNumber - Outlet (channel) number, 1-based
+ * @returns Voltage in volts, or null if not measured
+ */
+export function getChannelVoltage(power: PowerMeasurement | null | undefined, outletNumber: number): number | null {
+  return power?.channels[outletNumber - 1]?.voltage ?? null;
+}
+
+/**
+ * Averages voltage and current over the channels that are carrying power
+ * @param power - Parsed power measurement
+ * @returns Average voltage and current (null when no channel reports a positive value)
+ */
+export function getAveragePower(power: PowerMeasurement | null | undefined): { voltage: number | null; current: number | null } {
+  if (!power) return { voltage: null, current: null };
+
+  const average = (values: (number | null)[]) => {
+    const positive = values.filter((v): v is number => v !== null && v > 0);
+    return positive.length > 0 ? positive.reduce((a, b) => a + b, 0) / positive.length : null;
+  };
+
+  return {
+    voltage: average(power.channels.map((c) => c.voltage)),
+    current: average(power.channels.map((c) => c.current)),
+  };
+}
+
+/**
+ * Turns a sensor_reading / power_status WebSocket message into a SensorReading
+ * @param telemetry - Raw telemetry message ({ deviceId, messageType, payload, receivedAt })
+ * @returns Normalized reading, or null for other message types
+ */
+export function normalizeTelemetry(telemetry: RawTelemetry): SensorReading | null {
+  if (telemetry.messageType !== 'sensor_reading' && telemetry.messageType !== 'power_status') {
+    return null;
+  }
+
+  const payload = telemetry.payload ?? {};
+  const receivedAt = telemetry.receivedAt || new Date().toISOString();
+
+  return {
+    id: `${telemetry.deviceId}_${new Date(receivedAt).getTime()}`,
+    deviceId: telemetry.deviceId,
+    water: normalizeWater(payload.water),
+    gas: normalizeGas(payload.gas),
+    temperature: normalizeTemperature(payload),
+    gyro: {
+      movement: normalizeMovement(payload),
+    },
+    power: normalizePower(payload),
+    receivedAt,
+  };
+}
+
+/**
+ * Normalizes a reading returned by the REST API so it matches WebSocket readings
+ * (tolerates device_id/received_at and flat field variants)
+ * @param raw - Reading object from /api/telemetry/sensors
+ * @returns Normalized reading
+ */
+export function normalizeSensorReading(raw: any): SensorReading {
+  const deviceId = raw?.deviceId ?? raw?.device_id ?? '';
+  const receivedAt = raw?.receivedAt ?? raw?.received_at ?? new Date().toISOString();
+
+  return {
+    id: raw?.id ?? `${deviceId}_${new Date(receivedAt).getTime()}`,
+    deviceId,
+    water: normalizeWater(raw?.water),
+    gas: normalizeGas(raw?.gas),
+    temperature: normalizeTemperature(raw),
+    gyro: {
+      movement: normalizeMovement(raw),
+    },
+    power: normalizePower(raw),
+    receivedAt,
+  };
+}
+
+// Readings from the same device closer together than this are one reading seen twice (live + backfill)
+const DUPLICATE_WINDOW_MS = 1000;
+
+/**
+ * Merges readings into a series, newest first, dropping duplicates
+ * @param existing - Current series
+ * @param incoming - Live or backfilled readings, in any order
+ * @param limit - Maximum readings to keep
+ * @returns Merged series (the existing array when nothing new was added)
+ */
+export function mergeReadings(existing: SensorReading[], incoming: SensorReading[], limit: number = 100): SensorReading[] {
+  if (incoming.length === 0) return existing;
+
+  const sorted = [...existing, ...incoming]
+    .map((reading) => ({ reading, time: new Date(reading.receivedAt).getTime() }))
+    .sort((a, b) => b.time - a.time);
+
+  const kept: SensorReading[] = [];
+  // Newest-first, so only the last kept reading per device can be within the window
+  const lastKept = new Map<string, number>();
+  for (const { reading, time } of sorted) {
+    const previous = lastKept.get(reading.deviceId);
+    if (previous !== undefined && previous - time < DUPLICATE_WINDOW_MS) continue;
+    lastKept.set(reading.deviceId, time);
+    kept.push(reading);
+    if (kept.length >= limit) break;
+  }
+
+  const unchanged = kept.length === existing.length && kept.every((reading, i) => reading === existing[i]);
+  return unchanged ? existing : kept;
+}
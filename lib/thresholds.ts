@@ -0,0 +1,84 @@
+import type { ThresholdProfile } from './api';
+import type { OutletData } from './outlet-utils';
+import { MIN_LIVE_VOLTAGE } from './telemetry';
+
+// Limits used when a socket has no profile of its own
+export const DEFAULT_THRESHOLDS: ThresholdProfile = {
+  temperature: { warm: 30, high: 40 },
+  movement: { moderate: 0.5, high: 1.0 },
+  voltage: { min: 200, max: 250 },
+  current: { max: 10 },
+};
+
+export interface ThresholdBreach {
+  alertType: 'HIGH_TEMPERATURE' | 'GROUND_MOVEMENT_DETECTED' | 'POWER_ABNORMAL' | 'OVERCURRENT';
+  sensor: string;
+  value: number;
+}
+
+/**
+ * Fills in any limits missing from a stored or backend profile
+ * @param profile - Partial profile (may be null)
+ * @returns Complete profile
+ */
+export function withDefaultThresholds(profile: Partial<ThresholdProfile> | null | undefined): ThresholdProfile {
+  return {
+    temperature: { ...DEFAULT_THRESHOLDS.temperature, ...profile?.temperature },
+    movement: { ...DEFAULT_THRESHOLDS.movement, ...profile?.movement },
+    voltage: { ...DEFAULT_THRESHOLDS.voltage, ...profile?.voltage },
+    current: { ...DEFAULT_THRESHOLDS.current, ...profile?.current },
+  };
+}
+
+/**
+ * Checks that a profile is usable
+ * @param profile - Profile to validate
+ * @returns Error message, or null if valid
+ */
+export function validateThresholds(profile: ThresholdProfile): string | null {
+  const values = [
+    profile.temperature.warm, profile.temperature.high,
+    profile.movement.moderate, profile.movement.high,
+    profile.voltage.min, profile.voltage.max,
+    profile.current.max,
+  ];
+  if (values.some((v) => !Number.isFinite(v))) return 'All thresholds must be numbers';
+  if (profile.temperature.warm >= profile.temperature.high) return 'Warm temperature must be below high temperature';
+  if (profile.movement.moderate < 0 || profile.movement.moderate >= profile.movement.high) return 'Moderate movement must be between 0 and high movement';
+  if (profile.voltage.min < 0 || profile.voltage.min >= profile.voltage.max) return 'Minimum voltage must be between 0 and maximum voltage';
+  if (profile.current.max <= 0) return 'Maximum current must be greater than 0';
+  return null;
+}
+
+/**
+ * Lists the limits an outlet reading exceeds
+ * Voltage below MIN_LIVE_VOLTAGE is treated as "off" rather than undervoltage.
+ * @param outlet - Outlet data split from a reading
+ * @param profile - Socket threshold profile
+ * @returns Breaches, empty when every value is within limits
+ */
+export function evaluateThresholds(outlet: OutletData, profile: ThresholdProfile): ThresholdBreach[] {
+  const breaches: ThresholdBreach[] = [];
+  const { temperatureProbe, powerChannel } = outlet.channels;
+  const channel = powerChannel !== null ? outlet.power?.channels[powerChannel - 1] : undefined;
+
+  if (outlet.temperature !== null && outlet.temperature >= profile.temperature.high) {
+    breaches.push({ alertType: 'HIGH_TEMPERATURE', sensor: `TEMP${temperatureProbe}`, value: outlet.temperature });
+  }
+
+  if (outlet.movement !== null && Math.abs(outlet.movement) >= profile.movement.high) {
+    breaches.push({ alertType: 'GROUND_MOVEMENT_DETECTED', sensor: 'GYRO', value: outlet.movement });
+  }
+
+  const voltage = channel?.voltage ?? null;
+  if (voltage !== null && voltage >= MIN_LIVE_VOLTAGE && (voltage < profile.voltage.min || voltage > profile.voltage.max)) {
+    breaches.push({ alertType: 'POWER_ABNORMAL', sensor: `VOLTAGE${powerChannel}`, value: voltage });
+  }
+
+  const current = channel?.current ?? null;
+  if (current !== null && current > profile.current.max) {
+    breaches.push({ alertType: 'OVERCURRENT', sensor: `CURRENT${powerChannel}`, value: current });
+  }
+
+  return breaches;
+}
@@ -0,0 +1,223 @@
+import type { DeviceCommand } from './device-commands';
+
+// Version of the /ws/telemetry message format this client speaks
+export const PROTOCOL_VERSION = 1;
+
+export type TelemetryMessageType = 'sensor_reading' | 'alert' | 'power_status' | 'alert_cleared';
+
+export const TELEMETRY_MESSAGE_TYPES: TelemetryMessageType[] = ['sensor_reading', 'alert', 'power_status', 'alert_cleared'];
+
+// Device payloads differ between firmware versions; lib/telemetry normalizes their fields
+export type DevicePayload = Record<string, any>;
+
+export interface AlertPayload extends DevicePayload {
+  alert: string;
+  sensor?: string;
+  value?: number | string | null;
+}
+
+interface TelemetryEnvelope<T extends TelemetryMessageType, P extends DevicePayload> {
+  deviceId: string;
+  messageType: T;
+  payload: P;
+  receivedAt: string;
+}
+
+export type TelemetryMessage =
+  | TelemetryEnvelope<'sensor_reading', DevicePayload>
+  | TelemetryEnvelope<'power_status', DevicePayload>
+  | TelemetryEnvelope<'alert', AlertPayload>
+  | TelemetryEnvelope<'alert_cleared', DevicePayload>;
+
+// Sent once the hello frame authenticated the connection
+export interface ConnectedMessage {
+  type: 'connected';
+  protocolVersion?: number; // Absent from servers that predate versioning
+}
+
+export interface TelemetryServerMessage {
+  type: 'telemetry';
+  data: TelemetryMessage;
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  code?: number | string;
+  message?: string;
+}
+
+export interface CommandAckMessage {
+  type: 'command_ack';
+  correlationId: string;
+  success?: boolean;
+  status?: string;
+  error?: string;
+  message?: string;
+  payload?: DevicePayload; // Breaker states reported with the ack
+}
+
+export interface SubscriptionMessage {
+  type: 'subscription';
+  status: 'subscribed' | 'unsubscribed' | 'rejected';
+  deviceIds?: string[];
+  messageTypes?: TelemetryMessageType[];
+  message?: string;
+}
+
+// Confirms a reauth frame; the connection now runs on the new token
+export interface ReauthenticatedMessage {
+  type: 'reauthenticated';
+}
+
+// Reply to a client ping, echoing its id
+export interface PongMessage {
+  type: 'pong';
+  id: string;
+}
+
+export type ServerMessage =
+  | ConnectedMessage
+  | ReauthenticatedMessage
+  | PongMessage
+  | TelemetryServerMessage
+  | ErrorMessage
+  | CommandAckMessage
+  | SubscriptionMessage;
+
+// Streams a client asks for; deviceIds omitted means every device on the account
+export interface StreamSelection {
+  deviceIds?: string[];
+  messageTypes: TelemetryMessageType[];
+}
+
+export type ClientMessage =
+  | { type: 'hello'; protocolVersion: number; token: string }
+  | { type: 'reauth'; token: string }
+  | { type: 'ping'; id: string; timestamp: string }
+  | ({ type: 'subscribe' } & StreamSelection)
+  | ({ type: 'unsubscribe' } & StreamSelection)
+  | { type: 'command_sent'; command: DeviceCommand; deviceId: string; correlationId: string; timestamp: string };
+
+export type ProtocolErrorKind = 'malformed' | 'unknown' | 'invalid';
+
+export type ParseResult =
+  | { ok: true; message: ServerMessage }
+  | { ok: false; kind: ProtocolErrorKind; reason: string };
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isOptional = (value: unknown, type: 'string' | 'number' | 'boolean'): boolean =>
+  value === undefined || value === null || typeof value === type;
+
+const invalid = (reason: string): ParseResult => ({ ok: false, kind: 'invalid', reason });
+
+/**
+ * Checks a telemetry envelope and fills in receivedAt when the server omits it
+ * @returns The typed message, or an error reason
+ */
+function parseTelemetry(data: unknown): TelemetryMessage | string {
+  if (!isObject(data)) return 'telemetry without data';
+  if (typeof data.deviceId !== 'string' || !data.deviceId) return 'telemetry without deviceId';
+  if (!TELEMETRY_MESSAGE_TYPES.includes(data.messageType)) return `unknown messageType "${data.messageType}"`;
+  if (!isObject(data.payload)) return `${data.messageType} without payload`;
+  if (data.messageType === 'alert' && typeof data.payload.alert !== 'string') return 'alert without alert type';
+  if (!isOptional(data.receivedAt, 'string')) return 'receivedAt is not a string';
+
+  return {
+    deviceId: data.deviceId,
+    messageType: data.messageType,
+    payload: data.payload,
+    receivedAt: data.receivedAt || new Date().toISOString(),
+  } as TelemetryMessage;
+}
+
+/**
+ * Parses and validates one frame from /ws/telemetry
+ * @param raw - Frame text
+ * @returns The typed message, or why it was rejected (malformed JSON, unknown type, invalid fields)
+ */
+export function parseServerMessage(raw: unknown): ParseResult {
+  if (typeof raw !== 'string') return { ok: false, kind: 'malformed', reason: 'non-text frame' };
+
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return { ok: false, kind: 'malformed', reason: 'invalid JSON' };
+  }
+  if (!isObject(message)) return { ok: false, kind: 'malformed', reason: 'frame is not an object' };
+
+  switch (message.type) {
+    case 'connected':
+      if (!isOptional(message.protocolVersion, 'number')) return invalid('protocolVersion is not a number');
+      return { ok: true, message: { type: 'connected', protocolVersion: message.protocolVersion ?? undefined } };
+
+    case 'reauthenticated':
+      return { ok: true, message: { type: 'reauthenticated' } };
+
+    case 'pong':
+      if (typeof message.id !== 'string') return invalid('pong without id');
+      return { ok: true, message: { type: 'pong', id: message.id } };
+
+    case 'telemetry': {
+      const data = parseTelemetry(message.data);
+      if (typeof data === 'string') return invalid(data);
+      return { ok: true, message: { type: 'telemetry', data } };
+    }
+
+    case 'error':
+      if (!isOptional(message.message, 'string')) return invalid('error message is not a string');
+      return { ok: true, message: { type: 'error', code: message.code, message: message.message } };
+
+    case 'command_ack':
+      if (typeof message.correlationId !== 'string') return invalid('command_ack without correlationId');
+      if (!isOptional(message.success, 'boolean')) return invalid('success is not a boolean');
+      if (message.payload !== undefined && !isObject(message.payload)) return invalid('command_ack payload is not an object');
+      return { ok: true, message: message as CommandAckMessage };
+
+    case 'subscription':
+      if (!['subscribed', 'unsubscribed', 'rejected'].includes(message.status)) {
+        return invalid(`unknown subscription status "${message.status}"`);
+      }
+      if (message.deviceIds !== undefined && !Array.isArray(message.deviceIds)) return invalid('deviceIds is not an array');
+      return { ok: true, message: message as SubscriptionMessage };
+
+    default:
+      return { ok: false, kind: 'unknown', reason: `unknown type "${String(message.type)}"` };
+  }
+}
+
+// Device part of a stream key that stands for every device
+const ALL_DEVICES = '*';
+
+/**
+ * Stream keys ("deviceId|messageType") for a subscription, used for reference counting
+ * @param deviceId - One device, or every device when omitted
+ * @param messageTypes - Message types, or all of them when omitted
+ */
+export function getStreamKeys(deviceId?: string, messageTypes?: TelemetryMessageType[]): string[] {
+  return (messageTypes ?? TELEMETRY_MESSAGE_TYPES).map((type) => `${deviceId ?? ALL_DEVICES}|${type}`);
+}
+
+/**
+ * Groups stream keys into one selection per device for subscribe/unsubscribe frames
+ */
+export function groupStreamKeys(keys: string[]): StreamSelection[] {
+  const byDevice = new Map<string, TelemetryMessageType[]>();
+  keys.forEach((key) => {
+    const separator = key.lastIndexOf('|');
+    const deviceId = key.slice(0, separator);
+    byDevice.set(deviceId, [...(byDevice.get(deviceId) ?? []), key.slice(separator + 1) as TelemetryMessageType]);
+  });
+  return Array.from(byDevice, ([deviceId, messageTypes]) => (
+    deviceId === ALL_DEVICES ? { messageTypes } : { deviceIds: [deviceId], messageTypes }
+  ));
+}
+
+/**
+ * Serializes a frame for the server
+ */
+export function encodeClientMessage(message: ClientMessage): string {
+  return JSON.stringify(message);
+}
@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the APN backend: the REST API, /ws/telemetry and
+ * simulated ESP32 panels, so the app runs without the hosted server or hardware.
+ *
+ *   npm run dev-server
+ *   EXPO_PUBLIC_API_URL=http://<lan-ip>:4000 npx expo start
+ *
+ * Environment: PORT (4000), SCENARIO and SCENARIO_DEVICE (start a hazard
+ * scenario on boot), READING_INTERVAL_MS (5000), ACCESS_TOKEN_TTL seconds (900).
+ */
+
+const http = require('http');
+const os = require('os');
+const { createStore, canAccessDevice, SEED_PASSWORD } = require('./store');
+const { Simulator } = require('./simulator');
+const { ScenarioRunner, listScenarios } = require('./scenarios');
+const { TelemetryHub } = require('./telemetry-hub');
+const { createRouter } = require('./routes');
+
+const PORT = Number(process.env.PORT) || 4000;
+const HOST = '0.0.0.0';
+
+const log = (message) => console.log(`[${new Date().toLocaleTimeString()}] ${message}`);
+
+const store = createStore();
+const simulator = new Simulator(store);
+const scenarios = new ScenarioRunner(simulator, log);
+const hub = new TelemetryHub(store, simulator, log);
+const handle = createRouter({ store, simulator, scenarios, log });
+
+// Stand-in for the backend's push notifications
+simulator.on('alert', (alert) => {
+  const recipients = store.users.filter((user) => (
+    store.pushTokens.has(user.id) && canAccessDevice(store, user, alert.deviceId)
+  ));
+  log(`Alert ${alert.alertType} (${alert.sensor}) on ${alert.deviceId}`
+    + (recipients.length ? `, push to ${recipients.map((u) => u.email).join(', ')}` : ''));
+});
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch((error) => {
+    log(`Unhandled ${req.method} ${req.url}: ${error.stack || error}`);
+    if (!res.headersSent) res.writeHead(500);
+    res.end();
+  });
+});
+
+server.on('upgrade', (request, socket) => {
+  const url = new URL(request.url, 'http://localhost');
+  if (url.pathname !== '/ws/telemetry') {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+  hub.handleUpgrade(request, socket, url);
+});
+
+function lanAddresses() {
+  return Object.values(os.networkInterfaces())
+    .flat()
+    .filter((address) => address && address.family === 'IPv4' && !address.internal)
+    .map((address) => address.address);
+}
+
+server.listen(PORT, HOST, () => {
+  simulator.start();
+
+  const urls = [`http://localhost:${PORT}`, ...lanAddresses().map((ip) => `http://${ip}:${PORT}`)];
+  console.log(`APN dev server listening on ${urls.join(', ')}`);
+  console.log('Point the app at it (use a LAN address from a phone):');
+  console.log(`  EXPO_PUBLIC_API_URL=${urls[urls.length - 1]} npx expo start`);
+  console.log(`Accounts (password "${SEED_PASSWORD}"):`);
+  console.log('  demo@apn.local        owner of both panels');
+  console.log('  controller@apn.local  controller on both sockets');
+  console.log('  viewer@apn.local      viewer on the kitchen socket');
+  console.log('  unverified@apn.local  email not verified yet');
+  console.log(`Scenarios: ${listScenarios().map((s) => s.name).join(', ')}`);
+  console.log(`  curl -X POST ${urls[0]}/dev/scenario -H 'Content-Type: application/json' -d '{"name":"gas-leak"}'`);
+
+  if (process.env.SCENARIO) {
+    const error = scenarios.start(process.env.SCENARIO, process.env.SCENARIO_DEVICE || 'ESP32_KITCHEN_01');
+    if (error) log(error);
+  }
+});
+
+function shutdown() {
+  scenarios.stop();
+  simulator.stop();
+  hub.closeAll();
+  server.close(() => process.exit(0));
+  setTimeout(() => process.exit(0), 1000).unref();
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
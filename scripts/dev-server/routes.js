@@ -0,0 +1,631 @@
+/**
+ * REST routes matching what lib/api.ts calls, plus /dev/* controls for the
+ * simulator. Errors use the backend's { error, message } body.
+ */
+
+const crypto = require('crypto');
+const {
+  DEFAULT_THRESHOLDS,
+  newId,
+  findUserByEmail,
+  getSocketRole,
+  getDeviceRole,
+  getAccessibleDevices,
+  getAccessibleSockets,
+  toUser,
+  toDevice,
+  toSocket,
+  toMember,
+  toAlert,
+} = require('./store');
+const { issueSession, verifyAccessToken, consumeRefreshToken, revokeSessions } = require('./tokens');
+const { listScenarios } = require('./scenarios');
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const RESET_CODE_TTL_MS = 15 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+const ASSIGNABLE_ROLES = ['controller', 'viewer'];
+const DEVICE_FIELDS = ['name', 'installedAt', 'model', 'serialNumber', 'firmwareVersion'];
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, Idempotency-Key',
+};
+
+const ok = (body, status = 200) => ({ status, body });
+const fail = (status, error, message) => ({ status, body: { error, message: message || error } });
+
+const notFound = (what) => fail(404, 'Not found', `${what} not found`);
+const forbidden = (message) => fail(403, 'Forbidden', message);
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text) return resolve({});
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        reject(new Error('Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// Compiles "/api/things/:id" into a matcher returning params
+function compile(path) {
+  const names = [];
+  const pattern = path.replace(/:(\w+)/g, (_, name) => {
+    names.push(name);
+    return '([^/]+)';
+  });
+  const regex = new RegExp(`^${pattern}$`);
+  return (pathname) => {
+    const match = regex.exec(pathname);
+    if (!match) return null;
+    return Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+  };
+}
+
+const isEmail = (value) => typeof value === 'string' && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim());
+const newestFirst = (a, b) => b.receivedAt.localeCompare(a.receivedAt);
+
+function paginate(items, limit, offset) {
+  const page = items.slice(offset, offset + limit);
+  return { page, pagination: { total: items.length, limit, offset, hasMore: offset + page.length < items.length } };
+}
+
+function parseLimit(value, fallback = DEFAULT_PAGE_SIZE) {
+  const limit = Number.parseInt(value, 10);
+  return Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_PAGE_SIZE) : fallback;
+}
+
+/**
+ * Builds the request handler
+ * @param context - { store, simulator, scenarios, log }
+ */
+function createRouter({ store, simulator, scenarios, log }) {
+  const routes = [];
+  const route = (method, path, handler, options = {}) => {
+    routes.push({ method, match: compile(path), handler, auth: options.auth !== false });
+  };
+
+  // Invitations are accepted on the invitee's next sign-in
+  function acceptInvites(user) {
+    store.members
+      .filter((m) => m.status === 'invited' && (m.userId === user.id || m.email === user.email))
+      .forEach((member) => {
+        member.userId = user.id;
+        member.status = 'active';
+        log(`${user.email} accepted the invitation to ${member.socketId}`);
+      });
+  }
+
+  function sendVerification(user) {
+    const token = crypto.randomBytes(16).toString('hex');
+    store.verifyTokens.set(token, user.id);
+    log(`Verify ${user.email}: apntelemetry://verify-email?token=${token}`);
+  }
+
+  function findOwnedSocket(user, socketId) {
+    const socket = store.sockets.find((s) => s.id === socketId);
+    const role = socket ? getSocketRole(store, user, socket) : null;
+    if (!role) return { error: notFound('Socket') };
+    if (role !== 'owner') return { error: forbidden('Only the owner can change this socket') };
+    return { socket };
+  }
+
+  function findAccessibleSocket(user, socketId) {
+    const socket = store.sockets.find((s) => s.id === socketId);
+    const role = socket ? getSocketRole(store, user, socket) : null;
+    return role ? { socket, role } : { error: notFound('Socket') };
+  }
+
+  const accessibleDeviceIds = (user) => new Set(
+    getAccessibleDevices(store, user).filter(({ device }) => device.ownerId).map(({ device }) => device.deviceId),
+  );
+
+  // Auth
+
+  route('POST', '/api/auth/register', ({ body }) => {
+    if (!isEmail(body.email)) return fail(400, 'Invalid email', 'Please enter a valid email address');
+    if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+      return fail(400, 'Weak password', `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    if (findUserByEmail(store, body.email)) return fail(409, 'Email already registered', 'An account with this email already exists');
+
+    const user = {
+      id: newId('user'),
+      email: body.email.trim().toLowerCase(),
+      fullName: body.fullName || null,
+      password: body.password,
+      emailVerified: false,
+      createdAt: new Date().toISOString(),
+    };
+    store.users.push(user);
+    sendVerification(user);
+    acceptInvites(user);
+    return ok({ session: issueSession(user.id), user: toUser(user) }, 201);
+  }, { auth: false });
+
+  route('POST', '/api/auth/login', ({ body }) => {
+    const user = findUserByEmail(store, body.email);
+    if (!user || user.password !== body.password) return fail(401, 'Invalid credentials', 'Invalid email or password');
+    acceptInvites(user);
+    log(`${user.email} signed in`);
+    return ok({ session: issueSession(user.id), user: toUser(user) });
+  }, { auth: false });
+
+  // Accepts an expired token too: signing out should always succeed
+  route('POST', '/api/auth/logout', ({ req }) => {
+    const result = verifyAccessToken((req.headers.authorization || '').replace(/^Bearer /, ''));
+    if (result.claims) {
+      revokeSessions(result.claims.sub);
+      store.pushTokens.delete(result.claims.sub);
+    }
+    return ok({ success: true });
+  }, { auth: false });
+
+  route('GET', '/api/auth/me', ({ user }) => ok({ user: toUser(user) }));
+
+  route('PUT', '/api/auth/profile', ({ user, body }) => {
+    if (typeof body.fullName !== 'string' || !body.fullName.trim()) return fail(400, 'Invalid name', 'Full name is required');
+    user.fullName = body.fullName.trim();
+    return ok({ message: 'Profile updated', user: toUser(user) });
+  });
+
+  route('POST', '/api/auth/change-password', ({ user, body }) => {
+    if (body.oldPassword !== user.password) return fail(400, 'Invalid password', 'Current password is incorrect');
+    if (typeof body.newPassword !== 'string' || body.newPassword.length < MIN_PASSWORD_LENGTH) {
+      return fail(400, 'Weak password', `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    user.password = body.newPassword;
+    return ok({ message: 'Password changed' });
+  });
+
+  // Always succeeds so the response doesn't reveal which emails have accounts
+  route('POST', '/api/auth/forgot-password', ({ body }) => {
+    const user = findUserByEmail(store, body.email);
+    if (user) {
+      const code = String(crypto.randomInt(100000, 1000000));
+      const token = crypto.randomBytes(16).toString('hex');
+      const entry = { userId: user.id, expiresAt: Date.now() + RESET_CODE_TTL_MS };
+      store.resetTokens.set(code, entry);
+      store.resetTokens.set(token, entry);
+      log(`Reset ${user.email}: code ${code} or apntelemetry://reset-password?token=${token}`);
+    }
+    return ok({ message: 'If an account exists for that email, a reset code has been sent' });
+  }, { auth: false });
+
+  route('POST', '/api/auth/reset-password', ({ body }) => {
+    const entry = store.resetTokens.get(String(body.token || ''));
+    if (!entry || entry.expiresAt < Date.now()) return fail(400, 'Invalid token', 'This reset code is invalid or has expired');
+    if (typeof body.newPassword !== 'string' || body.newPassword.length < MIN_PASSWORD_LENGTH) {
+      return fail(400, 'Weak password', `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    const user = store.users.find((u) => u.id === entry.userId);
+    user.password = body.newPassword;
+    store.resetTokens.forEach((value, key) => {
+      if (value.userId === user.id) store.resetTokens.delete(key);
+    });
+    revokeSessions(user.id);
+    return ok({ message: 'Password has been reset' });
+  }, { auth: false });
+
+  route('POST', '/api/auth/verify-email', ({ body }) => {
+    const userId = store.verifyTokens.get(String(body.token || ''));
+    if (!userId) return fail(400, 'Invalid token', 'This verification link is invalid or has expired');
+    store.verifyTokens.delete(body.token);
+    store.users.find((u) => u.id === userId).emailVerified = true;
+    return ok({ message: 'Email verified' });
+  }, { auth: false });
+
+  route('POST', '/api/auth/verify-email/resend', ({ user }) => {
+    if (user.emailVerified) return fail(400, 'Already verified', 'Your email is already verified');
+    sendVerification(user);
+    return ok({ message: 'Verification email sent' });
+  });
+
+  route('POST', '/api/auth/refresh', ({ body }) => {
+    const result = consumeRefreshToken(body.refreshToken);
+    const user = result.claims && store.users.find((u) => u.id === result.claims.sub);
+    if (result.error || !user) return fail(401, 'Invalid refresh token', 'Your session has expired. Please sign in again.');
+    return ok({ session: issueSession(user.id), user: toUser(user) });
+  }, { auth: false });
+
+  // Alerts
+
+  route('GET', '/api/telemetry/alerts/active', ({ user }) => {
+    const deviceIds = accessibleDeviceIds(user);
+    const alerts = store.alerts
+      .filter((a) => a.isActive && !a.archivedAt && deviceIds.has(a.deviceId))
+      .sort(newestFirst);
+    return ok({ alerts: alerts.map(toAlert) });
+  });
+
+  route('GET', '/api/telemetry/alerts', ({ user, query }) => {
+    const deviceIds = accessibleDeviceIds(user);
+    const alerts = store.alerts.filter((a) => !a.archivedAt && deviceIds.has(a.deviceId)).sort(newestFirst);
+    const { page, pagination } = paginate(alerts, parseLimit(query.get('limit')), 0);
+    return ok({ alerts: page.map(toAlert), pagination });
+  });
+
+  route('POST', '/api/telemetry/alerts/:alertId/archive', ({ user, params }) => {
+    const alert = store.alerts.find((a) => a.id === params.alertId);
+    if (!alert || !accessibleDeviceIds(user).has(alert.deviceId)) return notFound('Alert');
+    alert.archivedAt = alert.archivedAt || new Date().toISOString();
+    return ok({ message: 'Alert archived', alert: { id: alert.id, alertType: alert.alertType, archivedAt: alert.archivedAt } });
+  });
+
+  // Devices
+
+  route('GET', '/api/telemetry/devices', ({ user }) => {
+    const devices = getAccessibleDevices(store, user).filter(({ device }) => device.ownerId);
+    return ok({ devices: devices.map(({ device, role }) => toDevice(device, role)) });
+  });
+
+  route('PUT', '/api/telemetry/device/:deviceId', ({ user, params, body }) => {
+    const device = store.devices.find((d) => d.deviceId === params.deviceId);
+    const role = device ? getDeviceRole(store, user, device) : null;
+    if (!role) return notFound('Device');
+    if (role !== 'owner') return forbidden('Only the owner can edit this device');
+
+    DEVICE_FIELDS.forEach((field) => {
+      if (field in body) device[field] = body[field] === '' ? null : body[field];
+    });
+    return ok({ message: 'Device updated', device: toDevice(device, role) });
+  });
+
+  route('DELETE', '/api/telemetry/device/:deviceId', ({ user, params }) => {
+    const device = store.devices.find((d) => d.deviceId === params.deviceId);
+    const role = device ? getDeviceRole(store, user, device) : null;
+    if (!role) return notFound('Device');
+    if (role !== 'owner') return forbidden('Only the owner can unpair this device');
+
+    device.ownerId = null;
+    device.pairedAt = null;
+    store.sockets.forEach((socket) => {
+      socket.deviceRecordIds = socket.deviceRecordIds.filter((id) => id !== device.id);
+    });
+    log(`${device.deviceId} unpaired by ${user.email}`);
+    return ok({ message: 'Device unpaired', deviceId: device.deviceId });
+  });
+
+  // Boards that are powered but not paired to anyone announce themselves
+  route('POST', '/api/telemetry/devices/discover', () => {
+    const now = new Date().toISOString();
+    const devices = store.devices
+      .filter((d) => !d.ownerId)
+      .map((d) => ({ deviceId: d.deviceId, name: d.name, lastSeen: now }));
+    return ok({ devices, count: devices.length });
+  }, { auth: false });
+
+  route('POST', '/api/telemetry/device/pair', ({ user, body }) => {
+    const device = store.devices.find((d) => d.deviceId === body.deviceId);
+    if (!device) return notFound('Device');
+    if (device.ownerId && device.ownerId !== user.id) return fail(409, 'Already paired', 'This device is paired to another account');
+
+    if (!device.ownerId) {
+      device.ownerId = user.id;
+      device.pairedAt = new Date().toISOString();
+      log(`${device.deviceId} paired by ${user.email}`);
+    }
+    if (body.name) device.name = body.name;
+    return ok({ device: toDevice(device, 'owner') });
+  });
+
+  // Sensor readings
+
+  route('GET', '/api/telemetry/sensors/latest', ({ user, query }) => {
+    const deviceIds = accessibleDeviceIds(user);
+    const requested = query.get('deviceId');
+    if (requested && !deviceIds.has(requested)) return notFound('Device');
+
+    const latest = (requested ? [requested] : Array.from(deviceIds))
+      .map((deviceId) => (store.readings.get(deviceId) || []).at(-1))
+      .filter(Boolean)
+      .sort(newestFirst);
+    return ok({ reading: latest[0] || null });
+  });
+
+  route('GET', '/api/telemetry/sensors', ({ user, query }) => {
+    const deviceIds = accessibleDeviceIds(user);
+    const requested = query.get('deviceId');
+    if (requested && !deviceIds.has(requested)) return notFound('Device');
+
+    const startDate = query.get('startDate');
+    const endDate = query.get('endDate');
+    const start = startDate ? new Date(startDate).toISOString() : null;
+    const end = endDate ? new Date(endDate).toISOString() : null;
+
+    const readings = (requested ? [requested] : Array.from(deviceIds))
+      .flatMap((deviceId) => store.readings.get(deviceId) || [])
+      .filter((r) => (!start || r.receivedAt >= start) && (!end || r.receivedAt <= end))
+      .sort(newestFirst);
+    const offset = Math.max(0, Number.parseInt(query.get('offset'), 10) || 0);
+    const { page, pagination } = paginate(readings, parseLimit(query.get('limit')), offset);
+    return ok({ readings: page, pagination });
+  });
+
+  // Push notifications (tokens are only logged against; nothing is sent)
+
+  route('POST', '/api/notifications/register', ({ user, body }) => {
+    if (typeof body.expoPushToken !== 'string' || !body.expoPushToken) {
+      return fail(400, 'Invalid token', 'expoPushToken is required');
+    }
+    const tokens = (store.pushTokens.get(user.id) || []).filter((t) => t.expoPushToken !== body.expoPushToken);
+    tokens.push({ expoPushToken: body.expoPushToken, platform: body.platform || null, deviceId: body.deviceId || null });
+    store.pushTokens.set(user.id, tokens);
+    return ok({ success: true });
+  });
+
+  route('DELETE', '/api/notifications/unregister', ({ user }) => {
+    store.pushTokens.delete(user.id);
+    return ok({ success: true });
+  });
+
+  // Sockets
+
+  // Paired devices of the caller that no socket uses yet
+  route('POST', '/api/telemetry/sockets/scan', ({ user }) => {
+    const attached = new Set(store.sockets.flatMap((s) => s.deviceRecordIds));
+    const sensors = store.devices
+      .filter((d) => d.ownerId === user.id && !attached.has(d.id))
+      .map((d) => ({ id: d.id, deviceId: d.deviceId, name: d.name, type: 'ESP32' }));
+    return ok({ sensors });
+  });
+
+  route('GET', '/api/telemetry/sockets', ({ user }) => (
+    ok({ sockets: getAccessibleSockets(store, user).map(({ socket, role }) => toSocket(store, socket, role)) })
+  ));
+
+  route('POST', '/api/telemetry/sockets', ({ user, body }) => {
+    if (typeof body.socketName !== 'string' || !body.socketName.trim()) {
+      return fail(400, 'Invalid name', 'Socket name is required');
+    }
+    const sensorIds = Array.isArray(body.sensorIds) ? body.sensorIds : [];
+    const unknown = sensorIds.find((id) => !store.devices.some((d) => d.id === id && d.ownerId === user.id));
+    if (unknown) return fail(400, 'Invalid sensor', `Device ${unknown} is not paired to your account`);
+
+    const now = new Date().toISOString();
+    const socket = {
+      id: newId('socket'),
+      ownerId: user.id,
+      name: body.socketName.trim(),
+      location: body.location || null,
+      deviceRecordIds: [...new Set(sensorIds)],
+      createdAt: now,
+      updatedAt: now,
+    };
+    store.sockets.push(socket);
+    return ok({
+      message: 'Socket created',
+      socket: { id: socket.id, name: socket.name, location: socket.location, createdAt: socket.createdAt },
+    }, 201);
+  });
+
+  route('PUT', '/api/telemetry/sockets/:socketId', ({ user, params, body }) => {
+    const { socket, error } = findOwnedSocket(user, params.socketId);
+    if (error) return error;
+    if ('socketName' in body) {
+      if (typeof body.socketName !== 'string' || !body.socketName.trim()) return fail(400, 'Invalid name', 'Socket name is required');
+      socket.name = body.socketName.trim();
+    }
+    if ('location' in body) socket.location = body.location || null;
+    socket.updatedAt = new Date().toISOString();
+    return ok({ message: 'Socket updated', socket: toSocket(store, socket, 'owner') });
+  });
+
+  route('DELETE', '/api/telemetry/sockets/:socketId', ({ user, params }) => {
+    const { socket, error } = findOwnedSocket(user, params.socketId);
+    if (error) return error;
+    store.sockets.splice(store.sockets.indexOf(socket), 1);
+    store.members = store.members.filter((m) => m.socketId !== socket.id);
+    store.thresholds.delete(socket.id);
+    return ok({ message: 'Socket deleted', socketId: socket.id });
+  });
+
+  route('POST', '/api/telemetry/sockets/:socketId/devices', ({ user, params, body }) => {
+    const { socket, error } = findOwnedSocket(user, params.socketId);
+    if (error) return error;
+    const device = store.devices.find((d) => d.id === body.sensorId && d.ownerId === user.id);
+    if (!device) return notFound('Device');
+    if (!socket.deviceRecordIds.includes(device.id)) socket.deviceRecordIds.push(device.id);
+    socket.updatedAt = new Date().toISOString();
+    return ok({ message: 'Device added', socket: toSocket(store, socket, 'owner') });
+  });
+
+  route('DELETE', '/api/telemetry/sockets/:socketId/devices/:sensorId', ({ user, params }) => {
+    const { socket, error } = findOwnedSocket(user, params.socketId);
+    if (error) return error;
+    if (!socket.deviceRecordIds.includes(params.sensorId)) return notFound('Device');
+    socket.deviceRecordIds = socket.deviceRecordIds.filter((id) => id !== params.sensorId);
+    socket.updatedAt = new Date().toISOString();
+    return ok({ message: 'Device removed', socket: toSocket(store, socket, 'owner') });
+  });
+
+  // Members: anyone with access can see the list, only the owner changes it
+
+  route('GET', '/api/telemetry/sockets/:socketId/members', ({ user, params }) => {
+    const { socket, error } = findAccessibleSocket(user, params.socketId);
+    if (error) return error;
+    const owner = store.users.find((u) => u.id === socket.ownerId);
+    const members = store.members.filter((m) => m.socketId === socket.id).map((m) => toMember(store, m));
+    return ok({
+      members: [
+        { id: `owner_${socket.id}`, email: owner.email, fullName: owner.fullName, role: 'owner', status: 'active', invitedAt: socket.createdAt },
+        ...members,
+      ],
+    });
+  });
+
+  route('POST', '/api/telemetry/sockets/:socketId/members', ({ user, params, body }) => {
+    const { socket, error } = findOwnedSocket(user, params.socketId);
+    if (error) return error;
+    if (!isEmail(body.email)) return fail(400, 'Invalid email', 'Please enter a valid email address');
+    if (!ASSIGNABLE_ROLES.includes(body.role)) return fail(400, 'Invalid role', 'Role must be controller or viewer');
+
+    const email = body.email.trim().toLowerCase();
+    if (email === user.email) return fail(400, 'Invalid email', 'You already own this socket');
+    const invitee = findUserByEmail(store, email);
+    const existing = store.members.find((m) => m.socketId === socket.id && (m.email === email || (invitee && m.userId === invitee.id)));
+    if (existing) return fail(409, 'Already a member', 'This person already has access or a pending invitation');
+
+    const member = {
+      id: newId('member'),
+      socketId: socket.id,
+      userId: invitee ? invitee.id : null,
+      email,
+      role: body.role,
+      status: 'invited',
+      invitedAt: new Date().toISOString(),
+    };
+    store.members.push(member);
+    log(`Invitation for ${email} to ${socket.name} as ${body.role} (accepted on their next sign-in)`);
+    return ok({ message: 'Invitation sent', member: toMember(store, member) }, 201);
+  });
+
+  route('PUT', '/api/telemetry/sockets/:socketId/members/:memberId', ({ user, params, body }) => {
+    const { socket, error } = findOwnedSocket(user, params.socketId);
+    if (error) return error;
+    const member = store.members.find((m) => m.id === params.memberId && m.socketId === socket.id);
+    if (!member) return notFound('Member');
+    if (!ASSIGNABLE_ROLES.includes(body.role)) return fail(400, 'Invalid role', 'Role must be controller or viewer');
+    member.role = body.role;
+    return ok({ message: 'Role updated', member: toMember(store, member) });
+  });
+
+  route('DELETE', '/api/telemetry/sockets/:socketId/members/:memberId', ({ user, params }) => {
+    const { socket, error } = findOwnedSocket(user, params.socketId);
+    if (error) return error;
+    const member = store.members.find((m) => m.id === params.memberId && m.socketId === socket.id);
+    if (!member) return notFound('Member');
+    store.members = store.members.filter((m) => m !== member);
+    return ok({ message: 'Member removed', memberId: member.id });
+  });
+
+  // Thresholds: the profile also drives the simulator's alerts for the socket's devices
+
+  route('GET', '/api/telemetry/sockets/:socketId/thresholds', ({ user, params }) => {
+    const { socket, error } = findAccessibleSocket(user, params.socketId);
+    if (error) return error;
+    return ok({ thresholds: store.thresholds.get(socket.id) || null });
+  });
+
+  route('PUT', '/api/telemetry/sockets/:socketId/thresholds', ({ user, params, body }) => {
+    const { socket, error } = findOwnedSocket(user, params.socketId);
+    if (error) return error;
+    const thresholds = body.thresholds;
+    const valid = thresholds && Object.entries(DEFAULT_THRESHOLDS).every(([group, limits]) => (
+      thresholds[group] && Object.keys(limits).every((key) => Number.isFinite(thresholds[group][key]))
+    ));
+    if (!valid) return fail(400, 'Invalid thresholds', 'Every threshold must be a number');
+    store.thresholds.set(socket.id, thresholds);
+    return ok({ message: 'Thresholds updated', thresholds });
+  });
+
+  // Simulator controls (not part of the real backend)
+
+  route('GET', '/dev/scenarios', () => ok({ scenarios: listScenarios(), running: scenarios.current }), { auth: false });
+
+  route('POST', '/dev/scenario', ({ body }) => {
+    const deviceId = body.deviceId || simulator.devices.keys().next().value;
+    const error = scenarios.start(String(body.name || ''), deviceId);
+    if (error) return fail(400, 'Invalid scenario', error);
+    return ok({ running: scenarios.current });
+  }, { auth: false });
+
+  route('POST', '/dev/scenario/stop', () => {
+    scenarios.stop();
+    return ok({ running: null });
+  }, { auth: false });
+
+  // Dispatch
+
+  function authenticate(req) {
+    const header = req.headers.authorization || '';
+    if (!header.startsWith('Bearer ')) return { error: fail(401, 'Unauthorized', 'Missing access token') };
+    const result = verifyAccessToken(header.slice('Bearer '.length));
+    if (result.error === 'expired') return { error: fail(401, 'Token expired', 'Your session has expired') };
+    const user = result.claims && store.users.find((u) => u.id === result.claims.sub);
+    if (!user) return { error: fail(401, 'Unauthorized', 'Invalid access token') };
+    return { user };
+  }
+
+  return async function handle(req, res) {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url, 'http://localhost');
+    let params = null;
+    const matched = routes.find((r) => r.method === req.method && (params = r.match(url.pathname)));
+    if (!matched) {
+      sendJson(res, 404, { error: 'Not found', message: `No route for ${req.method} ${url.pathname}` });
+      return;
+    }
+
+    let body;
+    try {
+      body = await readBody(req);
+    } catch (error) {
+      sendJson(res, 400, { error: 'Bad request', message: error.message });
+      return;
+    }
+
+    let user = null;
+    if (matched.auth) {
+      const auth = authenticate(req);
+      if (auth.error) {
+        sendJson(res, auth.error.status, auth.error.body);
+        return;
+      }
+      user = auth.user;
+    }
+
+    // Replay the stored response for a retried mutation (the app's outbox sends Idempotency-Key)
+    const idempotencyKey = req.headers['idempotency-key'];
+    const storeKey = user && idempotencyKey ? `${user.id}:${idempotencyKey}` : null;
+    if (storeKey && store.idempotency.has(storeKey)) {
+      const saved = store.idempotency.get(storeKey);
+      sendJson(res, saved.status, saved.body);
+      return;
+    }
+
+    let result;
+    try {
+      result = matched.handler({ req, params, query: url.searchParams, body, user });
+    } catch (error) {
+      log(`${req.method} ${url.pathname} failed: ${error.stack || error}`);
+      result = fail(500, 'Internal error', 'Something went wrong');
+    }
+
+    if (storeKey && result.status < 300) store.idempotency.set(storeKey, result);
+    sendJson(res, result.status, result.body);
+  };
+}
+
+module.exports = { createRouter };
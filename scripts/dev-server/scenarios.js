@@ -0,0 +1,149 @@
+/**
+ * Scripted hazard scenarios. Each step runs at an offset (seconds from the
+ * start) against one device's simulator; a reading is published right after
+ * each step so the app reacts without waiting for the next tick.
+ */
+
+const SCENARIOS = {
+  calm: {
+    description: 'Normal readings, nothing to report',
+    steps: [],
+  },
+  'water-leak': {
+    description: 'Water reaches zone 1, then zone 2, then dries out',
+    steps: [
+      { at: 0, run: (sim) => sim.setWater(1, true) },
+      { at: 20, run: (sim) => sim.setWater(2, true) },
+      { at: 60, run: (sim) => { sim.setWater(1, false); sim.setWater(2, false); } },
+    ],
+  },
+  'gas-leak': {
+    description: 'Gas detected: firmware trips both breakers and refuses to switch them on until it clears',
+    steps: [
+      { at: 0, run: (sim) => sim.setGas(true) },
+      { at: 45, run: (sim) => sim.setGas(false) },
+    ],
+  },
+  overheat: {
+    description: 'Panel temperature climbs past the high threshold, then cools',
+    steps: [
+      { at: 0, run: (sim) => sim.setTemperatureRise(18) },
+      { at: 90, run: (sim) => sim.setTemperatureRise(0) },
+    ],
+  },
+  earthquake: {
+    description: 'A tremor followed by an aftershock',
+    steps: [
+      { at: 0, run: (sim) => sim.shake(1.4, 15) },
+      { at: 40, run: (sim) => sim.shake(0.7, 8) },
+    ],
+  },
+  overload: {
+    description: 'A heavy appliance on outlet 1 draws past the current limit and trips it',
+    steps: [
+      { at: 0, run: (sim) => sim.setExtraLoad(1, 6) },
+      { at: 15, run: (sim) => sim.setExtraLoad(1, 10) },
+      { at: 60, run: (sim) => sim.setExtraLoad(1, 0) },
+    ],
+  },
+  brownout: {
+    description: 'Mains voltage sags, the panel moves to backup supply, then mains returns',
+    steps: [
+      { at: 0, run: (sim) => sim.setVoltage(188) },
+      { at: 20, run: (sim) => { sim.setVoltage(null); sim.setSupply('BACKUP'); } },
+      { at: 60, run: (sim) => sim.setSupply('MAIN') },
+    ],
+  },
+};
+
+// Plays every hazard in turn, then starts over
+const TOUR = ['water-leak', 'overheat', 'earthquake', 'gas-leak', 'overload', 'brownout'];
+const TOUR_GAP_S = 30;
+
+function scenarioLength(name) {
+  const steps = SCENARIOS[name].steps;
+  return steps.length ? steps[steps.length - 1].at : 0;
+}
+
+function listScenarios() {
+  return [
+    ...Object.entries(SCENARIOS).map(([name, scenario]) => ({ name, description: scenario.description })),
+    { name: 'tour', description: `Runs ${TOUR.join(', ')} in a loop` },
+  ];
+}
+
+class ScenarioRunner {
+  constructor(simulator, log) {
+    this.simulator = simulator;
+    this.log = log;
+    this.timers = [];
+    this.current = null; // { name, deviceId, startedAt }
+  }
+
+  /**
+   * Starts a scenario on a device, replacing whatever was running
+   * @returns An error message, or null when started
+   */
+  start(name, deviceId) {
+    if (name !== 'tour' && !SCENARIOS[name]) return `Unknown scenario "${name}"`;
+    if (!this.simulator.get(deviceId)) return `Unknown device "${deviceId}"`;
+
+    this.stop();
+    this.current = { name, deviceId, startedAt: new Date().toISOString() };
+    this.log(`Scenario "${name}" started on ${deviceId}`);
+
+    if (name === 'tour') {
+      this.scheduleTour(deviceId, 0);
+    } else {
+      this.schedule(name, deviceId, 0);
+    }
+    return null;
+  }
+
+  stop() {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers = [];
+    if (this.current) {
+      this.log(`Scenario "${this.current.name}" stopped`);
+      this.reset(this.current.deviceId);
+    }
+    this.current = null;
+  }
+
+  // Clears scenario effects; breakers stay where the scenario left them, like real hardware
+  reset(deviceId) {
+    const sim = this.simulator.get(deviceId);
+    sim.setWater(1, false);
+    sim.setWater(2, false);
+    sim.setGas(false);
+    sim.setTemperatureRise(0);
+    sim.setExtraLoad(1, 0);
+    sim.setExtraLoad(2, 0);
+    sim.setVoltage(null);
+    sim.setSupply('MAIN');
+  }
+
+  schedule(name, deviceId, offsetSeconds) {
+    SCENARIOS[name].steps.forEach((step) => {
+      this.timers.push(setTimeout(() => {
+        step.run(this.simulator.get(deviceId));
+        this.simulator.emitReading(deviceId, 'power_status');
+      }, (offsetSeconds + step.at) * 1000));
+    });
+  }
+
+  scheduleTour(deviceId, index) {
+    const name = TOUR[index % TOUR.length];
+    this.log(`Tour: ${name} on ${deviceId}`);
+    // Start each hazard from a healthy panel, as if someone reset the breakers in between
+    this.reset(deviceId);
+    this.simulator.get(deviceId).closeBreakers();
+    this.schedule(name, deviceId, 0);
+    this.timers.push(setTimeout(
+      () => this.scheduleTour(deviceId, index + 1),
+      (scenarioLength(name) + TOUR_GAP_S) * 1000,
+    ));
+  }
+}
+
+module.exports = { ScenarioRunner, listScenarios };
@@ -0,0 +1,321 @@
+/**
+ * Simulated ESP32 panels: each paired device streams readings in the firmware's
+ * payload format, raises and clears alerts like the firmware does, and obeys
+ * breaker commands (with the gas interlock and overcurrent protection).
+ */
+
+const { EventEmitter } = require('events');
+const { DEFAULT_THRESHOLDS, addReading, newId } = require('./store');
+
+const READING_INTERVAL_MS = Number(process.env.READING_INTERVAL_MS) || 5000;
+// History generated at startup so charts and analytics have something to show
+const HISTORY_HOURS = 6;
+const HISTORY_STEP_MS = 60 * 1000;
+// Below this a channel reads as unpowered (matches MIN_LIVE_VOLTAGE in lib/telemetry.ts)
+const MIN_LIVE_VOLTAGE = 10;
+// How fast an overheating panel warms up or cools down, per reading
+const TEMP_STEP_C = 1.5;
+
+// Per-device character so the two panels don't look identical
+const PROFILES = {
+  ESP32_KITCHEN_01: { baseTemp: 26.5, loads: [1.8, 0.6] },
+  ESP32_GARAGE_02: { baseTemp: 23.0, loads: [0.9, 2.4] },
+};
+const DEFAULT_PROFILE = { baseTemp: 25.0, loads: [1.0, 1.0] };
+
+const round = (value, digits = 2) => Number(value.toFixed(digits));
+const noise = (amplitude) => (Math.random() * 2 - 1) * amplitude;
+const wave = (time, periodMs, phase = 0) => Math.sin((2 * Math.PI * time) / periodMs + phase);
+
+class DeviceSimulator {
+  constructor(deviceId) {
+    this.deviceId = deviceId;
+    this.profile = PROFILES[deviceId] || DEFAULT_PROFILE;
+    this.breakers = [true, true];
+    this.supply = 'MAIN';
+    this.waterZones = [false, false];
+    this.gas = false;
+    this.tempBoost = 0;
+    this.tempBoostTarget = 0;
+    this.burst = null; // { level, until }
+    this.extraLoad = [0, 0];
+    this.voltageOverride = null;
+  }
+
+  // Scenario controls
+
+  setWater(zone, wet) {
+    this.waterZones[zone - 1] = wet;
+  }
+
+  setGas(detected) {
+    this.gas = detected;
+  }
+
+  setTemperatureRise(celsius) {
+    this.tempBoostTarget = celsius;
+  }
+
+  shake(level, seconds) {
+    this.burst = { level, until: Date.now() + seconds * 1000 };
+  }
+
+  setExtraLoad(outlet, amps) {
+    this.extraLoad[outlet - 1] = amps;
+  }
+
+  setVoltage(volts) {
+    this.voltageOverride = volts;
+  }
+
+  setSupply(supply) {
+    this.supply = supply;
+  }
+
+  closeBreakers() {
+    this.breakers = [true, true];
+  }
+
+  /**
+   * One reading in the firmware's payload format
+   * @param time - Epoch ms the reading is for
+   * @param live - false for generated history (no scenario effects)
+   */
+  sample(time, live = true) {
+    if (live && this.tempBoost !== this.tempBoostTarget) {
+      const delta = this.tempBoostTarget - this.tempBoost;
+      this.tempBoost += Math.sign(delta) * Math.min(Math.abs(delta), TEMP_STEP_C);
+    }
+    const boost = live ? this.tempBoost : 0;
+
+    // Slow daily-ish swing plus sensor jitter
+    const temp1 = this.profile.baseTemp + 1.5 * wave(time, 6 * 3600 * 1000) + noise(0.2) + boost;
+    const temp2 = temp1 + 1.2 + noise(0.3) + boost * 0.4;
+
+    const bursting = live && this.burst && this.burst.until > time;
+    const movement = bursting ? this.burst.level * (0.7 + Math.random() * 0.6) : Math.abs(noise(0.03));
+
+    const supplyVoltage = live && this.voltageOverride !== null
+      ? this.voltageOverride + noise(1.5)
+      : (this.supply === 'BACKUP' && live ? 221 : 230) + 2 * wave(time, 10 * 60 * 1000) + noise(0.8);
+
+    const channels = [0, 1].map((i) => {
+      const on = live ? this.breakers[i] : true;
+      if (!on) return { voltage: Math.abs(noise(0.3)), current: 0 };
+      const load = this.profile.loads[i] * (1 + 0.15 * wave(time, (5 + i * 2) * 60 * 1000, i)) + noise(0.05);
+      return { voltage: supplyVoltage, current: Math.max(0, load + (live ? this.extraLoad[i] : 0)) };
+    });
+
+    const water = live ? this.waterZones.map((wet) => (wet ? 1 : 0)) : [0, 0];
+    const bothOff = live && !this.breakers[0] && !this.breakers[1];
+    const abnormal = live && this.voltageOverride !== null
+      && (this.voltageOverride < DEFAULT_THRESHOLDS.voltage.min || this.voltageOverride > DEFAULT_THRESHOLDS.voltage.max);
+
+    return {
+      water: [water[0], water[0], water[1], water[1]],
+      gas: live && this.gas,
+      temperature: { temp1: round(temp1, 1), temp2: round(temp2, 1) },
+      gyro: { movement: round(movement, 3) },
+      power: {
+        voltage1: round(channels[0].voltage, 1),
+        current1: round(channels[0].current),
+        voltage2: round(channels[1].voltage, 1),
+        current2: round(channels[1].current),
+        v1_raw: Math.round(channels[0].voltage * 8.9),
+        c1_raw: Math.round(2048 + channels[0].current * 62),
+        v2_raw: Math.round(channels[1].voltage * 8.9),
+        c2_raw: Math.round(2048 + channels[1].current * 62),
+      },
+      power_status: bothOff ? 'TRIPPED' : abnormal ? 'ABNORMAL' : live ? this.supply : 'MAIN',
+      breaker1: !live || this.breakers[0] ? 'ON' : 'OFF',
+      breaker2: !live || this.breakers[1] ? 'ON' : 'OFF',
+    };
+  }
+}
+
+/**
+ * Runs every paired device and publishes 'telemetry' events:
+ * { deviceId, messageType, payload, receivedAt }
+ */
+class Simulator extends EventEmitter {
+  constructor(store) {
+    super();
+    this.store = store;
+    this.devices = new Map();
+    this.timer = null;
+    store.devices.forEach((device) => this.devices.set(device.deviceId, new DeviceSimulator(device.deviceId)));
+  }
+
+  get(deviceId) {
+    return this.devices.get(deviceId) || null;
+  }
+
+  start() {
+    this.seedHistory();
+    this.timer = setInterval(() => this.tick(), READING_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Only devices someone has paired report in
+  isStreaming(deviceId) {
+    const device = this.store.devices.find((d) => d.deviceId === deviceId);
+    return !!device && !!device.ownerId && device.isActive;
+  }
+
+  seedHistory() {
+    const now = Date.now();
+    this.devices.forEach((sim, deviceId) => {
+      if (!this.isStreaming(deviceId)) return;
+      for (let time = now - HISTORY_HOURS * 3600 * 1000; time < now; time += HISTORY_STEP_MS) {
+        const receivedAt = new Date(time).toISOString();
+        addReading(this.store, { id: newId('reading'), deviceId, ...sim.sample(time, false), receivedAt });
+      }
+    });
+  }
+
+  tick() {
+    this.devices.forEach((_, deviceId) => {
+      if (this.isStreaming(deviceId)) this.emitReading(deviceId, 'sensor_reading');
+    });
+  }
+
+  /**
+   * Samples a device now, stores the reading and publishes it
+   * @param messageType - 'sensor_reading' on the timer, 'power_status' after state changes
+   */
+  emitReading(deviceId, messageType) {
+    const sim = this.get(deviceId);
+    if (!sim || !this.isStreaming(deviceId)) return;
+
+    const receivedAt = new Date().toISOString();
+    const payload = sim.sample(Date.now());
+    addReading(this.store, { id: newId('reading'), deviceId, ...payload, receivedAt });
+    this.emit('telemetry', { deviceId, messageType, payload, receivedAt });
+    this.evaluateAlerts(deviceId, payload, receivedAt);
+  }
+
+  getThresholds(deviceId) {
+    const device = this.store.devices.find((d) => d.deviceId === deviceId);
+    const socket = device && this.store.sockets.find((s) => s.deviceRecordIds.includes(device.id));
+    return (socket && this.store.thresholds.get(socket.id)) || DEFAULT_THRESHOLDS;
+  }
+
+  // Conditions the firmware reports as alerts, keyed by type and sensor
+  detectHazards(deviceId, payload) {
+    const limits = this.getThresholds(deviceId);
+    const hazards = [];
+    if (payload.water[0]) hazards.push({ alertType: 'WATER_DETECTED', sensor: 'ZONE1', value: 1 });
+    if (payload.water[2]) hazards.push({ alertType: 'WATER_DETECTED', sensor: 'ZONE2', value: 1 });
+    if (payload.gas) hazards.push({ alertType: 'GAS_LEAK_DETECTED', sensor: 'MQ2', value: 1 });
+    ['temp1', 'temp2'].forEach((key) => {
+      const temp = payload.temperature[key];
+      if (temp >= limits.temperature.high) hazards.push({ alertType: 'HIGH_TEMPERATURE', sensor: key.toUpperCase(), value: temp });
+    });
+    if (payload.gyro.movement >= limits.movement.high) {
+      hazards.push({ alertType: 'GROUND_MOVEMENT_DETECTED', sensor: 'GYRO', value: payload.gyro.movement });
+    }
+    [1, 2].forEach((outlet) => {
+      const voltage = payload.power[`voltage${outlet}`];
+      const current = payload.power[`current${outlet}`];
+      if (current >= limits.current.max) hazards.push({ alertType: 'OVERCURRENT', sensor: `OUTLET${outlet}`, value: current });
+      if (voltage >= MIN_LIVE_VOLTAGE && (voltage < limits.voltage.min || voltage > limits.voltage.max)) {
+        hazards.push({ alertType: 'POWER_ABNORMAL', sensor: `OUTLET${outlet}`, value: voltage });
+      }
+    });
+
+    const types = new Set(hazards.map((h) => h.alertType));
+    if (types.size >= 2) hazards.push({ alertType: 'MULTIPLE_HAZARDS', sensor: 'DEVICE', value: types.size });
+    return hazards;
+  }
+
+  evaluateAlerts(deviceId, payload, receivedAt) {
+    const hazards = this.detectHazards(deviceId, payload);
+    const key = (alert) => `${alert.alertType}|${alert.sensor}`;
+    const current = new Map(hazards.map((h) => [key(h), h]));
+    const active = this.store.alerts.filter((a) => a.deviceId === deviceId && a.isActive);
+
+    active.forEach((alert) => {
+      if (current.has(key(alert))) {
+        current.delete(key(alert));
+        return;
+      }
+      alert.isActive = false;
+      alert.clearedAt = receivedAt;
+      this.emit('telemetry', {
+        deviceId,
+        messageType: 'alert_cleared',
+        payload: { alert: alert.alertType, sensor: alert.sensor },
+        receivedAt,
+      });
+    });
+
+    let protectionTripped = false;
+    current.forEach((hazard) => {
+      const alert = { id: newId('alert'), deviceId, ...hazard, isActive: true, receivedAt, clearedAt: null, archivedAt: null };
+      this.store.alerts.push(alert);
+      this.emit('telemetry', {
+        deviceId,
+        messageType: 'alert',
+        payload: { alert: hazard.alertType, sensor: hazard.sensor, value: hazard.value },
+        receivedAt,
+      });
+      this.emit('alert', alert);
+      protectionTripped = this.protect(deviceId, hazard) || protectionTripped;
+    });
+
+    if (protectionTripped) this.emitReading(deviceId, 'power_status');
+  }
+
+  // Firmware protection: gas cuts both breakers, overcurrent cuts the overloaded outlet
+  protect(deviceId, hazard) {
+    const sim = this.get(deviceId);
+    if (hazard.alertType === 'GAS_LEAK_DETECTED' && (sim.breakers[0] || sim.breakers[1])) {
+      sim.breakers = [false, false];
+      return true;
+    }
+    if (hazard.alertType === 'OVERCURRENT') {
+      const index = Number(hazard.sensor.replace('OUTLET', '')) - 1;
+      if (sim.breakers[index]) {
+        sim.breakers[index] = false;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Applies a breaker command the way the panel would
+   * @returns { success, payload } with the resulting breaker states, or { success: false, error }
+   */
+  applyCommand(deviceId, command) {
+    const sim = this.get(deviceId);
+    if (!sim || !this.isStreaming(deviceId)) return { success: false, error: 'Device is offline' };
+
+    const turnsOn = command === 'BREAKER1_ON' || command === 'BREAKER2_ON';
+    if (turnsOn && sim.gas) {
+      return { success: false, error: 'Gas detected: breakers stay off until the leak clears' };
+    }
+
+    switch (command) {
+      case 'BREAKER1_ON': sim.breakers[0] = true; break;
+      case 'BREAKER1_OFF': sim.breakers[0] = false; break;
+      case 'BREAKER2_ON': sim.breakers[1] = true; break;
+      case 'BREAKER2_OFF': sim.breakers[1] = false; break;
+      case 'TRIP_ALL': sim.breakers = [false, false]; break;
+      case 'SHAKE_TEST': sim.shake(1.6, 6); break;
+      default: return { success: false, error: `Unknown command ${command}` };
+    }
+
+    // An outlet switched back on with the overload still connected trips again on the next reading
+    return {
+      success: true,
+      payload: { breaker1: sim.breakers[0] ? 'ON' : 'OFF', breaker2: sim.breakers[1] ? 'ON' : 'OFF' },
+    };
+  }
+}
+
+module.exports = { Simulator, READING_INTERVAL_MS };
@@ -0,0 +1,220 @@
+/**
+ * In-memory data for the stand-in server, seeded on every start.
+ * Seeded ids are fixed so tokens and app caches stay valid across restarts.
+ */
+
+const crypto = require('crypto');
+
+const SEED_PASSWORD = 'demo1234';
+
+// Keep this much history per device (one reading every few seconds)
+const MAX_READINGS_PER_DEVICE = 20000;
+
+// Same limits as lib/thresholds.ts; device alerts use these unless a socket has its own profile
+const DEFAULT_THRESHOLDS = {
+  temperature: { warm: 30, high: 40 },
+  movement: { moderate: 0.5, high: 1.0 },
+  voltage: { min: 200, max: 250 },
+  current: { max: 10 },
+};
+
+const ROLE_RANK = { viewer: 1, controller: 2, owner: 3 };
+
+const newId = (prefix) => `${prefix}_${crypto.randomUUID().slice(0, 8)}`;
+
+function createStore() {
+  const seededAt = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString();
+
+  const users = [
+    { id: 'user_owner', email: 'demo@apn.local', fullName: 'Demo Owner', emailVerified: true },
+    { id: 'user_controller', email: 'controller@apn.local', fullName: 'Demo Controller', emailVerified: true },
+    { id: 'user_viewer', email: 'viewer@apn.local', fullName: 'Demo Viewer', emailVerified: true },
+    { id: 'user_unverified', email: 'unverified@apn.local', fullName: 'Unverified User', emailVerified: false },
+  ].map((user) => ({ ...user, password: SEED_PASSWORD, createdAt: seededAt }));
+
+  const devices = [
+    {
+      id: 'device_kitchen', deviceId: 'ESP32_KITCHEN_01', name: 'Kitchen Panel', ownerId: 'user_owner',
+      model: 'APN-ESP32 rev B', serialNumber: 'APN-2024-0001', firmwareVersion: '1.4.2', installedAt: '2024-03-15',
+    },
+    {
+      id: 'device_garage', deviceId: 'ESP32_GARAGE_02', name: 'Garage Panel', ownerId: 'user_owner',
+      model: 'APN-ESP32 rev B', serialNumber: 'APN-2024-0002', firmwareVersion: '1.3.9', installedAt: '2024-05-02',
+    },
+    // Unpaired: shows up in discovery so pairing can be tried
+    {
+      id: 'device_spare', deviceId: 'ESP32_SPARE_03', name: 'Spare Board', ownerId: null,
+      model: 'APN-ESP32 rev C', serialNumber: 'APN-2025-0107', firmwareVersion: '1.5.0', installedAt: null,
+    },
+  ].map((device) => ({
+    ...device,
+    pairedAt: device.ownerId ? seededAt : null,
+    isActive: true,
+    lastSeen: null,
+  }));
+
+  const sockets = [
+    { id: 'socket_kitchen', ownerId: 'user_owner', name: 'Kitchen Outlets', location: 'Kitchen', deviceRecordIds: ['device_kitchen'] },
+    { id: 'socket_garage', ownerId: 'user_owner', name: 'Garage Outlets', location: 'Garage', deviceRecordIds: ['device_garage'] },
+  ].map((socket) => ({ ...socket, createdAt: seededAt, updatedAt: seededAt }));
+
+  const members = [
+    { id: 'member_1', socketId: 'socket_kitchen', userId: 'user_controller', role: 'controller', status: 'active' },
+    { id: 'member_2', socketId: 'socket_garage', userId: 'user_controller', role: 'controller', status: 'active' },
+    { id: 'member_3', socketId: 'socket_kitchen', userId: 'user_viewer', role: 'viewer', status: 'active' },
+  ].map((member) => ({ ...member, invitedAt: seededAt }));
+
+  return {
+    users,
+    devices,
+    sockets,
+    members,
+    thresholds: new Map(), // socketId -> profile
+    alerts: [],
+    readings: new Map(), // deviceId -> raw readings, oldest first
+    pushTokens: new Map(), // userId -> [{ expoPushToken, platform, deviceId }]
+    resetTokens: new Map(), // token or code -> { userId, expiresAt }
+    verifyTokens: new Map(), // token -> userId
+    idempotency: new Map(), // userId:key -> { status, body }
+  };
+}
+
+// Lookups and access rules
+
+function findUserByEmail(store, email) {
+  const normalized = String(email || '').trim().toLowerCase();
+  return store.users.find((user) => user.email === normalized);
+}
+
+function getSocketRole(store, user, socket) {
+  if (socket.ownerId === user.id) return 'owner';
+  const member = store.members.find((m) => m.socketId === socket.id && m.userId === user.id && m.status === 'active');
+  return member ? member.role : null;
+}
+
+// Owners of a device, or the best role granted through any socket it's attached to
+function getDeviceRole(store, user, device) {
+  if (device.ownerId === user.id) return 'owner';
+  let best = null;
+  store.sockets
+    .filter((socket) => socket.deviceRecordIds.includes(device.id))
+    .forEach((socket) => {
+      const role = getSocketRole(store, user, socket);
+      if (role && (!best || ROLE_RANK[role] > ROLE_RANK[best])) best = role;
+    });
+  return best;
+}
+
+function getAccessibleDevices(store, user) {
+  return store.devices
+    .map((device) => ({ device, role: getDeviceRole(store, user, device) }))
+    .filter(({ role }) => role !== null);
+}
+
+function getAccessibleSockets(store, user) {
+  return store.sockets
+    .map((socket) => ({ socket, role: getSocketRole(store, user, socket) }))
+    .filter(({ role }) => role !== null);
+}
+
+function canAccessDevice(store, user, deviceId) {
+  const device = store.devices.find((d) => d.deviceId === deviceId);
+  return !!device && getDeviceRole(store, user, device) !== null;
+}
+
+// Response shapes (match lib/api.ts)
+
+function toUser(user) {
+  return {
+    id: user.id,
+    email: user.email,
+    fullName: user.fullName,
+    createdAt: user.createdAt,
+    emailVerified: user.emailVerified,
+  };
+}
+
+function toDevice(device, role) {
+  return {
+    id: device.id,
+    deviceId: device.deviceId,
+    name: device.name,
+    pairedAt: device.pairedAt,
+    isActive: device.isActive,
+    lastSeen: device.lastSeen,
+    installedAt: device.installedAt,
+    model: device.model,
+    serialNumber: device.serialNumber,
+    firmwareVersion: device.firmwareVersion,
+    ...(role && role !== 'owner' ? { role } : {}),
+  };
+}
+
+function toSocket(store, socket, role) {
+  return {
+    id: socket.id,
+    name: socket.name,
+    location: socket.location,
+    createdAt: socket.createdAt,
+    updatedAt: socket.updatedAt,
+    devices: socket.deviceRecordIds
+      .map((recordId) => store.devices.find((d) => d.id === recordId))
+      .filter(Boolean)
+      .map((device) => ({ id: device.id, device_id: device.deviceId, name: device.name })),
+    ...(role && role !== 'owner' ? { role } : {}),
+  };
+}
+
+function toMember(store, member) {
+  const user = member.userId ? store.users.find((u) => u.id === member.userId) : null;
+  return {
+    id: member.id,
+    email: user ? user.email : member.email,
+    fullName: user ? user.fullName : null,
+    role: member.role,
+    status: member.status,
+    invitedAt: member.invitedAt,
+  };
+}
+
+function toAlert(alert) {
+  return {
+    id: alert.id,
+    deviceId: alert.deviceId,
+    alertType: alert.alertType,
+    sensor: alert.sensor,
+    value: alert.value,
+    isActive: alert.isActive,
+    receivedAt: alert.receivedAt,
+    ...(alert.clearedAt ? { clearedAt: alert.clearedAt } : {}),
+  };
+}
+
+function addReading(store, reading) {
+  const list = store.readings.get(reading.deviceId) || [];
+  list.push(reading);
+  if (list.length > MAX_READINGS_PER_DEVICE) list.splice(0, list.length - MAX_READINGS_PER_DEVICE);
+  store.readings.set(reading.deviceId, list);
+
+  const device = store.devices.find((d) => d.deviceId === reading.deviceId);
+  if (device) device.lastSeen = reading.receivedAt;
+}
+
+module.exports = {
+  DEFAULT_THRESHOLDS,
+  SEED_PASSWORD,
+  newId,
+  createStore,
+  findUserByEmail,
+  getSocketRole,
+  getDeviceRole,
+  getAccessibleDevices,
+  getAccessibleSockets,
+  canAccessDevice,
+  toUser,
+  toDevice,
+  toSocket,
+  toMember,
+  toAlert,
+  addReading,
+};
@@ -0,0 +1,239 @@
+/**
+ * /ws/telemetry: hello authentication, in-place reauth, heartbeat replies,
+ * per-device stream subscriptions and breaker commands (see lib/ws-protocol.ts).
+ */
+
+const { acceptUpgrade } = require('./websocket');
+const { verifyAccessToken } = require('./tokens');
+const { canAccessDevice, getDeviceRole } = require('./store');
+
+const PROTOCOL_VERSION = 1;
+const MESSAGE_TYPES = ['sensor_reading', 'alert', 'power_status', 'alert_cleared'];
+
+// Close codes the app treats as authentication failures
+const CLOSE_INVALID_TOKEN = 4001;
+const CLOSE_TOKEN_EXPIRED = 4002;
+const CLOSE_UNKNOWN_USER = 4004;
+
+const HELLO_TIMEOUT_MS = 10000;
+// After telling a client its token expired, how long it gets to send reauth
+const REAUTH_GRACE_MS = 30000;
+// Simulated round trip to the panel before a command is acknowledged
+const COMMAND_DELAY_MS = [300, 800];
+
+const ALL_DEVICES = '*';
+
+class TelemetryHub {
+  constructor(store, simulator, log) {
+    this.store = store;
+    this.simulator = simulator;
+    this.log = log;
+    this.connections = new Set();
+
+    simulator.on('telemetry', (message) => this.broadcast(message));
+  }
+
+  /**
+   * Accepts an upgrade on /ws/telemetry. A ?token= query authenticates
+   * immediately and streams everything (clients from before the hello frame).
+   */
+  handleUpgrade(request, socket, url) {
+    const ws = acceptUpgrade(request, socket);
+    if (!ws) return;
+
+    const connection = { ws, user: null, streams: new Set(), timers: {} };
+    this.connections.add(connection);
+    ws.on('close', () => {
+      this.clearTimers(connection);
+      this.connections.delete(connection);
+      if (connection.user) this.log(`Socket closed for ${connection.user.email}`);
+    });
+    ws.on('message', (text) => this.receive(connection, text));
+
+    const legacyToken = url.searchParams.get('token');
+    if (legacyToken) {
+      connection.streams = null;
+      this.authenticate(connection, legacyToken);
+      return;
+    }
+    connection.timers.hello = setTimeout(() => ws.close(CLOSE_INVALID_TOKEN, 'No hello received'), HELLO_TIMEOUT_MS);
+  }
+
+  send(connection, message) {
+    connection.ws.send(JSON.stringify(message));
+  }
+
+  clearTimers(connection) {
+    Object.values(connection.timers).forEach((timer) => clearTimeout(timer));
+    connection.timers = {};
+  }
+
+  /**
+   * Checks a token for this connection, closing it on failure
+   * @returns The user, or null when the connection was closed
+   */
+  checkToken(connection, token) {
+    const result = verifyAccessToken(token);
+    if (result.error) {
+      connection.ws.close(
+        result.error === 'expired' ? CLOSE_TOKEN_EXPIRED : CLOSE_INVALID_TOKEN,
+        result.error === 'expired' ? 'Token expired' : 'Invalid token',
+      );
+      return null;
+    }
+    const user = this.store.users.find((u) => u.id === result.claims.sub);
+    if (!user) {
+      connection.ws.close(CLOSE_UNKNOWN_USER, 'User not found');
+      return null;
+    }
+    this.scheduleExpiry(connection, result.claims.exp * 1000);
+    return user;
+  }
+
+  authenticate(connection, token) {
+    const user = this.checkToken(connection, token);
+    if (!user) return;
+    connection.user = user;
+    this.send(connection, { type: 'connected', protocolVersion: PROTOCOL_VERSION });
+    this.log(`Socket authenticated for ${user.email}`);
+  }
+
+  // Warn once when the token runs out, then drop the connection if no reauth arrives
+  scheduleExpiry(connection, expiresAt) {
+    clearTimeout(connection.timers.expiry);
+    clearTimeout(connection.timers.grace);
+    connection.timers.expiry = setTimeout(() => {
+      this.send(connection, { type: 'error', code: 401, message: 'Token expired' });
+      connection.timers.grace = setTimeout(
+        () => connection.ws.close(CLOSE_TOKEN_EXPIRED, 'Token expired'),
+        REAUTH_GRACE_MS,
+      );
+    }, Math.max(0, expiresAt - Date.now()));
+  }
+
+  receive(connection, text) {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      this.send(connection, { type: 'error', code: 400, message: 'Invalid JSON' });
+      return;
+    }
+
+    if (!connection.user) {
+      if (message.type !== 'hello') {
+        connection.ws.close(CLOSE_INVALID_TOKEN, 'Expected hello');
+        return;
+      }
+      clearTimeout(connection.timers.hello);
+      if (message.protocolVersion !== PROTOCOL_VERSION) {
+        this.log(`Client speaks protocol ${message.protocolVersion}, server speaks ${PROTOCOL_VERSION}`);
+      }
+      this.authenticate(connection, message.token);
+      return;
+    }
+
+    switch (message.type) {
+      case 'reauth':
+        this.reauthenticate(connection, message.token);
+        break;
+      case 'ping':
+        this.send(connection, { type: 'pong', id: message.id });
+        break;
+      case 'subscribe':
+      case 'unsubscribe':
+        this.changeStreams(connection, message);
+        break;
+      case 'command_sent':
+        this.handleCommand(connection, message);
+        break;
+      default:
+        this.send(connection, { type: 'error', code: 400, message: `Unknown message type "${message.type}"` });
+    }
+  }
+
+  reauthenticate(connection, token) {
+    const user = this.checkToken(connection, token);
+    if (!user) return;
+    if (user.id !== connection.user.id) {
+      connection.ws.close(CLOSE_INVALID_TOKEN, 'Token belongs to another user');
+      return;
+    }
+    clearTimeout(connection.timers.grace);
+    this.send(connection, { type: 'reauthenticated' });
+  }
+
+  changeStreams(connection, message) {
+    const deviceIds = Array.isArray(message.deviceIds) ? message.deviceIds : undefined;
+    const messageTypes = Array.isArray(message.messageTypes) ? message.messageTypes : MESSAGE_TYPES;
+    const reply = { type: 'subscription', deviceIds, messageTypes };
+
+    const unknownType = messageTypes.find((type) => !MESSAGE_TYPES.includes(type));
+    if (unknownType) {
+      this.send(connection, { ...reply, status: 'rejected', message: `Unknown message type "${unknownType}"` });
+      return;
+    }
+    const denied = (deviceIds || []).find((deviceId) => !canAccessDevice(this.store, connection.user, deviceId));
+    if (denied) {
+      this.send(connection, { ...reply, status: 'rejected', message: `No access to device ${denied}` });
+      return;
+    }
+
+    // A legacy connection that starts subscribing switches to explicit streams
+    if (connection.streams === null) connection.streams = new Set();
+    const subscribing = message.type === 'subscribe';
+    (deviceIds || [ALL_DEVICES]).forEach((deviceId) => {
+      messageTypes.forEach((type) => {
+        const key = `${deviceId}|${type}`;
+        if (subscribing) connection.streams.add(key);
+        else connection.streams.delete(key);
+      });
+    });
+    this.send(connection, { ...reply, status: subscribing ? 'subscribed' : 'unsubscribed' });
+  }
+
+  handleCommand(connection, message) {
+    const { command, deviceId, correlationId } = message;
+    const ack = (result) => this.send(connection, { type: 'command_ack', correlationId, ...result });
+
+    const device = this.store.devices.find((d) => d.deviceId === deviceId);
+    const role = device ? getDeviceRole(this.store, connection.user, device) : null;
+    if (!role) {
+      ack({ success: false, error: 'Device not found' });
+      return;
+    }
+    if (role === 'viewer') {
+      ack({ success: false, error: 'Viewers cannot control breakers' });
+      return;
+    }
+
+    const [min, max] = COMMAND_DELAY_MS;
+    setTimeout(() => {
+      if (!connection.ws.isOpen) return;
+      const result = this.simulator.applyCommand(deviceId, command);
+      this.log(`${command} on ${deviceId} by ${connection.user.email}: ${result.success ? 'ok' : result.error}`);
+      ack(result);
+      if (result.success) this.simulator.emitReading(deviceId, 'power_status');
+    }, min + Math.random() * (max - min));
+  }
+
+  wants(connection, deviceId, messageType) {
+    if (connection.streams === null) return true;
+    return connection.streams.has(`${deviceId}|${messageType}`) || connection.streams.has(`${ALL_DEVICES}|${messageType}`);
+  }
+
+  broadcast(message) {
+    this.connections.forEach((connection) => {
+      if (!connection.user || !connection.ws.isOpen) return;
+      if (!canAccessDevice(this.store, connection.user, message.deviceId)) return;
+      if (!this.wants(connection, message.deviceId, message.messageType)) return;
+      this.send(connection, { type: 'telemetry', data: message });
+    });
+  }
+
+  closeAll() {
+    this.connections.forEach((connection) => connection.ws.close(1001, 'Server shutting down'));
+  }
+}
+
+module.exports = { TelemetryHub };
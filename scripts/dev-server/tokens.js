@@ -0,0 +1,81 @@
+/**
+ * HS256 JWTs so the app can decode expiry exactly as it does with the real backend.
+ * Refresh tokens are JWTs too, so sessions survive a server restart; rotation
+ * revokes the old one in memory.
+ */
+
+const crypto = require('crypto');
+
+const SECRET = process.env.DEV_SERVER_SECRET || 'apn-dev-server-secret';
+// Short by default so proactive session renewal actually gets exercised
+const ACCESS_TOKEN_TTL_S = Number(process.env.ACCESS_TOKEN_TTL) || 15 * 60;
+const REFRESH_TOKEN_TTL_S = 30 * 24 * 60 * 60;
+
+const revokedRefreshTokens = new Set();
+// Sign-out ends every refresh token the user was issued before it (epoch seconds)
+const signedOutAt = new Map();
+
+const base64Url = (value) => Buffer.from(value).toString('base64url');
+
+function sign(claims, ttlSeconds) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64Url(JSON.stringify({ ...claims, iat: now, exp: now + ttlSeconds }));
+  const signature = crypto.createHmac('sha256', SECRET).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Checks a token's signature and expiry
+ * @returns { claims } when valid, otherwise { error: 'invalid' | 'expired' }
+ */
+function verify(token, type) {
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 3) return { error: 'invalid' };
+
+  const expected = crypto.createHmac('sha256', SECRET).update(`${parts[0]}.${parts[1]}`).digest('base64url');
+  const given = Buffer.from(parts[2]);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, Buffer.from(expected))) {
+    return { error: 'invalid' };
+  }
+
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+  } catch {
+    return { error: 'invalid' };
+  }
+  if (claims.type !== type) return { error: 'invalid' };
+  if (claims.exp * 1000 <= Date.now()) return { error: 'expired', claims };
+  return { claims };
+}
+
+function issueSession(userId) {
+  return {
+    accessToken: sign({ sub: userId, type: 'access' }, ACCESS_TOKEN_TTL_S),
+    refreshToken: sign({ sub: userId, type: 'refresh', jti: crypto.randomUUID() }, REFRESH_TOKEN_TTL_S),
+  };
+}
+
+function verifyAccessToken(token) {
+  return verify(token, 'access');
+}
+
+/**
+ * Validates and consumes a refresh token (each one can be used once)
+ * @returns { claims } or { error }
+ */
+function consumeRefreshToken(token) {
+  const result = verify(token, 'refresh');
+  if (result.error) return result;
+  if (revokedRefreshTokens.has(result.claims.jti)) return { error: 'invalid' };
+  if (result.claims.iat < (signedOutAt.get(result.claims.sub) ?? 0)) return { error: 'invalid' };
+  revokedRefreshTokens.add(result.claims.jti);
+  return result;
+}
+
+function revokeSessions(userId) {
+  signedOutAt.set(userId, Math.floor(Date.now() / 1000));
+}
+
+module.exports = { ACCESS_TOKEN_TTL_S, issueSession, verifyAccessToken, consumeRefreshToken, revokeSessions };
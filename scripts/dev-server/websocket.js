@@ -0,0 +1,175 @@
+/**
+ * Minimal RFC 6455 server side (text frames, ping/pong, close) on top of
+ * Node's http upgrade event, so the stand-in server needs no dependencies.
+ */
+
+const crypto = require('crypto');
+const { EventEmitter } = require('events');
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODES = {
+  continuation: 0x0,
+  text: 0x1,
+  binary: 0x2,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa,
+};
+
+// Largest frame accepted from a client; the app only sends small JSON frames
+const MAX_PAYLOAD_BYTES = 1024 * 1024;
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = length;
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode; // FIN + opcode; server frames are never masked
+  return Buffer.concat([header, payload]);
+}
+
+class WebSocketConnection extends EventEmitter {
+  constructor(socket) {
+    super();
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.closed = false;
+
+    socket.on('data', (chunk) => this.receive(chunk));
+    socket.on('close', () => this.finish(1006, 'Connection lost'));
+    socket.on('error', () => this.finish(1006, 'Connection error'));
+  }
+
+  get isOpen() {
+    return !this.closed;
+  }
+
+  send(text) {
+    if (this.closed) return;
+    this.socket.write(encodeFrame(OPCODES.text, Buffer.from(text, 'utf8')));
+  }
+
+  close(code = 1000, reason = '') {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.socket.write(encodeFrame(OPCODES.close, payload));
+    this.socket.end();
+    this.finish(code, reason);
+  }
+
+  finish(code, reason) {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit('close', code, reason);
+  }
+
+  receive(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= 2) {
+      const first = this.buffer[0];
+      const second = this.buffer[1];
+      const fin = (first & 0x80) !== 0;
+      const opcode = first & 0x0f;
+      const masked = (second & 0x80) !== 0;
+      let length = second & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      if (length > MAX_PAYLOAD_BYTES) {
+        this.close(1009, 'Frame too large');
+        return;
+      }
+
+      const maskLength = masked ? 4 : 0;
+      if (this.buffer.length < offset + maskLength + length) return;
+
+      const mask = masked ? this.buffer.subarray(offset, offset + 4) : null;
+      const payload = Buffer.from(this.buffer.subarray(offset + maskLength, offset + maskLength + length));
+      if (mask) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      }
+      this.buffer = this.buffer.subarray(offset + maskLength + length);
+
+      this.handleFrame(fin, opcode, payload);
+      if (this.closed) return;
+    }
+  }
+
+  handleFrame(fin, opcode, payload) {
+    switch (opcode) {
+      case OPCODES.text:
+      case OPCODES.binary:
+      case OPCODES.continuation:
+        this.fragments.push(payload);
+        if (fin) {
+          const message = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.emit('message', message);
+        }
+        break;
+
+      case OPCODES.ping:
+        this.socket.write(encodeFrame(OPCODES.pong, payload));
+        break;
+
+      case OPCODES.close: {
+        const code = payload.length >= 2 ? payload.readUInt16BE(0) : 1005;
+        this.close(code === 1005 ? 1000 : code, payload.subarray(2).toString('utf8'));
+        break;
+      }
+
+      default:
+        break; // pong and reserved opcodes
+    }
+  }
+}
+
+/**
+ * Completes the upgrade handshake
+ * @returns The connection, or null when the request isn't a valid WebSocket upgrade
+ */
+function acceptUpgrade(request, socket) {
+  const key = request.headers['sec-websocket-key'];
+  if (!key || (request.headers.upgrade || '').toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+
+  const accept = crypto.createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+  return new WebSocketConnection(socket);
+}
+
+module.exports = { acceptUpgrade };
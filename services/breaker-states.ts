@@ -0,0 +1,61 @@
+import { BreakerStates } from '@/lib/device-commands';
+
+export interface DeviceBreakerState {
+  states: BreakerStates;
+  updatedAt: string;
+}
+
+type BreakerStateListener = (deviceId: string, state: DeviceBreakerState) => void;
+
+/**
+ * Last known breaker states per device.
+ * Fed by power_status/sensor_reading telemetry and confirmed commands; a breaker
+ * stays null (unknown) until the device first reports it.
+ */
+class BreakerStateStoreImpl {
+  private devices = new Map<string, DeviceBreakerState>();
+  private listeners = new Set<BreakerStateListener>();
+
+  /**
+   * Get a device's breaker states ([null, null] before the first report)
+   */
+  getStates(deviceId: string | undefined): BreakerStates {
+    return (deviceId && this.devices.get(deviceId)?.states) || [null, null];
+  }
+
+  /**
+   * Merge newly reported states; null entries keep the previous value
+   */
+  update(deviceId: string, states: BreakerStates, updatedAt: string = new Date().toISOString()): void {
+    if (states[0] === null && states[1] === null) return;
+
+    const previous = this.getStates(deviceId);
+    const next: BreakerStates = [states[0] ?? previous[0], states[1] ?? previous[1]];
+    if (next[0] === previous[0] && next[1] === previous[1]) return;
+
+    const state = { states: next, updatedAt };
+    this.devices.set(deviceId, state);
+    this.listeners.forEach((listener) => listener(deviceId, state));
+  }
+
+  /**
+   * Forget all devices (sign-out)
+   */
+  clear(): void {
+    this.devices.clear();
+  }
+
+  /**
+   * Listen for breaker state changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: BreakerStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// Export singleton instance
+export const breakerStateStore = new BreakerStateStoreImpl();
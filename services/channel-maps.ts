@@ -0,0 +1,120 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createDefaultChannelMap, DeviceChannelMap, resolveSocketOutlet } from '@/lib/channel-map';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('app');
+
+// Storage keys
+const CHANNEL_MAPS_KEY = 'device_channel_maps'; // deviceId -> channel map
+const SOCKET_BINDINGS_KEY = 'socket_outlet_bindings'; // socketId -> outlet number
+
+type ChannelMapListener = () => void;
+
+// Everything the service knows, replaced as a whole on every change
+export interface ChannelMapSnapshot {
+  maps: ReadonlyMap<string, DeviceChannelMap>; // deviceId -> channel map
+  bindings: ReadonlyMap<string, number>; // socketId -> outlet number
+}
+
+/**
+ * Per-device channel maps and the outlet each socket is bound to.
+ * Devices without a saved map use the standard 2-outlet layout.
+ */
+class ChannelMapServiceImpl {
+  private snapshot: ChannelMapSnapshot = { maps: new Map(), bindings: new Map() };
+  private loadPromise: Promise<void> | null = null;
+  private listeners = new Set<ChannelMapListener>();
+
+  /**
+   * Load saved maps and bindings from storage (once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const [storedMaps, storedBindings] = await Promise.all([
+            AsyncStorage.getItem(CHANNEL_MAPS_KEY),
+            AsyncStorage.getItem(SOCKET_BINDINGS_KEY),
+          ]);
+          const maps: Record<string, DeviceChannelMap> = storedMaps ? JSON.parse(storedMaps) : {};
+          const bindings: Record<string, number> = storedBindings ? JSON.parse(storedBindings) : {};
+          this.snapshot = { maps: new Map(Object.entries(maps)), bindings: new Map(Object.entries(bindings)) };
+          this.notifyListeners();
+        } catch (error) {
+          log.error('Error loading channel maps', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Get a device's channel map (standard 2-outlet layout until one is saved)
+   */
+  getMap(deviceId: string | undefined): DeviceChannelMap {
+    return (deviceId && this.snapshot.maps.get(deviceId)) || createDefaultChannelMap();
+  }
+
+  async saveMap(deviceId: string, map: DeviceChannelMap): Promise<void> {
+    await this.load();
+    this.snapshot = { ...this.snapshot, maps: new Map(this.snapshot.maps).set(deviceId, map) };
+    await this.persist(CHANNEL_MAPS_KEY, this.snapshot.maps);
+    this.notifyListeners();
+  }
+
+  /**
+   * Get the outlet a socket is bound to
+   * @param socketId - Socket ID
+   * @param deviceId - Device the socket reads from (used to clamp to its outlet count)
+   * @returns Outlet number, 1-based (outlet 1 when the socket was never bound)
+   */
+  getSocketOutlet(socketId: string, deviceId?: string): number {
+    return resolveSocketOutlet(this.getMap(deviceId), this.snapshot.bindings.get(socketId));
+  }
+
+  /**
+   * Whether a socket has been explicitly bound to an outlet
+   */
+  isSocketBound(socketId: string): boolean {
+    return this.snapshot.bindings.has(socketId);
+  }
+
+  async bindSocket(socketId: string, outletNumber: number): Promise<void> {
+    await this.load();
+    this.snapshot = { ...this.snapshot, bindings: new Map(this.snapshot.bindings).set(socketId, outletNumber) };
+    await this.persist(SOCKET_BINDINGS_KEY, this.snapshot.bindings);
+    this.notifyListeners();
+  }
+
+  /**
+   * Current maps and bindings; a new object after every change (for useSyncExternalStore)
+   */
+  getSnapshot(): ChannelMapSnapshot {
+    return this.snapshot;
+  }
+
+  /**
+   * Subscribe to map and binding changes
+   */
+  onChange(listener: ChannelMapListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async persist(key: string, values: ReadonlyMap<string, unknown>): Promise<void> {
+    try {
+      await AsyncStorage.setItem(key, JSON.stringify(Object.fromEntries(values)));
+    } catch (error) {
+      log.error('Error saving channel maps', error);
+    }
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Export singleton instance
+export const channelMapService = new ChannelMapServiceImpl();
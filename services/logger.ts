@@ -0,0 +1,159 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LogCategory, LogEntry, LogLevel, redactText, serializeLogData } from '@/lib/logger';
+
+// Storage keys
+const LOG_BUFFER_KEY = 'diagnostic_logs';
+const LOG_VERBOSE_KEY = 'diagnostic_logs_verbose';
+
+// Ring buffer sizes: what the diagnostics screen shows, and what survives a restart
+const MAX_ENTRIES = 500;
+const MAX_PERSISTED_ENTRIES = 200;
+
+// Batch writes so a burst of log lines costs one AsyncStorage write
+const PERSIST_DELAY_MS = 2000;
+
+const CONSOLE_METHODS: Record<LogLevel, (...args: unknown[]) => void> = {
+  debug: console.log,
+  info: console.log,
+  warn: console.warn,
+  error: console.error,
+};
+
+type LogListener = (entries: LogEntry[]) => void;
+
+export interface Logger {
+  debug: (message: string, ...data: unknown[]) => void;
+  info: (message: string, ...data: unknown[]) => void;
+  warn: (message: string, ...data: unknown[]) => void;
+  error: (message: string, ...data: unknown[]) => void;
+}
+
+/**
+ * Bounded, redacted log buffer behind every category logger.
+ * Entries are masked before they are stored, so the diagnostics screen can
+ * share them for support as-is. Debug entries are only kept in verbose mode
+ * (they include per-message telemetry); dev builds echo everything to the console.
+ */
+class LogServiceImpl {
+  private entries: LogEntry[] = [];
+  private nextId = Date.now();
+  private verbose = false;
+  private loadPromise: Promise<void> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<LogListener>();
+
+  /**
+   * Restore entries from the previous session (once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const [stored, verbose] = await Promise.all([
+            AsyncStorage.getItem(LOG_BUFFER_KEY),
+            AsyncStorage.getItem(LOG_VERBOSE_KEY),
+          ]);
+          const previous: LogEntry[] = stored ? JSON.parse(stored) : [];
+          this.entries = [...previous, ...this.entries].slice(-MAX_ENTRIES);
+          this.verbose = verbose === 'true';
+          this.notifyListeners();
+        } catch (error) {
+          // Not through the logger: a storage failure here must not recurse
+          console.error('Error loading logs:', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  log(level: LogLevel, category: LogCategory, message: string, data: unknown[]): void {
+    if (__DEV__) {
+      CONSOLE_METHODS[level](`[${category}] ${message}`, ...data);
+    }
+    if (level === 'debug' && !this.verbose) return;
+
+    const entry: LogEntry = {
+      id: this.nextId++,
+      timestamp: new Date().toISOString(),
+      level,
+      category,
+      message: redactText(message),
+      data: serializeLogData(data),
+    };
+    this.entries = [...this.entries.slice(-(MAX_ENTRIES - 1)), entry];
+    this.schedulePersist();
+    this.notifyListeners();
+  }
+
+  getEntries(): LogEntry[] {
+    return this.entries;
+  }
+
+  isVerbose(): boolean {
+    return this.verbose;
+  }
+
+  async setVerbose(verbose: boolean): Promise<void> {
+    this.verbose = verbose;
+    this.notifyListeners();
+    try {
+      await AsyncStorage.setItem(LOG_VERBOSE_KEY, String(verbose));
+    } catch (error) {
+      console.error('Error saving log settings:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.entries = [];
+    this.notifyListeners();
+    await this.persist();
+  }
+
+  /**
+   * Subscribe to buffer changes
+   */
+  onChange(listener: LogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DELAY_MS);
+  }
+
+  private async persist(): Promise<void> {
+    await this.load();
+    try {
+      await AsyncStorage.setItem(LOG_BUFFER_KEY, JSON.stringify(this.entries.slice(-MAX_PERSISTED_ENTRIES)));
+    } catch (error) {
+      console.error('Error saving logs:', error);
+    }
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach((listener) => listener(this.entries));
+  }
+}
+
+// Export singleton instance
+export const logService = new LogServiceImpl();
+
+/**
+ * Logger that tags every entry with a category
+ * @example const log = createLogger('ws'); log.warn('Heartbeat missed', { attempts });
+ */
+export function createLogger(category: LogCategory): Logger {
+  return {
+    debug: (message, ...data) => logService.log('debug', category, message, data),
+    info: (message, ...data) => logService.log('info', category, message, data),
+    warn: (message, ...data) => logService.log('warn', category, message, data),
+    error: (message, ...data) => logService.log('error', category, message, data),
+  };
+}
@@ -2,6 +2,9 @@ import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 import Constants from 'expo-constants';
 import { api } from '@/lib/api';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('notifications');
 
 // Configure how notifications are handled when app is in foreground
 Notifications.setNotificationHandler({
@@ -19,6 +22,7 @@ const ALERT_TITLES: Record<string, string> = {
   'HIGH_TEMPERATURE': '🌡️ High Temperature Warning',
   'GROUND_MOVEMENT_DETECTED': '⚠️ Ground Movement Detected',
   'POWER_ABNORMAL': '⚡ Power Issue Detected',
+  'OVERCURRENT': '⚡ Outlet Overload',
   'MULTIPLE_HAZARDS': '🚨 Multiple Hazards Detected',
 };
 
@@ -44,6 +48,10 @@ const ALERT_MESSAGES: Record<string, (alert: { deviceId: string; sensor?: string
   'POWER_ABNORMAL': (alert) => {
     return `An abnormal power condition has been detected. Please check your electrical system.`;
   },
+  'OVERCURRENT': (alert) => {
+    const current = alert.value ? ` (${alert.value.toFixed(1)}A)` : '';
+    return `An outlet is drawing more current than its limit${current}. Unplug some appliances to avoid overheating.`;
+  },
   'MULTIPLE_HAZARDS': (alert) => {
     return `Multiple hazards have been detected simultaneously. Please check your property immediately and ensure your safety.`;
   },
@@ -54,6 +62,7 @@ const ALERT_PRIORITY: Record<string, Notifications.AndroidNotificationPriority>
   'GAS_LEAK_DETECTED': Notifications.AndroidNotificationPriority.HIGH,
   'MULTIPLE_HAZARDS': Notifications.AndroidNotificationPriority.HIGH,
   'POWER_ABNORMAL': Notifications.AndroidNotificationPriority.DEFAULT,
+  'OVERCURRENT': Notifications.AndroidNotificationPriority.HIGH,
   'GROUND_MOVEMENT_DETECTED': Notifications.AndroidNotificationPriority.DEFAULT,
   'WATER_DETECTED': Notifications.AndroidNotificationPriority.DEFAULT,
   'HIGH_TEMPERATURE': Notifications.AndroidNotificationPriority.DEFAULT,
@@ -90,14 +99,14 @@ class NotificationServiceImpl implements NotificationService {
       }
 
       if (finalStatus !== 'granted') {
-        console.warn('⚠️ Notification permissions not granted');
+        log.warn('Notification permissions not granted');
         return false;
       }
 
-      console.log('✅ Notification permissions granted');
+      log.info('Notification permissions granted');
       return true;
     } catch (error) {
-      console.error('❌ Error requesting notification permissions:', error);
+      log.error('Error requesting notification permissions', error);
       return false;
     }
   }
@@ -120,8 +129,8 @@ class NotificationServiceImpl implements NotificationService {
         Constants.expoConfig?.extra?.projectId;
 
       if (!projectId) {
-        console.warn('⚠️ No projectId found. Push notifications will not work, but local notifications will still function.');
-        console.warn('   To enable push notifications, set EXPO_PUBLIC_PROJECT_ID in your .env file or configure EAS project.');
+        // Set EXPO_PUBLIC_PROJECT_ID in .env or configure an EAS project to enable push
+        log.warn('No projectId found; push notifications disabled, local notifications still work');
         return null;
       }
 
@@ -131,14 +140,14 @@ class NotificationServiceImpl implements NotificationService {
       });
 
       this.expoPushToken = tokenData.data;
-      console.log('✅ Expo push token obtained:', this.expoPushToken);
+      log.info('Expo push token obtained', this.expoPushToken);
 
       // Send token to backend
       await this.sendTokenToBackend(this.expoPushToken);
 
       return this.expoPushToken;
     } catch (error) {
-      console.error('❌ Error registering for push notifications:', error);
+      log.error('Error registering for push notifications', error);
       // Don't fail completely - local notifications will still work
       return null;
     }
@@ -169,7 +178,7 @@ class NotificationServiceImpl implements NotificationService {
       this.expoPushToken = tokenData.data;
       return this.expoPushToken;
     } catch (error) {
-      console.error('❌ Error getting Expo push token:', error);
+      log.error('Error getting Expo push token', error);
       return null;
     }
   }
@@ -185,12 +194,12 @@ class NotificationServiceImpl implements NotificationService {
       
       const response = await api.registerPushToken(token, platform, deviceId);
       if (response.error) {
-        console.error('❌ Error registering push token:', response.error);
+        log.error('Error registering push token', response.error);
       } else {
-        console.log('✅ Push token registered with backend');
+        log.info('Push token registered with backend');
       }
     } catch (error) {
-      console.error('❌ Error sending push token to backend:', error);
+      log.error('Error sending push token to backend', error);
     }
   }
 
@@ -239,9 +248,9 @@ class NotificationServiceImpl implements NotificationService {
         trigger: null, // Show immediately
       });
 
-      console.log(`✅ Local notification sent for alert: ${alert.alertType}`);
+      log.info(`Local notification sent for ${alert.alertType}`);
     } catch (error) {
-      console.error('❌ Error sending local notification:', error);
+      log.error('Error sending local notification', error);
     }
   }
 }
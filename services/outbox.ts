@@ -0,0 +1,286 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { api, ApiResponse } from '@/lib/api';
+import { createIdempotencyKey, OutboxEntry, OutboxMutation } from '@/lib/outbox';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('outbox');
+
+// Storage key
+const OUTBOX_KEY = 'mutation_outbox';
+
+// Retry cadence while changes are waiting and nothing else signals connectivity
+const RETRY_INTERVAL_MS = 30000;
+
+// Errors that mean "try again later" rather than "the server refused this"
+const TRANSIENT_ERRORS = ['Network error', 'Session expired'];
+
+export type OutboxResult<T = unknown> =
+  | { status: 'sent'; response: ApiResponse<T> }
+  | { status: 'queued'; entry: OutboxEntry }
+  | { status: 'error'; error: string; message?: string };
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+/**
+ * Persisted queue of mutations made while the server is unreachable.
+ * Entries are replayed in order with their idempotency key once connectivity
+ * returns; mutations the server rejects stay in the list as failed until the
+ * user retries or discards them. Each entry belongs to the account that made
+ * it: only the signed-in user's entries are shown and replayed, so a session
+ * that expires offline never replays its changes under the next account.
+ */
+class OutboxServiceImpl {
+  private entries: OutboxEntry[] = [];
+  private userId: string | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private flushPromise: Promise<void> | null = null;
+  private listeners = new Set<OutboxListener>();
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private unsubscribeConnectivity: (() => void) | null = null;
+  private retryTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Load queued mutations from storage (once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+          const entries: OutboxEntry[] = stored ? JSON.parse(stored) : [];
+          // Entries queued before they recorded their account can't be attributed safely
+          this.entries = entries.filter((e) => e.userId);
+          if (this.entries.length < entries.length) {
+            log.warn(`Dropped ${entries.length - this.entries.length} queued change(s) without an account`);
+          }
+          this.notifyListeners();
+        } catch (error) {
+          log.error('Error loading outbox', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Start replaying the given account's changes on reconnect, on app foreground and on a timer
+   * @param userId - Signed-in user; other accounts' entries stay queued until they sign in again
+   */
+  start(userId: string): void {
+    if (this.appStateSubscription && this.userId === userId) return;
+    this.stop();
+    this.userId = userId;
+    this.notifyListeners();
+
+    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') this.flush();
+    });
+    this.unsubscribeConnectivity = api.onConnectivityChange((online) => {
+      if (online) this.flush();
+    });
+    this.retryTimer = setInterval(() => {
+      if (this.getEntries().some((e) => e.status === 'pending')) this.flush();
+    }, RETRY_INTERVAL_MS);
+
+    this.flush();
+  }
+
+  stop(): void {
+    if (this.userId) {
+      this.userId = null;
+      this.notifyListeners();
+    }
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.unsubscribeConnectivity?.();
+    this.unsubscribeConnectivity = null;
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Send a mutation now, or queue it if the server can't be reached.
+   * The entry is persisted before sending so a crash mid-request replays it
+   * with the same idempotency key.
+   * @returns sent (server accepted), queued (will replay) or error (server refused)
+   */
+  async submit<T = unknown>(mutation: OutboxMutation): Promise<OutboxResult<T>> {
+    await this.load();
+    if (!this.userId) {
+      return { status: 'error', error: 'Not signed in', message: 'Sign in to make changes' };
+    }
+
+    const entry = {
+      ...mutation,
+      id: createIdempotencyKey(),
+      userId: this.userId,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+    } as OutboxEntry;
+
+    // Earlier changes are still waiting: keep the order and queue behind them
+    const queuedAhead = this.getEntries().some((e) => e.status === 'pending');
+    this.entries = [...this.entries, entry];
+    await this.persist();
+    this.notifyListeners();
+
+    if (queuedAhead) {
+      this.flush();
+      return { status: 'queued', entry };
+    }
+
+    const response = await this.send(entry);
+    if (response.error && TRANSIENT_ERRORS.includes(response.error)) {
+      this.updateEntry(entry.id, { attempts: 1 });
+      await this.persist();
+      this.notifyListeners();
+      log.info(`Queued ${entry.type} until the server is reachable`);
+      return { status: 'queued', entry };
+    }
+
+    // Sent or refused: either way the caller handles it, nothing to replay
+    await this.remove(entry.id);
+    if (response.error) {
+      return { status: 'error', error: response.error, message: response.message };
+    }
+    return { status: 'sent', response: response as ApiResponse<T> };
+  }
+
+  /**
+   * Replay pending mutations in order (single-flight).
+   * Stops at the first transient error so later changes never overtake earlier ones.
+   */
+  flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.replay().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  /**
+   * Queue a failed mutation again
+   */
+  async retry(id: string): Promise<void> {
+    await this.load();
+    this.updateEntry(id, { status: 'pending', error: undefined });
+    await this.persist();
+    this.notifyListeners();
+    await this.flush();
+  }
+
+  /**
+   * Drop a mutation without sending it
+   */
+  async discard(id: string): Promise<void> {
+    await this.load();
+    await this.remove(id);
+  }
+
+  /**
+   * Drop the signed-in account's queued mutations (on sign-out)
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    this.entries = this.entries.filter((e) => e.userId !== this.userId);
+    await this.persist();
+    this.notifyListeners();
+  }
+
+  /**
+   * Queued mutations of the signed-in account
+   */
+  getEntries(): OutboxEntry[] {
+    return this.userId ? this.entries.filter((e) => e.userId === this.userId) : [];
+  }
+
+  /**
+   * Subscribe to queue changes
+   */
+  onChange(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async replay(): Promise<void> {
+    await this.load();
+
+    const userId = this.userId;
+    for (const entry of this.getEntries()) {
+      // Signed out (or switched account) mid-replay
+      if (this.userId !== userId) return;
+      if (entry.status !== 'pending') continue;
+      // Discarded while an earlier entry was being sent
+      if (!this.entries.some((e) => e.id === entry.id)) continue;
+
+      const response = await this.send(entry);
+      if (response.error && TRANSIENT_ERRORS.includes(response.error)) {
+        this.updateEntry(entry.id, { attempts: entry.attempts + 1 });
+        await this.persist();
+        this.notifyListeners();
+        return;
+      }
+
+      if (response.error) {
+        log.error(`${entry.type} rejected`, response.message || response.error);
+        this.updateEntry(entry.id, {
+          status: 'failed',
+          attempts: entry.attempts + 1,
+          error: response.message || response.error,
+        });
+        await this.persist();
+        this.notifyListeners();
+        continue;
+      }
+
+      log.info(`Replayed ${entry.type}`);
+      await this.remove(entry.id);
+    }
+  }
+
+  private send(entry: OutboxEntry): Promise<ApiResponse<unknown>> {
+    switch (entry.type) {
+      case 'archiveAlert':
+        return api.archiveAlert(entry.params.alertId, entry.id);
+      case 'pairDevice':
+        return api.pairDevice(entry.params.deviceId, entry.params.name, entry.id);
+      case 'createSocket':
+        return api.createSocket(entry.params.socketName, entry.params.location, entry.params.sensorIds, entry.id);
+      case 'unpairDevice':
+        return api.unpairDevice(entry.params.deviceId, entry.id);
+    }
+  }
+
+  private updateEntry(id: string, changes: Partial<Pick<OutboxEntry, 'status' | 'attempts' | 'error'>>): void {
+    this.entries = this.entries.map((e) => (e.id === id ? { ...e, ...changes } : e));
+  }
+
+  private async remove(id: string): Promise<void> {
+    this.entries = this.entries.filter((e) => e.id !== id);
+    await this.persist();
+    this.notifyListeners();
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      log.error('Error saving outbox', error);
+    }
+  }
+
+  private notifyListeners(): void {
+    const entries = this.getEntries();
+    this.listeners.forEach((listener) => listener(entries));
+  }
+}
+
+// Export singleton instance
+export const outboxService = new OutboxServiceImpl();
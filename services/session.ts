@@ -0,0 +1,91 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { api } from '@/lib/api';
+import { decodeTokenExpiry, getRenewalDelay, isRenewalDue } from '@/lib/session';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('auth');
+
+// Retry a renewal that failed for lack of connectivity
+const RETRY_DELAY_MS = 30000;
+
+/**
+ * Renews the access token shortly before it expires, so requests and the
+ * telemetry socket never run into a 401. Timers don't fire while the app is
+ * suspended, so the expiry is checked again whenever the app comes back.
+ */
+class SessionServiceImpl {
+  private renewTimer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private unsubscribeTokenRefreshed: (() => void) | null = null;
+
+  /**
+   * Start renewing (on sign-in)
+   */
+  start(): void {
+    if (this.appStateSubscription) return;
+
+    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') this.schedule();
+    });
+    // Renewed elsewhere (a request hit a 401): plan around the new token
+    this.unsubscribeTokenRefreshed = api.onTokenRefreshed((token) => this.scheduleFor(decodeTokenExpiry(token)));
+
+    this.schedule();
+  }
+
+  /**
+   * Stop renewing (on sign-out)
+   */
+  stop(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.unsubscribeTokenRefreshed?.();
+    this.unsubscribeTokenRefreshed = null;
+    this.clearTimer();
+  }
+
+  private async schedule(): Promise<void> {
+    this.scheduleFor(await api.getSessionExpiry());
+  }
+
+  private scheduleFor(expiresAt: number | null): void {
+    this.clearTimer();
+    if (!this.appStateSubscription || expiresAt === null) return;
+
+    if (isRenewalDue(expiresAt, Date.now())) {
+      this.renew();
+      return;
+    }
+    this.setTimer(getRenewalDelay(expiresAt, Date.now()));
+  }
+
+  private async renew(): Promise<void> {
+    log.info('Access token about to expire, renewing');
+    const res = await api.refreshToken();
+    if (res.data?.session || !this.appStateSubscription) return; // Success reschedules through onTokenRefreshed
+
+    if (res.error === 'Network error') {
+      log.warn('Session renewal failed offline, retrying');
+      this.setTimer(RETRY_DELAY_MS);
+    }
+    // Anything else means the refresh token was rejected; the API client reports the expired session
+  }
+
+  private setTimer(delay: number): void {
+    this.clearTimer();
+    this.renewTimer = setTimeout(() => {
+      this.renewTimer = null;
+      this.renew();
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.renewTimer) {
+      clearTimeout(this.renewTimer);
+      this.renewTimer = null;
+    }
+  }
+}
+
+// Export singleton instance
+export const sessionService = new SessionServiceImpl();
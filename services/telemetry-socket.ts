@@ -0,0 +1,868 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { notificationService } from '@/services/notifications';
+import { breakerStateStore } from '@/services/breaker-states';
+import { Alert, api, SensorReading } from '@/lib/api';
+import { createLogger } from '@/services/logger';
+import {
+  COMMAND_TIMEOUT_MS,
+  CommandError,
+  CommandResult,
+  createCorrelationId,
+  DeviceCommand,
+  getCommandBreakerStates,
+  isCommandReflected,
+  parseBreakerStates,
+} from '@/lib/device-commands';
+import { ConnectionHealth, getReconnectDelay } from '@/lib/connection-health';
+import { mergeReadings } from '@/lib/telemetry';
+import {
+  CommandAckMessage,
+  encodeClientMessage,
+  getStreamKeys,
+  groupStreamKeys,
+  parseServerMessage,
+  ProtocolErrorKind,
+  PROTOCOL_VERSION,
+  TelemetryMessage,
+  TelemetryMessageType,
+} from '@/lib/ws-protocol';
+
+const TOKEN_KEY = 'auth_token';
+const API_URL = process.env.EXPO_PUBLIC_API_URL || 'https://apnbackend-fv05.onrender.com';
+
+// Construct WebSocket URL from API URL
+const getWebSocketUrl = () => {
+  if (process.env.EXPO_PUBLIC_WS_URL) {
+    return process.env.EXPO_PUBLIC_WS_URL;
+  }
+  // Convert http:// to ws:// and https:// to wss://
+  return API_URL.replace(/^http:/, 'ws:').replace(/^https:/, 'wss:');
+};
+
+const log = createLogger('ws');
+const commandLog = createLogger('commands');
+
+// Authentication-related server close codes
+const AUTH_ERROR_CODES = [4001, 4002, 4004];
+
+// App-level heartbeat: mobile networks can leave a dead socket "open" for minutes
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Heartbeats in a row with no frame at all from the server before the connection is dropped
+const MAX_MISSED_HEARTBEATS = 2;
+// Close code used locally when the heartbeat gives up
+const HEARTBEAT_CLOSE_CODE = 4000;
+// Time allowed between sending hello and the server's connected confirmation
+const HANDSHAKE_TIMEOUT_MS = 10000;
+
+// Most readings fetched per device when filling an outage
+const BACKFILL_LIMIT = 100;
+const READING_TYPES: TelemetryMessageType[] = ['sensor_reading', 'power_status'];
+
+export type { TelemetryMessage, TelemetryMessageType };
+
+// Frames dropped by the protocol validator, for diagnostics
+export interface ProtocolStats {
+  serverVersion: number | null; // From the server's connected message
+  rejected: Record<ProtocolErrorKind, number>;
+  lastRejection: string | null;
+}
+
+export interface TelemetrySubscription {
+  // Only deliver messages for this device (all devices when omitted)
+  deviceId?: string;
+  // Only deliver these message types (all types when omitted)
+  messageTypes?: TelemetryMessageType[];
+  onTelemetry: (data: TelemetryMessage) => void;
+  // Readings sent while the connection was down, newest first, fetched after it comes back
+  onBackfill?: (readings: SensorReading[]) => void;
+}
+
+type ConnectionListener = (connected: boolean) => void;
+type HealthListener = (health: ConnectionHealth) => void;
+
+interface PendingCommand {
+  deviceId: string;
+  command: DeviceCommand;
+  resolve: (result: CommandResult) => void;
+  reject: (error: CommandError) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * App-wide owner of the /ws/telemetry connection.
+ * Screens never open sockets themselves; they subscribe here (through useWebSocket)
+ * and receive messages filtered by device and message type.
+ */
+class TelemetrySocketImpl {
+  private ws: WebSocket | null = null;
+  private connected = false;
+  private shouldConnect = false;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private backgrounded = false;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private unsubscribeConnectivity: (() => void) | null = null;
+  private unsubscribeNetInfo: (() => void) | null = null;
+  private networkOnline: boolean | null = null; // Last device network state, null until NetInfo reports
+  private unsubscribeTokenRefreshed: (() => void) | null = null;
+  private subscriptions = new Set<TelemetrySubscription>();
+  // Reference counts per server stream ("deviceId|messageType"); alert notifications always need every device's alerts
+  private streamRefs = new Map<string, number>(getStreamKeys(undefined, ['alert', 'alert_cleared']).map((key) => [key, 1]));
+  private connectionListeners = new Set<ConnectionListener>();
+  private pendingCommands = new Map<string, PendingCommand>();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private handshakeTimeout: ReturnType<typeof setTimeout> | null = null;
+  private pendingPing: { id: string; sentAt: number } | null = null;
+  private pingCounter = 0;
+  private health: ConnectionHealth = {
+    connected: false,
+    rttMs: null,
+    lastMessageAt: null,
+    missedHeartbeats: 0,
+    reconnectAttempt: 0,
+    nextReconnectAt: null,
+  };
+  private healthListeners = new Set<HealthListener>();
+  // Gap tracking for backfill: newest reading seen per device, and the last frame before the
+  // connection dropped (a dead connection can go unnoticed until the heartbeat gives up on it)
+  private lastReceivedAt = new Map<string, string>();
+  private gapStartedAt: number | null = null;
+  private gapInBackground = false;
+  private protocolStats: ProtocolStats = {
+    serverVersion: null,
+    rejected: { malformed: 0, unknown: 0, invalid: 0 },
+    lastRejection: null,
+  };
+
+  /**
+   * Open the connection (no-op if already open or connecting)
+   */
+  async connect(): Promise<void> {
+    this.shouldConnect = true;
+    this.startLifecycleListeners();
+    if (this.ws || this.backgrounded) return;
+
+    try {
+      // Get auth token from storage
+      const token = await AsyncStorage.getItem(TOKEN_KEY);
+
+      if (!token) {
+        log.warn('No auth token found, cannot connect');
+        this.setConnected(false);
+        return;
+      }
+
+      // Signed out while reading the token
+      if (!this.shouldConnect || this.ws) return;
+
+      // The token goes in the hello frame, not the URL, so it stays out of proxy and access logs
+      const wsBaseUrl = getWebSocketUrl();
+      log.info(`Connecting to ${wsBaseUrl}`);
+
+      const websocket = new WebSocket(`${wsBaseUrl}/ws/telemetry`);
+      this.ws = websocket;
+
+      websocket.onopen = () => {
+        if (this.ws !== websocket) return;
+        log.info('Socket open, authenticating');
+        websocket.send(encodeClientMessage({ type: 'hello', protocolVersion: PROTOCOL_VERSION, token }));
+        this.handshakeTimeout = setTimeout(() => {
+          // A socket replaced mid-handshake must not tear down its successor
+          if (this.ws !== websocket) return;
+          this.handshakeTimeout = null;
+          this.dropDeadConnection('Server did not confirm authentication');
+        }, HANDSHAKE_TIMEOUT_MS);
+      };
+
+      websocket.onclose = (event) => {
+        // Ignore close events from sockets we already replaced or tore down
+        if (this.ws !== websocket) return;
+        log.info(`Disconnected (${event.code})`, event.reason);
+        this.ws = null;
+        this.stopHeartbeat();
+        this.setConnected(false);
+        this.handleClose(event.code);
+      };
+
+      websocket.onerror = (error) => {
+        if (this.ws !== websocket) return;
+        log.error('Socket error', error);
+        this.setConnected(false);
+      };
+
+      websocket.onmessage = (event) => {
+        if (this.ws !== websocket) return;
+        // Any frame, even one the validator drops, proves the connection is alive
+        this.health = { ...this.health, lastMessageAt: Date.now() };
+        this.handleMessage(event.data);
+      };
+    } catch (error) {
+      log.error('Connection error', error);
+      this.ws = null;
+      this.setConnected(false);
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Retry right away instead of waiting out the backoff (manual reconnect,
+   * app foregrounded, server reachable again). Replaces a socket that is still connecting.
+   */
+  reconnectNow(): void {
+    if (!this.shouldConnect || this.backgrounded || this.connected) return;
+    this.clearReconnectTimer();
+    this.reconnectAttempts = 0;
+    this.updateHealth({ reconnectAttempt: 0, nextReconnectAt: null });
+    const websocket = this.ws;
+    this.ws = null;
+    this.stopHeartbeat();
+    try { websocket?.close(); } catch {}
+    log.info('Reconnecting now');
+    this.connect();
+  }
+
+  /**
+   * Close the connection and stop reconnecting (sign-out)
+   */
+  disconnect(): void {
+    this.shouldConnect = false;
+    this.stopLifecycleListeners();
+    this.backgrounded = false;
+    this.closeSocket('Client disconnect');
+    this.updateHealth({ reconnectAttempt: 0, nextReconnectAt: null });
+    this.lastReceivedAt.clear();
+    this.gapStartedAt = null;
+    this.gapInBackground = false;
+    breakerStateStore.clear();
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getProtocolStats(): ProtocolStats {
+    return this.protocolStats;
+  }
+
+  getHealth(): ConnectionHealth {
+    return this.health;
+  }
+
+  /**
+   * Listen for heartbeat results (RTT, missed heartbeats) and connection changes.
+   * Not called for every frame; read lastMessageAt from getHealth() when rendering.
+   * @returns Unsubscribe function
+   */
+  onHealthChange(listener: HealthListener): () => void {
+    this.healthListeners.add(listener);
+    return () => {
+      this.healthListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register a telemetry subscriber
+   * @returns Unsubscribe function
+   */
+  subscribe(subscription: TelemetrySubscription): () => void {
+    this.subscriptions.add(subscription);
+    this.retainStreams(subscription.deviceId, subscription.messageTypes);
+    return () => {
+      if (!this.subscriptions.delete(subscription)) return;
+      this.releaseStreams(subscription.deviceId, subscription.messageTypes);
+    };
+  }
+
+  /**
+   * Listen for connection state changes
+   * @returns Unsubscribe function
+   */
+  onConnectionChange(listener: ConnectionListener): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send a command to a device and wait for it to be confirmed.
+   * Resolves on a matching command_ack or on telemetry showing the new state;
+   * rejects with a CommandError if the device reports failure or nothing arrives in time.
+   */
+  sendCommand(deviceId: string, command: DeviceCommand, timeoutMs: number = COMMAND_TIMEOUT_MS): Promise<CommandResult> {
+    const correlationId = createCorrelationId();
+    commandLog.info(`Sending ${command} to ${deviceId} (${correlationId})`);
+
+    const websocket = this.ws;
+    if (!websocket || !this.connected || websocket.readyState !== WebSocket.OPEN) {
+      commandLog.warn(`${command} not sent: connection not open`);
+      return Promise.reject(new CommandError('failed', 'Not connected to the server', correlationId));
+    }
+
+    return new Promise<CommandResult>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingCommands.delete(correlationId);
+        this.releaseStreams(deviceId, READING_TYPES);
+        commandLog.warn(`${command} timed out (${correlationId})`);
+        reject(new CommandError('timeout', 'The device did not respond in time', correlationId));
+      }, timeoutMs);
+
+      this.pendingCommands.set(correlationId, { deviceId, command, resolve, reject, timeout });
+      // Confirmation can come from the device's own telemetry, so receive it until the command settles
+      this.retainStreams(deviceId, READING_TYPES);
+
+      try {
+        websocket.send(encodeClientMessage({
+          type: 'command_sent',
+          command,
+          deviceId,
+          correlationId,
+          timestamp: new Date().toISOString(),
+        }));
+      } catch (error) {
+        commandLog.error(`Failed to send ${command}`, error);
+        this.settleCommand(correlationId, new CommandError('failed', 'Failed to send command', correlationId));
+      }
+    });
+  }
+
+  // Resolve or reject a pending command and forget it
+  private settleCommand(correlationId: string, outcome: CommandResult | CommandError): void {
+    const pending = this.pendingCommands.get(correlationId);
+    if (!pending) return;
+    clearTimeout(pending.timeout);
+    this.pendingCommands.delete(correlationId);
+    this.releaseStreams(pending.deviceId, READING_TYPES);
+    if (outcome instanceof CommandError) {
+      pending.reject(outcome);
+    } else {
+      pending.resolve(outcome);
+    }
+  }
+
+  private handleCommandAck(message: CommandAckMessage): void {
+    const correlationId = message.correlationId;
+    if (!this.pendingCommands.has(correlationId)) return;
+    const pending = this.pendingCommands.get(correlationId)!;
+
+    const succeeded = message.success !== false && message.status !== 'error' && message.status !== 'failed';
+    if (succeeded) {
+      commandLog.info(`${pending.command} acknowledged (${correlationId})`);
+      // Prefer states the device reported in the ack; otherwise assume the command took effect
+      const reported = parseBreakerStates(message.payload ?? message);
+      const hasReported = reported[0] !== null || reported[1] !== null;
+      breakerStateStore.update(pending.deviceId, hasReported ? reported : getCommandBreakerStates(pending.command));
+      this.settleCommand(correlationId, {
+        correlationId,
+        deviceId: pending.deviceId,
+        command: pending.command,
+        confirmedBy: 'ack',
+      });
+    } else {
+      commandLog.warn(`${pending.command} rejected by device (${correlationId})`, message.error);
+      this.settleCommand(correlationId, new CommandError('failed', message.error || message.message || 'The device rejected the command', correlationId));
+    }
+  }
+
+  // Telemetry showing the requested breaker state also confirms a pending command
+  private confirmCommandsFromTelemetry(telemetryData: TelemetryMessage): void {
+    this.pendingCommands.forEach((pending, correlationId) => {
+      if (pending.deviceId !== telemetryData.deviceId) return;
+      if (!isCommandReflected(pending.command, telemetryData.payload)) return;
+      commandLog.info(`${pending.command} confirmed by telemetry (${correlationId})`);
+      this.settleCommand(correlationId, {
+        correlationId,
+        deviceId: pending.deviceId,
+        command: pending.command,
+        confirmedBy: 'telemetry',
+      });
+    });
+  }
+
+  private setConnected(connected: boolean): void {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    if (!connected && this.gapStartedAt === null) this.gapStartedAt = this.health.lastMessageAt ?? Date.now();
+    this.connectionListeners.forEach((listener) => listener(connected));
+    this.updateHealth({ connected });
+  }
+
+  private updateHealth(changes: Partial<ConnectionHealth>): void {
+    this.health = { ...this.health, ...changes };
+    this.healthListeners.forEach((listener) => listener(this.health));
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), HEARTBEAT_INTERVAL_MS);
+  }
+
+  // Also ends a handshake still waiting on the server
+  private stopHeartbeat(): void {
+    if (this.handshakeTimeout) {
+      clearTimeout(this.handshakeTimeout);
+      this.handshakeTimeout = null;
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.pendingPing = null;
+  }
+
+  private sendHeartbeat(): void {
+    const websocket = this.ws;
+    if (!websocket || websocket.readyState !== WebSocket.OPEN) return;
+
+    // Previous ping unanswered and nothing else heard since it went out
+    if (this.pendingPing && (this.health.lastMessageAt ?? 0) < this.pendingPing.sentAt) {
+      const missedHeartbeats = this.health.missedHeartbeats + 1;
+      this.updateHealth({ missedHeartbeats });
+      log.warn(`Missed heartbeat (${missedHeartbeats}/${MAX_MISSED_HEARTBEATS})`);
+      if (missedHeartbeats >= MAX_MISSED_HEARTBEATS) {
+        this.dropDeadConnection('Heartbeat timed out');
+        return;
+      }
+    } else if (this.health.missedHeartbeats > 0) {
+      this.updateHealth({ missedHeartbeats: 0 });
+    }
+
+    this.pingCounter += 1;
+    const ping = { id: `ping_${this.pingCounter}`, sentAt: Date.now() };
+    this.pendingPing = ping;
+    try {
+      websocket.send(encodeClientMessage({ type: 'ping', id: ping.id, timestamp: new Date(ping.sentAt).toISOString() }));
+    } catch (error) {
+      log.error('Failed to send heartbeat', error);
+    }
+  }
+
+  private handlePong(id: string): void {
+    if (!this.pendingPing || this.pendingPing.id !== id) return;
+    const rttMs = Date.now() - this.pendingPing.sentAt;
+    this.pendingPing = null;
+    this.updateHealth({ rttMs, missedHeartbeats: 0 });
+  }
+
+  // The server went silent or stopped accepting us: close without waiting for onclose and reconnect
+  private dropDeadConnection(reason: string): void {
+    log.warn(`${reason}, reconnecting`);
+    const websocket = this.ws;
+    this.ws = null;
+    this.stopHeartbeat();
+    try { websocket?.close(HEARTBEAT_CLOSE_CODE, reason); } catch {}
+    // Commands sent into the dead socket will never be answered
+    this.failPendingCommands('Connection lost before the device responded');
+    this.setConnected(false);
+    this.handleClose(HEARTBEAT_CLOSE_CODE);
+  }
+
+  private handleClose(code: number): void {
+    // Don't retry on normal closure (1000), after sign-out or while paused in the background
+    if (code === 1000 || !this.shouldConnect || this.backgrounded) return;
+
+    // Authentication-related server codes - refresh the token, then reconnect
+    if (AUTH_ERROR_CODES.includes(code)) {
+      this.refreshAndReconnect();
+      return;
+    }
+
+    this.scheduleReconnect();
+  }
+
+  // Retry forever with capped, jittered backoff; sign-out is what stops it
+  private scheduleReconnect(): void {
+    if (!this.shouldConnect || this.backgrounded || this.reconnectTimeout) return;
+
+    const delay = getReconnectDelay(this.reconnectAttempts);
+    this.reconnectAttempts += 1;
+    log.info(`Reconnecting in ${Math.round(delay / 1000)}s (attempt ${this.reconnectAttempts})`);
+    this.updateHealth({ reconnectAttempt: this.reconnectAttempts, nextReconnectAt: Date.now() + delay });
+
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.updateHealth({ nextReconnectAt: null });
+      this.connect();
+    }, delay);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+  }
+
+  private async refreshAndReconnect(): Promise<void> {
+    log.warn('Authentication error, attempting token refresh');
+
+    // The server may report the error on a socket it hasn't closed yet
+    const websocket = this.ws;
+    if (websocket) {
+      this.ws = null;
+      this.stopHeartbeat();
+      try { websocket.close(); } catch {}
+      this.setConnected(false);
+    }
+
+    try {
+      const res = await api.refreshToken();
+      if (!this.shouldConnect) return;
+      if (res.data?.session) {
+        // Still backed off: a server that keeps rejecting fresh tokens must not cause a reconnect storm
+        log.info('Token refresh succeeded, reconnecting');
+        this.scheduleReconnect();
+        return;
+      }
+      // A rejected refresh signs the user out (and disconnects); anything else is worth retrying
+      log.warn('Token refresh failed, retrying with backoff', res.error);
+    } catch (err) {
+      log.error('Token refresh error', err);
+    }
+    this.scheduleReconnect();
+  }
+
+  // The server accepted hello: the connection is usable from here on
+  private handleAuthenticated(): void {
+    if (this.connected) return;
+    if (this.handshakeTimeout) {
+      clearTimeout(this.handshakeTimeout);
+      this.handshakeTimeout = null;
+    }
+    this.reconnectAttempts = 0;
+    this.sendStreamChange('subscribe', Array.from(this.streamRefs.keys()));
+    this.updateHealth({ rttMs: null, lastMessageAt: Date.now(), missedHeartbeats: 0, reconnectAttempt: 0, nextReconnectAt: null });
+    this.setConnected(true);
+    this.startHeartbeat();
+    this.fillGap();
+  }
+
+  // A rotated access token is handed to the open connection instead of reconnecting
+  private reauthenticate(token: string): void {
+    const websocket = this.ws;
+    if (!websocket || websocket.readyState !== WebSocket.OPEN) return;
+    log.info('Access token rotated, re-authenticating');
+    try {
+      websocket.send(encodeClientMessage({ type: 'reauth', token }));
+    } catch (error) {
+      log.warn('Failed to send reauth', error);
+    }
+  }
+
+  private async refreshInPlace(): Promise<void> {
+    try {
+      // On success the token listener re-authenticates the open connection
+      const res = await api.refreshToken();
+      if (res.data?.session) return;
+      log.warn('Token refresh failed', res.error);
+    } catch (err) {
+      log.error('Token refresh error', err);
+    }
+    // No usable token for this connection; a rejected refresh signs the user out
+    if (!this.shouldConnect || !this.ws) return;
+    this.dropDeadConnection('Connection no longer authenticated');
+  }
+
+  // Close the socket and stop timers without scheduling a retry
+  private closeSocket(reason: string): void {
+    this.clearReconnectTimer();
+    this.reconnectAttempts = 0;
+    this.stopHeartbeat();
+    const websocket = this.ws;
+    this.ws = null;
+    if (websocket) {
+      try { websocket.close(1000, reason); } catch {}
+    }
+    this.failPendingCommands('Disconnected before the device responded');
+    this.setConnected(false);
+  }
+
+  private failPendingCommands(message: string): void {
+    this.pendingCommands.forEach((_, correlationId) => {
+      this.settleCommand(correlationId, new CommandError('failed', message, correlationId));
+    });
+  }
+
+  // Pause in the background, come straight back on foreground, when the network returns or when the
+  // server is reachable again, and follow access token rotation
+  private startLifecycleListeners(): void {
+    if (this.appStateSubscription) return;
+
+    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'background' && !this.backgrounded) {
+        log.info('App backgrounded, pausing connection');
+        this.backgrounded = true;
+        this.gapInBackground = true;
+        this.closeSocket('App backgrounded');
+        this.updateHealth({ reconnectAttempt: 0, nextReconnectAt: null });
+      } else if (state === 'active' && this.backgrounded) {
+        this.backgrounded = false;
+        this.reconnectNow();
+      }
+    });
+    // NetInfo reports the current state on subscribe; only an offline -> online change reconnects
+    this.unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      const online = state.isConnected !== false && state.isInternetReachable !== false;
+      if (online && this.networkOnline === false) {
+        log.info('Network is back');
+        this.reconnectNow();
+      }
+      this.networkOnline = online;
+    });
+    // A REST call got through: the server is reachable even if the network never looked down
+    this.unsubscribeConnectivity = api.onConnectivityChange((online) => {
+      if (online) this.reconnectNow();
+    });
+    this.unsubscribeTokenRefreshed = api.onTokenRefreshed((token) => this.reauthenticate(token));
+  }
+
+  private stopLifecycleListeners(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.unsubscribeConnectivity?.();
+    this.unsubscribeConnectivity = null;
+    this.unsubscribeNetInfo?.();
+    this.unsubscribeNetInfo = null;
+    this.networkOnline = null;
+    this.unsubscribeTokenRefreshed?.();
+    this.unsubscribeTokenRefreshed = null;
+  }
+
+  // Message handler - validate the frame, then process telemetry, acks and errors
+  private handleMessage(raw: unknown): void {
+    const result = parseServerMessage(raw);
+    if (!result.ok) {
+      this.protocolStats.rejected[result.kind] += 1;
+      this.protocolStats.lastRejection = `${result.kind}: ${result.reason}`;
+      log.warn(`Dropped ${result.kind} message: ${result.reason}`);
+      return;
+    }
+
+    const message = result.message;
+    switch (message.type) {
+      case 'connected':
+        this.protocolStats.serverVersion = message.protocolVersion ?? null;
+        if (message.protocolVersion !== undefined && message.protocolVersion !== PROTOCOL_VERSION) {
+          log.warn(`Server speaks protocol v${message.protocolVersion}, client v${PROTOCOL_VERSION}`);
+        }
+        log.info(`Server confirmed connection (protocol v${message.protocolVersion ?? 'unknown'})`);
+        this.handleAuthenticated();
+        break;
+
+      case 'reauthenticated':
+        log.info('Connection re-authenticated with the refreshed token');
+        break;
+
+      case 'pong':
+        this.handlePong(message.id);
+        break;
+
+      case 'command_ack':
+        this.handleCommandAck(message);
+        break;
+
+      case 'telemetry': {
+        const telemetryData = message.data;
+        log.debug(`Telemetry ${telemetryData.messageType} from ${telemetryData.deviceId}`);
+        if (telemetryData.messageType === 'power_status' || telemetryData.messageType === 'sensor_reading') {
+          breakerStateStore.update(
+            telemetryData.deviceId,
+            parseBreakerStates(telemetryData.payload),
+            telemetryData.receivedAt
+          );
+        }
+        this.confirmCommandsFromTelemetry(telemetryData);
+        if (READING_TYPES.includes(telemetryData.messageType)) {
+          this.trackReceivedAt(telemetryData.deviceId, telemetryData.receivedAt);
+        }
+        this.dispatch(telemetryData);
+
+        // Alerts trigger exactly one local notification per message, however many screens listen
+        if (telemetryData.messageType === 'alert') {
+          this.notifyAlert(telemetryData);
+        }
+        break;
+      }
+
+      case 'subscription':
+        if (message.status === 'rejected') {
+          log.warn('Subscription rejected', message.deviceIds, message.message);
+          break;
+        }
+        log.debug(`Subscription ${message.status}`, message.deviceIds, message.messageTypes);
+        break;
+
+      case 'error':
+        // Server rejected the token on the open connection: refresh it and re-authenticate in place
+        if (message.code === 401) {
+          log.warn('Server reported auth error (401) via message');
+          this.refreshInPlace();
+          break;
+        }
+        log.error('Server error', message.message);
+        break;
+    }
+  }
+
+  // Fan a telemetry message out to matching subscribers
+  private dispatch(telemetryData: TelemetryMessage): void {
+    this.subscriptions.forEach((subscription) => {
+      if (subscription.deviceId && subscription.deviceId !== telemetryData.deviceId) return;
+      if (subscription.messageTypes && !subscription.messageTypes.includes(telemetryData.messageType)) return;
+      try {
+        subscription.onTelemetry(telemetryData);
+      } catch (error) {
+        log.error('Telemetry subscriber error', error);
+      }
+    });
+  }
+
+  // Ask the server for streams the first time any screen needs them
+  private retainStreams(deviceId: string | undefined, messageTypes: TelemetryMessageType[] | undefined): void {
+    const added = getStreamKeys(deviceId, messageTypes).filter((key) => {
+      const count = this.streamRefs.get(key) ?? 0;
+      this.streamRefs.set(key, count + 1);
+      return count === 0;
+    });
+    this.sendStreamChange('subscribe', added);
+  }
+
+  // Stop streams once the last screen using them lets go
+  private releaseStreams(deviceId: string | undefined, messageTypes: TelemetryMessageType[] | undefined): void {
+    const removed = getStreamKeys(deviceId, messageTypes).filter((key) => {
+      const count = this.streamRefs.get(key) ?? 0;
+      if (count <= 1) {
+        this.streamRefs.delete(key);
+        return count === 1;
+      }
+      this.streamRefs.set(key, count - 1);
+      return false;
+    });
+    this.sendStreamChange('unsubscribe', removed);
+  }
+
+  // Streams are re-sent on every connect, so changes made while offline need no queue
+  private sendStreamChange(type: 'subscribe' | 'unsubscribe', keys: string[]): void {
+    const websocket = this.ws;
+    if (keys.length === 0 || !websocket || websocket.readyState !== WebSocket.OPEN) return;
+    groupStreamKeys(keys).forEach((selection) => {
+      try {
+        websocket.send(encodeClientMessage({ type, ...selection }));
+      } catch (error) {
+        log.warn(`Failed to send ${type}`, error);
+      }
+    });
+  }
+
+  private trackReceivedAt(deviceId: string, receivedAt: string): void {
+    const last = this.lastReceivedAt.get(deviceId);
+    if (!last || new Date(receivedAt).getTime() > new Date(last).getTime()) {
+      this.lastReceivedAt.set(deviceId, receivedAt);
+    }
+  }
+
+  private wantsBackfill(subscription: TelemetrySubscription, deviceId: string): boolean {
+    if (!subscription.onBackfill) return false;
+    if (subscription.deviceId && subscription.deviceId !== deviceId) return false;
+    return !subscription.messageTypes || subscription.messageTypes.some((type) => READING_TYPES.includes(type));
+  }
+
+  // Devices a screen wants backfilled; an all-devices subscriber gets every device seen so far
+  private getBackfillDevices(): Set<string> {
+    const deviceIds = new Set<string>();
+    this.subscriptions.forEach((subscription) => {
+      if (subscription.deviceId) {
+        if (this.wantsBackfill(subscription, subscription.deviceId)) deviceIds.add(subscription.deviceId);
+        return;
+      }
+      this.lastReceivedAt.forEach((_, deviceId) => {
+        if (this.wantsBackfill(subscription, deviceId)) deviceIds.add(deviceId);
+      });
+    });
+    return deviceIds;
+  }
+
+  // After a reconnect, fetch what was sent while the connection was down
+  private async fillGap(): Promise<void> {
+    const gapStart = this.gapStartedAt;
+    const inBackground = this.gapInBackground;
+    this.gapStartedAt = null;
+    this.gapInBackground = false;
+    if (gapStart === null) return;
+
+    const since = new Date(gapStart).toISOString();
+    const deviceIds = this.getBackfillDevices();
+    log.info(`Backfilling ${deviceIds.size} device(s) since ${since}`);
+
+    await Promise.all([
+      ...Array.from(deviceIds).map((deviceId) => this.backfillDevice(deviceId, this.lastReceivedAt.get(deviceId) ?? since)),
+      this.reconcileAlerts(gapStart, inBackground),
+    ]);
+  }
+
+  private async backfillDevice(deviceId: string, startDate: string): Promise<void> {
+    try {
+      const response = await api.getSensorReadings({ deviceId, startDate, limit: BACKFILL_LIMIT });
+      const start = new Date(startDate).getTime();
+      const readings = mergeReadings([], (response.data?.readings ?? [])
+        .filter((reading) => new Date(reading.receivedAt).getTime() > start), BACKFILL_LIMIT);
+      if (readings.length === 0) return;
+
+      log.info(`Backfilled ${readings.length} reading(s) for ${deviceId}`);
+      this.trackReceivedAt(deviceId, readings[0].receivedAt);
+      this.subscriptions.forEach((subscription) => {
+        if (!this.wantsBackfill(subscription, deviceId)) return;
+        try {
+          subscription.onBackfill?.(readings);
+        } catch (error) {
+          log.error('Backfill subscriber error', error);
+        }
+      });
+    } catch (error) {
+      log.error(`Backfill failed for ${deviceId}`, error);
+    }
+  }
+
+  // Alerts raised during the outage reach subscribers as if they had arrived live
+  private async reconcileAlerts(gapStart: number, inBackground: boolean): Promise<void> {
+    try {
+      const response = await api.getActiveAlerts();
+      const missed = (response.data?.alerts ?? []).filter((alert) => new Date(alert.receivedAt).getTime() > gapStart);
+      if (missed.length === 0) return;
+
+      log.info(`Reconciled ${missed.length} alert(s) raised while disconnected`);
+      missed.forEach((alert: Alert) => {
+        this.dispatch({
+          deviceId: alert.deviceId,
+          messageType: 'alert',
+          payload: { alert: alert.alertType, sensor: alert.sensor, value: alert.value },
+          receivedAt: alert.receivedAt,
+        });
+        // Push notifications already covered the time spent in the background
+        if (!inBackground) notificationService.sendLocalNotification(alert);
+      });
+    } catch (error) {
+      log.error('Alert reconciliation failed', error);
+    }
+  }
+
+  private async notifyAlert(telemetryData: Extract<TelemetryMessage, { messageType: 'alert' }>): Promise<void> {
+    const alertPayload = telemetryData.payload;
+
+    // Format alert data for notification
+    await notificationService.sendLocalNotification({
+      id: telemetryData.deviceId + '_' + Date.now(), // Temporary ID
+      deviceId: telemetryData.deviceId,
+      alertType: alertPayload.alert,
+      sensor: alertPayload.sensor || undefined,
+      value: typeof alertPayload.value === 'number' ? alertPayload.value : undefined,
+      receivedAt: telemetryData.receivedAt,
+    });
+    log.info(`Local notification triggered for ${alertPayload.alert}`);
+  }
+}
+
+// Export singleton instance
+export const telemetrySocket = new TelemetrySocketImpl();
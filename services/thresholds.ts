@@ -0,0 +1,225 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { api, Socket, ThresholdProfile } from '@/lib/api';
+import { OutletData, splitSensorDataByOutlet } from '@/lib/outlet-utils';
+import { normalizeTelemetry } from '@/lib/telemetry';
+import { DEFAULT_THRESHOLDS, evaluateThresholds, withDefaultThresholds } from '@/lib/thresholds';
+import { TelemetryMessage } from '@/lib/ws-protocol';
+import { breakerStateStore } from '@/services/breaker-states';
+import { channelMapService } from '@/services/channel-maps';
+import { notificationService } from '@/services/notifications';
+import { telemetrySocket } from '@/services/telemetry-socket';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('app');
+
+// Storage key (socketId -> profile)
+const THRESHOLDS_KEY = 'socket_thresholds';
+
+// Don't repeat the same local alert for a socket more often than this
+const ALERT_COOLDOWN_MS = 5 * 60 * 1000; // 5 minutes
+
+type ThresholdListener = () => void;
+
+// Devices a socket reads from (the backend has sent both device_id and deviceId)
+const getSocketDeviceIds = (socket: Socket): string[] => (socket.devices ?? [])
+  .map((d: any) => d.device_id ?? d.deviceId)
+  .filter(Boolean);
+
+class ThresholdServiceImpl {
+  // Replaced, never mutated, so a changed profile set is a new snapshot
+  private profiles: ReadonlyMap<string, ThresholdProfile> = new Map();
+  private loadPromise: Promise<void> | null = null;
+  private lastAlertAt = new Map<string, number>();
+  private listeners = new Set<ThresholdListener>();
+  private sockets: Socket[] = [];
+  // Reading subscriptions per device of the user's sockets (deviceId -> unsubscribe)
+  private deviceSubscriptions = new Map<string, () => void>();
+  private unsubscribeSockets: (() => void) | null = null;
+
+  /**
+   * Check live readings against each socket's limits while someone is signed in.
+   * Only the devices of the user's sockets are streamed, and backfilled readings
+   * are not checked: they describe the past and would raise stale alerts.
+   */
+  start(): void {
+    if (this.unsubscribeSockets) return;
+    this.load();
+    channelMapService.load();
+    // Follow every socket list fetched from the server, so added or removed sockets are picked up
+    this.unsubscribeSockets = api.onSocketsLoaded((sockets) => this.setSockets(sockets));
+    this.refreshSockets();
+  }
+
+  /**
+   * Stop checking readings and forget the signed-in user's sockets
+   */
+  stop(): void {
+    this.unsubscribeSockets?.();
+    this.unsubscribeSockets = null;
+    this.setSockets([]);
+    this.lastAlertAt.clear();
+  }
+
+  /**
+   * Load saved profiles from storage (once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(THRESHOLDS_KEY);
+          const parsed: Record<string, Partial<ThresholdProfile>> = stored ? JSON.parse(stored) : {};
+          this.profiles = new Map(Object.entries(parsed).map(([socketId, profile]) => [socketId, withDefaultThresholds(profile)]));
+          this.notifyListeners();
+        } catch (error) {
+          log.error('Error loading threshold profiles', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Get a socket's profile (defaults until one is saved)
+   */
+  getProfile(socketId: string | undefined): ThresholdProfile {
+    return (socketId && this.profiles.get(socketId)) || DEFAULT_THRESHOLDS;
+  }
+
+  /**
+   * All saved profiles by socket ID; a new object after every change (for useSyncExternalStore)
+   */
+  getProfiles(): ReadonlyMap<string, ThresholdProfile> {
+    return this.profiles;
+  }
+
+  /**
+   * Pull a socket's profile from the backend; keeps the local copy if the
+   * backend has none or doesn't support thresholds
+   */
+  async syncFromBackend(socketId: string): Promise<ThresholdProfile> {
+    await this.load();
+    const response = await api.getSocketThresholds(socketId);
+    if (response.data?.thresholds) {
+      this.setProfile(socketId, withDefaultThresholds(response.data.thresholds));
+      await this.persist();
+      this.notifyListeners();
+    }
+    return this.getProfile(socketId);
+  }
+
+  /**
+   * Save a socket's profile locally and push it to the backend
+   * @returns Whether the backend accepted the profile
+   */
+  async saveProfile(socketId: string, profile: ThresholdProfile): Promise<{ synced: boolean }> {
+    await this.load();
+    this.setProfile(socketId, profile);
+    await this.persist();
+    this.notifyListeners();
+
+    const response = await api.updateSocketThresholds(socketId, profile);
+    if (response.error) {
+      log.warn(`Thresholds for socket ${socketId} saved locally only`, response.error);
+      return { synced: false };
+    }
+    return { synced: true };
+  }
+
+  /**
+   * Subscribe to profile changes
+   */
+  onChange(listener: ThresholdListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Raise local notifications for any limits an outlet reading exceeds
+  private async checkOutlet(socketId: string, outlet: OutletData): Promise<void> {
+    const breaches = evaluateThresholds(outlet, this.getProfile(socketId));
+    const now = Date.now();
+
+    for (const breach of breaches) {
+      const key = `${socketId}:${breach.alertType}`;
+      const last = this.lastAlertAt.get(key);
+      if (last && now - last < ALERT_COOLDOWN_MS) continue;
+      this.lastAlertAt.set(key, now);
+
+      await notificationService.sendLocalNotification({
+        id: `local_${key}_${now}`,
+        deviceId: outlet.deviceId,
+        alertType: breach.alertType,
+        sensor: breach.sensor,
+        value: breach.value,
+        receivedAt: outlet.receivedAt,
+      });
+    }
+  }
+
+  private handleTelemetry(data: TelemetryMessage): void {
+    const reading = normalizeTelemetry(data);
+    if (!reading) return;
+
+    const sockets = this.sockets.filter((socket) => getSocketDeviceIds(socket).includes(reading.deviceId));
+    const channelMap = channelMapService.getMap(reading.deviceId);
+    const outlets = splitSensorDataByOutlet(reading, breakerStateStore.getStates(reading.deviceId), channelMap);
+    sockets.forEach((socket) => {
+      const outletNumber = channelMapService.getSocketOutlet(socket.id, reading.deviceId);
+      const outlet = outlets.find((o) => o.outletNumber === outletNumber);
+      if (outlet) {
+        this.checkOutlet(socket.id, outlet).catch((error) => log.error('Error raising threshold alert', error));
+      }
+    });
+  }
+
+  private async refreshSockets(): Promise<void> {
+    // A server answer reaches setSockets through onSocketsLoaded; offline, the saved copy will do
+    const response = await api.getSockets();
+    if (response.offline && response.data && this.unsubscribeSockets) {
+      this.setSockets(response.data.sockets);
+    } else if (response.error) {
+      log.warn('Could not load sockets for threshold alerts', response.error);
+    }
+  }
+
+  // Stream readings for the devices of these sockets, releasing devices no socket uses anymore
+  private setSockets(sockets: Socket[]): void {
+    this.sockets = sockets;
+    const deviceIds = new Set(sockets.flatMap(getSocketDeviceIds));
+
+    this.deviceSubscriptions.forEach((unsubscribe, deviceId) => {
+      if (deviceIds.has(deviceId)) return;
+      unsubscribe();
+      this.deviceSubscriptions.delete(deviceId);
+    });
+    deviceIds.forEach((deviceId) => {
+      if (this.deviceSubscriptions.has(deviceId)) return;
+      this.deviceSubscriptions.set(deviceId, telemetrySocket.subscribe({
+        deviceId,
+        messageTypes: ['sensor_reading', 'power_status'],
+        onTelemetry: (data) => this.handleTelemetry(data),
+      }));
+    });
+  }
+
+  private setProfile(socketId: string, profile: ThresholdProfile): void {
+    this.profiles = new Map(this.profiles).set(socketId, profile);
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(THRESHOLDS_KEY, JSON.stringify(Object.fromEntries(this.profiles)));
+    } catch (error) {
+      log.error('Error saving threshold profiles', error);
+    }
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Export singleton instance
+export const thresholdService = new ThresholdServiceImpl();